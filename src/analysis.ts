@@ -1,86 +1,399 @@
 /**
  * Statistical Analysis Engine for SA LOTTO
- * Auto-detects game format (6/49, 6/52, 6/58) and uses appropriate pool size.
- * Implements frequency analysis, hot/cold, pairs, groups, gaps, chi-square, autocorrelation.
+ * Format-aware: pick count and pool sizes come from the selected game definition,
+ * and the current pool era is auto-detected from the data.
+ * Implements frequency analysis, hot/cold, pairs, groups, gaps, chi-square, autocorrelation
+ * and runs tests on draw-level features.
  */
 
-export const K = 6; // 6 numbers drawn per game
+import { findDrawHoles, holeSegments, type DrawCalendarReport } from "./drawCalendar";
+import { prizeAnalysis, type DrawPrizes, type PrizeAnalysis } from "./prizeData";
+import { setShapeAnalysis, type SetShapeResult } from "./setShape";
+import {
+  adjustPValues,
+  binomialUpperTail,
+  chiSquareSurvival,
+  hypergeometricUpperTail,
+  createSeededRandom,
+  hashStringToSeed,
+  kolmogorovSurvival,
+  logChoose,
+  normalCdf,
+  sampleDistinctBalls,
+  type AdjustedPValues,
+} from "./statistics";
+import {
+  DEFAULT_GAME,
+  getEraPoolSizes,
+  type GameDefinition,
+  type GameEra,
+} from "./games";
 
 export interface DrawRecord {
   date: string;
-  numbers: number[]; // sorted, length K
+  numbers: number[]; // sorted, length = game pick count
   bonus: number;
+  drawNumber?: number; // provider sequence number, when the source has one
+  drawLabel?: string; // provider draw id when it is more than the number ("2451A")
+  prizes?: DrawPrizes; // divisions, rollover and jackpot, when the source has them
+}
+
+// ─── Draw Identity ──────────────────────────────────────────────────
+
+/** Reads a provider draw id ("2451", "Draw 2,451", "LOTTO PLUS 1 #2451A"). */
+export function parseDrawId(
+  value: string | null | undefined,
+): Pick<DrawRecord, "drawNumber" | "drawLabel"> {
+  const label = String(value ?? "").trim();
+  const digits = label.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/\d+/g);
+  if (!digits) return label ? { drawLabel: label } : {};
+  const drawNumber = parseInt(digits[digits.length - 1], 10);
+  return label === String(drawNumber) ? { drawNumber } : { drawNumber, drawLabel: label };
+}
+
+/** The draw id as written in the source, or null when it has none. */
+export function drawIdOf(draw: Pick<DrawRecord, "drawNumber" | "drawLabel">): string | null {
+  if (draw.drawLabel) return draw.drawLabel;
+  return draw.drawNumber !== undefined ? String(draw.drawNumber) : null;
+}
+
+/**
+ * Chronological order. Draw numbers come first because several draws can share
+ * a date (Lotto, Lotto Plus 1 and 2) and corrected re-draws keep theirs; the
+ * ISO date orders draws without one.
+ */
+export function compareDraws(
+  a: Pick<DrawRecord, "date" | "drawNumber" | "drawLabel">,
+  b: Pick<DrawRecord, "date" | "drawNumber" | "drawLabel">,
+): number {
+  if (a.drawNumber !== undefined && b.drawNumber !== undefined) {
+    return (
+      a.drawNumber - b.drawNumber ||
+      a.date.localeCompare(b.date) ||
+      (a.drawLabel ?? "").localeCompare(b.drawLabel ?? "")
+    );
+  }
+  return a.date.localeCompare(b.date);
+}
+
+// ─── Bonus Policy ───────────────────────────────────────────────────
+// How diagnostics treat the bonus ball:
+//  - "exclude": main numbers only, the bonus is ignored
+//  - "include": the bonus is counted as one more ball from the main drum
+//  - "separate": main numbers only, with the bonus analysed on its own drum
+export type BonusPolicy = "exclude" | "include" | "separate";
+
+export const BONUS_POLICIES: BonusPolicy[] = ["exclude", "include", "separate"];
+
+export function defaultBonusPolicy(game: GameDefinition): BonusPolicy {
+  if (game.bonusSemantics === "none") return "exclude";
+  if (game.bonusSemantics === "separate-pool") return "separate";
+  return "include";
+}
+
+/**
+ * Applies the requested policy where the game allows it. Games without a bonus
+ * are always "exclude", and a separate-drum bonus is never folded into the
+ * main numbers, so "include" falls back to "separate" there.
+ */
+export function resolveBonusPolicy(
+  game: GameDefinition,
+  requested?: BonusPolicy | null,
+): BonusPolicy {
+  if (!requested || !BONUS_POLICIES.includes(requested)) {
+    return defaultBonusPolicy(game);
+  }
+  if (game.bonusSemantics === "none") return "exclude";
+  if (game.bonusSemantics === "separate-pool" && requested === "include") {
+    return "separate";
+  }
+  return requested;
+}
+
+// ─── Draw Layout ────────────────────────────────────────────────────
+// Which balls of a draw an analysis counts: the game's main pick count,
+// extended by the bonus ball when the bonus policy is "include".
+export interface DrawLayout {
+  pickCount: number;
+  bonusPolicy: BonusPolicy;
+}
+
+export const DEFAULT_DRAW_LAYOUT: DrawLayout = {
+  pickCount: DEFAULT_GAME.pickCount,
+  bonusPolicy: defaultBonusPolicy(DEFAULT_GAME),
+};
+
+export function layoutForGame(
+  game: GameDefinition,
+  bonusPolicy?: BonusPolicy | null,
+): DrawLayout {
+  return {
+    pickCount: game.pickCount,
+    bonusPolicy: resolveBonusPolicy(game, bonusPolicy),
+  };
+}
+
+/** Balls per draw under the layout (pick count, plus one when the bonus is included). */
+export function layoutBallCount(layout: DrawLayout): number {
+  return layout.pickCount + (layout.bonusPolicy === "include" ? 1 : 0);
+}
+
+/** The draw's counted balls under the layout, in draw order. */
+export function drawBalls(draw: DrawRecord, layout: DrawLayout): number[] {
+  const balls = draw.numbers.filter((n) => n > 0);
+  if (layout.bonusPolicy === "include" && draw.bonus > 0) {
+    balls.push(draw.bonus);
+  }
+  return balls;
 }
 
 // ─── Format Detection ───────────────────────────────────────────────
+// "declared": the era starts on a user/game declared change date
+// "detected": the start is the most likely change point given the data
+export type EraSource = "declared" | "detected";
+
 export interface FormatEra {
-  poolSize: number; // 49, 52, or 58
+  poolSize: number; // one of the game's era pool sizes
   startIndex: number;
   endIndex: number;
   drawCount: number;
+  startDate: string;
+  endDate: string;
+  source: EraSource;
+  confidence: number; // posterior probability of the start boundary (1 when declared or first era)
+  earliestStartDate?: string; // earliest start inside the 95% credible window (detected only)
+}
+
+function poolForMaxBall(maxBall: number, pools: number[]): number {
+  for (const pool of pools) {
+    if (maxBall <= pool) return pool;
+  }
+  return pools[pools.length - 1];
+}
+
+// Log-probability that the largest of `ballCount` balls drawn from `pool` is `maxBall`.
+function logMaxBallLikelihood(
+  maxBall: number,
+  ballCount: number,
+  pool: number,
+): number {
+  if (ballCount === 0) return 0;
+  if (maxBall > pool || maxBall < ballCount) return -Infinity;
+  return logChoose(maxBall - 1, ballCount - 1) - logChoose(pool, ballCount);
+}
+
+/**
+ * Most likely first draw of the larger pool within [lo + 1, hi], where `hi` is
+ * the first draw that cannot belong to the smaller pool. Each split is scored
+ * by the max-ball likelihood of the draws on either side.
+ */
+function locateChangePoint(
+  drawLogLik: (index: number, pool: number) => number,
+  lo: number,
+  hi: number,
+  fromPool: number,
+  toPool: number,
+): { index: number; confidence: number; earliestIndex: number } {
+  const splits: number[] = [];
+  const scores: number[] = [];
+  let before = 0;
+  let after = 0;
+  for (let i = lo; i <= hi; i++) after += drawLogLik(i, toPool);
+  for (let tau = lo + 1; tau <= hi; tau++) {
+    before += drawLogLik(tau - 1, fromPool);
+    after -= drawLogLik(tau - 1, toPool);
+    splits.push(tau);
+    scores.push(before + after);
+  }
+  if (splits.length === 0) return { index: hi, confidence: 1, earliestIndex: hi };
+
+  const best = Math.max(...scores);
+  const weights = scores.map((score) =>
+    Number.isFinite(score) ? Math.exp(score - best) : 0,
+  );
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const bestPos = scores.indexOf(best);
+
+  // Grow the credible window outward from the latest split until it holds 95%.
+  let mass = 0;
+  let earliestPos = weights.length - 1;
+  for (let pos = weights.length - 1; pos >= 0; pos--) {
+    mass += weights[pos] / totalWeight;
+    earliestPos = pos;
+    if (mass >= 0.95) break;
+  }
+
+  return {
+    index: splits[bestPos],
+    confidence: weights[bestPos] / totalWeight,
+    earliestIndex: Math.min(splits[earliestPos], splits[bestPos]),
+  };
 }
 
-function inferDrawPoolSize(draw: DrawRecord): number {
-  const maxInDraw = Math.max(...draw.numbers, draw.bonus || 0);
-  if (maxInDraw > 52) return 58;
-  if (maxInDraw > 49) return 52;
-  return 49;
+// Dated eras (declared, or built into the game definition) in start order.
+function datedEras(game: GameDefinition, declaredEras?: GameEra[]): GameEra[] {
+  const source = declaredEras && declaredEras.length > 0 ? declaredEras : game.eras;
+  return source
+    .filter((era) => Boolean(era.startDate))
+    .sort((a, b) => (a.startDate as string).localeCompare(b.startDate as string));
+}
+
+function buildEra(
+  draws: DrawRecord[],
+  poolSize: number,
+  startIndex: number,
+  endIndex: number,
+  source: EraSource,
+  confidence = 1,
+  earliestStartIndex?: number,
+): FormatEra {
+  return {
+    poolSize,
+    startIndex,
+    endIndex,
+    drawCount: endIndex - startIndex + 1,
+    startDate: draws[startIndex].date,
+    endDate: draws[endIndex].date,
+    source,
+    confidence,
+    earliestStartDate:
+      earliestStartIndex !== undefined
+        ? draws[earliestStartIndex].date
+        : undefined,
+  };
+}
+
+function declaredFormatEras(
+  draws: DrawRecord[],
+  game: GameDefinition,
+  dated: GameEra[],
+): FormatEra[] {
+  // Draws before the first declared change use the game's preceding pool size.
+  const pools = getEraPoolSizes(game);
+  const firstPool = dated[0].poolSize;
+  const precedingPools = pools.filter((pool) => pool < firstPool);
+  const initialPool =
+    precedingPools.length > 0
+      ? precedingPools[precedingPools.length - 1]
+      : firstPool;
+
+  const poolAt = (date: string): number => {
+    let pool = initialPool;
+    for (const era of dated) {
+      if ((era.startDate as string) <= date) pool = era.poolSize;
+    }
+    return pool;
+  };
+
+  const eras: FormatEra[] = [];
+  let eraStart = 0;
+  let eraPool = poolAt(draws[0].date);
+  for (let i = 1; i < draws.length; i++) {
+    const pool = poolAt(draws[i].date);
+    if (pool === eraPool) continue;
+    eras.push(buildEra(draws, eraPool, eraStart, i - 1, "declared"));
+    eraStart = i;
+    eraPool = pool;
+  }
+  eras.push(buildEra(draws, eraPool, eraStart, draws.length - 1, "declared"));
+  return eras;
 }
 
 /**
  * Auto-detect the pool size for each draw.
- * The SA LOTTO has changed from 6/49 → 6/52 → 6/58 over the years.
+ * Games such as SA LOTTO have grown their pool over the years (6/49 → 6/52 → 6/58);
+ * the candidate pool sizes come from the game definition's eras.
+ * Declared change dates win; otherwise each boundary is placed at the most likely
+ * change point, since a draw from a larger pool can still stay below the old maximum.
  * We detect the current era and return only draws from that era for analysis.
  */
-export function detectFormat(draws: DrawRecord[]): {
+export function detectFormat(
+  draws: DrawRecord[],
+  game: GameDefinition = DEFAULT_GAME,
+  declaredEras?: GameEra[],
+): {
   currentN: number;
   currentDraws: DrawRecord[];
   eras: FormatEra[];
 } {
-  if (draws.length === 0) return { currentN: 52, currentDraws: [], eras: [] };
+  if (draws.length === 0) {
+    return { currentN: game.mainPool, currentDraws: [], eras: [] };
+  }
+
+  const dated = datedEras(game, declaredEras);
+  if (dated.length > 0) {
+    const eras = declaredFormatEras(draws, game, dated);
+    const current = eras[eras.length - 1];
+    return {
+      currentN: current.poolSize,
+      currentDraws: draws.slice(current.startIndex),
+      eras,
+    };
+  }
+
+  const pools = getEraPoolSizes(game);
+  const layout = layoutForGame(game);
+  const drawMax = draws.map((d) => Math.max(...drawBalls(d, layout), 0));
+  const drawBallCount = draws.map((d) => drawBalls(d, layout).length);
+  const drawLogLik = (index: number, pool: number) =>
+    logMaxBallLikelihood(drawMax[index], drawBallCount[index], pool);
 
   // Determine current pool size based on recent data
   const recentWindow = Math.min(50, draws.length);
-  const recentDraws = draws.slice(-recentWindow);
-  const recentMax = Math.max(
-    ...recentDraws.flatMap((d) => [...d.numbers, d.bonus].filter((n) => n > 0)),
-  );
-
-  let currentN: number;
-  if (recentMax > 52) currentN = 58;
-  else if (recentMax > 49) currentN = 52;
-  else currentN = 49;
+  const recentMax = Math.max(...drawMax.slice(-recentWindow), 0);
+  const currentN = poolForMaxBall(recentMax, pools);
 
-  // Find transitions between eras
+  // Find transitions between eras: the first draw that needs a larger pool
+  // bounds each change, and the change point is searched for before it.
   const eras: FormatEra[] = [];
   let eraStartIndex = 0;
+  let eraConfidence = 1;
+  let eraEarliestStart: number | undefined = undefined;
   let lastPoolSize = -1;
 
   for (let i = 0; i < draws.length; i++) {
-    const poolAtI = inferDrawPoolSize(draws[i]);
+    const poolAtI = poolForMaxBall(drawMax[i], pools);
 
     if (lastPoolSize === -1) {
       lastPoolSize = poolAtI;
     } else if (poolAtI > lastPoolSize) {
-      // Transition to a larger pool
-      eras.push({
-        poolSize: lastPoolSize,
-        startIndex: eraStartIndex,
-        endIndex: i - 1,
-        drawCount: i - eraStartIndex,
-      });
-      eraStartIndex = i;
+      const change = locateChangePoint(
+        drawLogLik,
+        eraStartIndex,
+        i,
+        lastPoolSize,
+        poolAtI,
+      );
+      eras.push(
+        buildEra(
+          draws,
+          lastPoolSize,
+          eraStartIndex,
+          change.index - 1,
+          "detected",
+          eraConfidence,
+          eraEarliestStart,
+        ),
+      );
+      eraStartIndex = change.index;
+      eraConfidence = change.confidence;
+      eraEarliestStart = change.earliestIndex;
       lastPoolSize = poolAtI;
     }
   }
 
   // Add the last (current) era
-  eras.push({
-    poolSize: currentN,
-    startIndex: eraStartIndex,
-    endIndex: draws.length - 1,
-    drawCount: draws.length - eraStartIndex,
-  });
+  eras.push(
+    buildEra(
+      draws,
+      currentN,
+      eraStartIndex,
+      draws.length - 1,
+      "detected",
+      eraConfidence,
+      eraEarliestStart,
+    ),
+  );
 
   const currentDraws = draws.slice(eraStartIndex);
   return { currentN, currentDraws, eras };
@@ -98,14 +411,14 @@ export interface FrequencyResult {
 export function frequencyAnalysis(
   draws: DrawRecord[],
   N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): FrequencyResult[] {
   const T = draws.length;
-  const K_ANALYSIS = 7; // Treat as 7-number draw for frequency
+  const K_ANALYSIS = layoutBallCount(layout); // Main picks (+ shared-pool bonus)
   const counts = new Array(N + 1).fill(0);
   for (const d of draws) {
-    const allNums = [...d.numbers, d.bonus];
-    for (const n of allNums) {
-      if (n > 0 && n <= N) counts[n]++;
+    for (const n of drawBalls(d, layout)) {
+      if (n <= N) counts[n]++;
     }
   }
   const expected = (T * K_ANALYSIS) / N;
@@ -139,16 +452,16 @@ export function hotColdAnalysis(
   draws: DrawRecord[],
   N: number,
   windowSize = 20,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): HotColdResult[] {
-  const allFreq = frequencyAnalysis(draws, N);
+  const allFreq = frequencyAnalysis(draws, N, layout);
   const actualWindow = Math.min(windowSize, draws.length);
   const recentDraws = draws.slice(-actualWindow);
   const recentCounts = new Array(N + 1).fill(0);
 
   for (const d of recentDraws) {
-    const allNums = [...d.numbers, d.bonus];
-    for (const n of allNums) {
-      if (n > 0 && n <= N) recentCounts[n]++;
+    for (const n of drawBalls(d, layout)) {
+      if (n <= N) recentCounts[n]++;
     }
   }
 
@@ -177,52 +490,127 @@ export function hotColdAnalysis(
   });
 }
 
+// ─── Significance ───────────────────────────────────────────────────
+// Per-number, per-pair and per-transition flags are tested as families: a
+// flag is raised only when its Holm-adjusted p-value clears this level.
+export const FAMILY_SIGNIFICANCE = 0.05;
+
 // ─── Pair Co-occurrence ─────────────────────────────────────────────
 export interface PairResult {
   i: number;
   j: number;
   count: number;
-  expected: number;
+  expected: number; // given both numbers' draw counts; see `PairMatrix`
   zScore: number;
+  pValue: number; // one-sided, pair drawn together more often than chance
+  adjusted: AdjustedPValues; // across all N·(N − 1)/2 pairs
+  isSignificant: boolean;
 }
 
-export function pairAnalysis(
+/**
+ * Every pair of the pool, as flat arrays indexed by `pairIndex`. The null
+ * holds each number's draw count fixed, so a pair's co-occurrence count is
+ * hypergeometric and frequency imbalance alone does not read as affinity.
+ */
+export interface PairMatrix {
+  poolSize: number;
+  drawCount: number;
+  counts: number[];
+  expected: number[];
+  zScores: number[];
+  pValues: number[]; // exact one-sided hypergeometric
+  adjusted: AdjustedPValues[]; // across all N·(N − 1)/2 pairs
+}
+
+/** Position of the pair (i, j), i ≠ j, in the arrays of a `PairMatrix`. */
+export function pairIndex(i: number, j: number, N: number): number {
+  const a = Math.min(i, j);
+  const b = Math.max(i, j);
+  return ((a - 1) * (2 * N - a)) / 2 + (b - a - 1);
+}
+
+export function pairMatrix(
   draws: DrawRecord[],
   N: number,
-  topN = 30,
-): PairResult[] {
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+): PairMatrix {
   const T = draws.length;
-  const K_A = 6; // Main numbers only
-  const pPair = (K_A * (K_A - 1)) / (N * (N - 1));
-  const expectedPair = T * pPair;
-  const stdPair = Math.sqrt(T * pPair * (1 - pPair));
-
-  const pairCounts = new Map<string, number>();
+  const size = (N * (N - 1)) / 2;
+  const counts = new Array<number>(size).fill(0);
+  const occurrences = new Array<number>(N + 1).fill(0);
   for (const d of draws) {
-    const nums = [...d.numbers].filter((n) => n > 0 && n <= N);
+    const nums = drawBalls(d, layout)
+      .filter((n) => n <= N)
+      .sort((a, b) => a - b);
     for (let a = 0; a < nums.length; a++) {
+      occurrences[nums[a]]++;
       for (let b = a + 1; b < nums.length; b++) {
-        const key = `${nums[a]}-${nums[b]}`;
-        pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+        counts[pairIndex(nums[a], nums[b], N)]++;
       }
     }
   }
 
+  const expected = new Array<number>(size);
+  const zScores = new Array<number>(size);
+  const pValues = new Array<number>(size);
+  for (let i = 1; i < N; i++) {
+    for (let j = i + 1; j <= N; j++) {
+      const idx = pairIndex(i, j, N);
+      const ni = occurrences[i];
+      const nj = occurrences[j];
+      const mean = T > 0 ? (ni * nj) / T : 0;
+      const variance =
+        T > 1 ? (nj * (ni / T) * (1 - ni / T) * (T - nj)) / (T - 1) : 0;
+      expected[idx] = mean;
+      zScores[idx] = variance > 0 ? (counts[idx] - mean) / Math.sqrt(variance) : 0;
+      pValues[idx] = hypergeometricUpperTail(counts[idx], T, ni, nj);
+    }
+  }
+
+  return {
+    poolSize: N,
+    drawCount: T,
+    counts,
+    expected,
+    zScores,
+    pValues,
+    adjusted: adjustPValues(pValues),
+  };
+}
+
+/** The `topN` pairs of a matrix drawn together most often relative to chance. */
+export function topPairsOf(matrix: PairMatrix, topN = 30): PairResult[] {
+  const N = matrix.poolSize;
   const results: PairResult[] = [];
-  for (const [key, count] of pairCounts) {
-    const [i, j] = key.split("-").map(Number);
-    results.push({
-      i,
-      j,
-      count,
-      expected: expectedPair,
-      zScore: stdPair > 0 ? (count - expectedPair) / stdPair : 0,
-    });
+  for (let i = 1; i < N; i++) {
+    for (let j = i + 1; j <= N; j++) {
+      const idx = pairIndex(i, j, N);
+      if (matrix.counts[idx] === 0) continue;
+      results.push({
+        i,
+        j,
+        count: matrix.counts[idx],
+        expected: matrix.expected[idx],
+        zScore: matrix.zScores[idx],
+        pValue: matrix.pValues[idx],
+        adjusted: matrix.adjusted[idx],
+        isSignificant: matrix.adjusted[idx].holm < FAMILY_SIGNIFICANCE,
+      });
+    }
   }
   results.sort((a, b) => b.zScore - a.zScore);
   return results.slice(0, topN);
 }
 
+export function pairAnalysis(
+  draws: DrawRecord[],
+  N: number,
+  topN = 30,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+): PairResult[] {
+  return topPairsOf(pairMatrix(draws, N, layout), topN);
+}
+
 // ─── Number Group Distribution ──────────────────────────────────────
 export type GroupName = "Low" | "Medium" | "MedHigh" | "High";
 
@@ -240,18 +628,23 @@ export function getGroup(n: number, N: number = 52): GroupName {
   return "High";
 }
 
+/** Balls per group, as "Low-Medium-MedHigh-High" counts ("2-1-2-1"). */
+export function groupPatternOf(numbers: number[], N: number): string {
+  const groups = { Low: 0, Medium: 0, MedHigh: 0, High: 0 };
+  for (const n of numbers) groups[getGroup(n, N)]++;
+  return `${groups.Low}-${groups.Medium}-${groups.MedHigh}-${groups.High}`;
+}
+
 export function groupAnalysis(
   draws: DrawRecord[],
   N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): GroupPatternResult[] {
   const T = draws.length;
   const patternCounts = new Map<string, number>();
 
   for (const d of draws) {
-    const groups = { Low: 0, Medium: 0, MedHigh: 0, High: 0 };
-    const allNums = [...d.numbers, d.bonus].filter((n) => n > 0);
-    for (const n of allNums) groups[getGroup(n, N)]++;
-    const pattern = `${groups.Low}-${groups.Medium}-${groups.MedHigh}-${groups.High}`;
+    const pattern = groupPatternOf(drawBalls(d, layout), N);
     patternCounts.set(pattern, (patternCounts.get(pattern) || 0) + 1);
   }
 
@@ -264,26 +657,112 @@ export function groupAnalysis(
 }
 
 // ─── Gap Analysis ───────────────────────────────────────────────────
+// Under a fair draw a number shows with chance p = balls / N each draw, so
+// its gaps are geometric: P(gap = g) = p(1 − p)^(g − 1). Being "due" carries
+// no information; only a current gap improbably long for that law is flagged.
+export interface GeometricFit {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  adjusted: AdjustedPValues; // across all N numbers
+}
+
 export interface GapResult {
   number: number;
-  currentGap: number;
+  currentGap: number; // draws since the number last appeared
   avgGap: number;
   maxGap: number;
-  isOverdue: boolean;
+  histogram: number[]; // [g] = completed gaps of length g; [0] unused
+  survival: number[]; // Kaplan–Meier [g] = P(gap > g), the current gap censored
+  geometricFit: GeometricFit | null; // null when too few gaps to bin
+  currentGapTail: number; // P(a fair number misses at least currentGap draws in a row)
+  currentGapAdjusted: AdjustedPValues; // across all N numbers
+  isOverdue: boolean; // Holm-adjusted tail below FAMILY_SIGNIFICANCE
 }
 
-export function gapAnalysis(draws: DrawRecord[], N: number): GapResult[] {
+const MIN_EXPECTED_PER_BIN = 5;
+
+// Pearson χ² of completed gaps against the geometric law. Consecutive lengths
+// share a bin until it expects at least MIN_EXPECTED_PER_BIN gaps.
+function geometricGoodnessOfFit(
+  histogram: number[],
+  gapCount: number,
+  p: number,
+): Omit<GeometricFit, "adjusted"> | null {
+  if (gapCount === 0 || p <= 0 || p >= 1) return null;
+  const bins: Array<{ observed: number; expected: number }> = [];
+  let tailExpected = gapCount; // expected gaps longer than the last length binned
+  let tailObserved = gapCount;
+  let bin = { observed: 0, expected: 0 };
+  for (let g = 1; tailExpected >= MIN_EXPECTED_PER_BIN; g++) {
+    const expected = gapCount * p * (1 - p) ** (g - 1);
+    const observed = histogram[g] ?? 0;
+    bin.observed += observed;
+    bin.expected += expected;
+    tailExpected -= expected;
+    tailObserved -= observed;
+    if (bin.expected >= MIN_EXPECTED_PER_BIN && tailExpected >= MIN_EXPECTED_PER_BIN) {
+      bins.push(bin);
+      bin = { observed: 0, expected: 0 };
+    }
+  }
+  bin.observed += tailObserved;
+  bin.expected += tailExpected;
+  if (bin.expected < MIN_EXPECTED_PER_BIN && bins.length > 0) {
+    const last = bins[bins.length - 1];
+    last.observed += bin.observed;
+    last.expected += bin.expected;
+  } else {
+    bins.push(bin);
+  }
+  if (bins.length < 2) return null;
+  const chiSquare = bins.reduce(
+    (sum, bin) => sum + (bin.observed - bin.expected) ** 2 / bin.expected,
+    0,
+  );
+  const degreesOfFreedom = bins.length - 1;
+  return { chiSquare, degreesOfFreedom, pValue: chiSquareSurvival(chiSquare, degreesOfFreedom) };
+}
+
+function kaplanMeier(histogram: number[], censoredAt: number | null): number[] {
+  const horizon = Math.max(histogram.length - 1, censoredAt ?? 0);
+  let atRisk = histogram.reduce((sum, count) => sum + count, 0) + (censoredAt ? 1 : 0);
+  const survival = [1];
+  for (let g = 1; g <= horizon; g++) {
+    const events = histogram[g] ?? 0;
+    const previous = survival[g - 1];
+    survival.push(atRisk > 0 ? previous * (1 - events / atRisk) : previous);
+    atRisk -= events;
+    if (censoredAt === g) atRisk--; // survived through g; fate after it unknown
+  }
+  return survival;
+}
+
+// `holeIndexes` (see findDrawHoles) drop gaps that span missing draws.
+export function gapAnalysis(
+  draws: DrawRecord[],
+  N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  holeIndexes?: number[],
+): GapResult[] {
   const T = draws.length;
-  const results: GapResult[] = [];
+  const segments = holeSegments(T, holeIndexes);
+  const p = Math.min(1, layoutBallCount(layout) / N);
+  const drawSets = draws.map((d) => new Set(drawBalls(d, layout)));
+  const partial: Array<Omit<GapResult, "geometricFit" | "currentGapAdjusted" | "isOverdue"> & {
+    fit: Omit<GeometricFit, "adjusted"> | null;
+    currentGapKnown: boolean;
+  }> = [];
 
   for (let num = 1; num <= N; num++) {
     let lastSeen = -1;
     const gaps: number[] = [];
 
     for (let t = 0; t < T; t++) {
-      const allNums = [...draws[t].numbers, draws[t].bonus];
-      if (allNums.includes(num)) {
-        if (lastSeen >= 0) gaps.push(t - lastSeen);
+      if (drawSets[t].has(num)) {
+        if (lastSeen >= 0 && segments[lastSeen] === segments[t]) {
+          gaps.push(t - lastSeen);
+        }
         lastSeen = t;
       }
     }
@@ -292,71 +771,167 @@ export function gapAnalysis(draws: DrawRecord[], N: number): GapResult[] {
     const avgGap =
       gaps.length > 0 ? gaps.reduce((a, b) => a + b, 0) / gaps.length : T;
     const maxGap = gaps.length > 0 ? Math.max(...gaps) : T;
+    // A current gap running across a hole has an unknown true length.
+    const currentGapKnown = lastSeen < 0 || segments[lastSeen] === segments[T - 1];
+    const histogram = new Array<number>((gaps.length > 0 ? maxGap : 0) + 1).fill(0);
+    for (const gap of gaps) histogram[gap]++;
 
-    results.push({
+    partial.push({
       number: num,
       currentGap,
       avgGap,
       maxGap,
-      isOverdue: currentGap > avgGap * 1.5,
+      histogram,
+      survival: kaplanMeier(
+        histogram,
+        lastSeen >= 0 && currentGapKnown && currentGap > 0 ? currentGap : null,
+      ),
+      fit: geometricGoodnessOfFit(histogram, gaps.length, p),
+      currentGapTail: (1 - p) ** currentGap,
+      currentGapKnown,
     });
   }
-  return results;
+
+  const fitAdjusted = adjustPValues(
+    partial.filter((entry) => entry.fit).map((entry) => entry.fit!.pValue),
+    N,
+  );
+  const tailAdjusted = adjustPValues(partial.map((entry) => entry.currentGapTail));
+  let fitIdx = 0;
+  return partial.map(({ fit, currentGapKnown, ...entry }, idx) => ({
+    ...entry,
+    geometricFit: fit ? { ...fit, adjusted: fitAdjusted[fitIdx++] } : null,
+    currentGapAdjusted: tailAdjusted[idx],
+    isOverdue: currentGapKnown && tailAdjusted[idx].holm < FAMILY_SIGNIFICANCE,
+  }));
 }
 
 // ─── Chi-Square Global Uniformity Test ──────────────────────────────
+export interface UniformityTest {
+  statistic: number;
+  pValue: number;
+}
+
 export interface ChiSquareResult {
   chiSquare: number;
   degreesOfFreedom: number;
-  pValue: number;
+  pValue: number; // χ²(N − 1) tail of the statistic scaled for sampling without replacement
   isUniform: boolean;
+  cramersV: number; // effect size, 0 = perfectly even counts
+  gTest: UniformityTest; // likelihood-ratio counterpart of χ², same df and scaling
+  ksTest: UniformityTest; // ball values against the discrete uniform CDF
+  monteCarlo: (UniformityTest & { trials: number }) | null; // null when not simulated
 }
 
-function normalCDF(z: number): number {
-  if (z < -8) return 0;
-  if (z > 8) return 1;
-  const a1 = 0.254829592,
-    a2 = -0.284496736,
-    a3 = 1.421413741,
-    a4 = -1.453152027,
-    a5 = 1.061405429,
-    p = 0.3275911;
-  const sign = z < 0 ? -1 : 1;
-  const x = Math.abs(z) / Math.SQRT2;
-  const t = 1 / (1 + p * x);
-  const y =
-    1 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-  return 0.5 * (1 + sign * y);
+export const DEFAULT_UNIFORMITY_TRIALS = 1000;
+
+function chiSquareStatistic(counts: number[], expected: number): number {
+  let chiSq = 0;
+  for (let n = 1; n < counts.length; n++) chiSq += (counts[n] - expected) ** 2 / expected;
+  return chiSq;
 }
 
-function chiSquarePValue(chiSq: number, df: number): number {
-  const z = Math.pow(chiSq / df, 1 / 3) - (1 - 2 / (9 * df));
-  const denom = Math.sqrt(2 / (9 * df));
-  const zNorm = z / denom;
-  return 1 - normalCDF(zNorm);
+function gTest(
+  counts: number[],
+  expected: number,
+  df: number,
+  scale: number,
+): UniformityTest {
+  let statistic = 0;
+  for (let n = 1; n < counts.length; n++) {
+    if (counts[n] > 0) statistic += 2 * counts[n] * Math.log(counts[n] / expected);
+  }
+  return { statistic, pValue: chiSquareSurvival(statistic * scale, df) };
 }
 
-export function chiSquareTest(draws: DrawRecord[], N: number): ChiSquareResult {
+function ksUniformTest(counts: number[], total: number): UniformityTest {
+  const N = counts.length - 1;
+  let cumulative = 0;
+  let statistic = 0;
+  for (let n = 1; n <= N; n++) {
+    cumulative += counts[n];
+    statistic = Math.max(statistic, Math.abs(cumulative / total - n / N));
+  }
+  // Stephens' small-sample correction; conservative for a discrete null.
+  const root = Math.sqrt(total);
+  return {
+    statistic,
+    pValue: kolmogorovSurvival((root + 0.12 + 0.11 / root) * statistic),
+  };
+}
+
+// Share of fair histories of the same size whose χ² is at least the observed one.
+function monteCarloChiSquare(
+  counts: number[],
+  drawCount: number,
+  ballsPerDraw: number,
+  observed: number,
+  trials: number,
+): UniformityTest & { trials: number } {
+  const N = counts.length - 1;
+  const expected = (drawCount * ballsPerDraw) / N;
+  const rng = createSeededRandom(hashStringToSeed(`uniformity:${counts.join(",")}`));
+  const scratch: number[] = [];
+  const simulated = new Array<number>(N + 1);
+  let atLeast = 0;
+  for (let trial = 0; trial < trials; trial++) {
+    simulated.fill(0);
+    for (let t = 0; t < drawCount; t++) {
+      for (const n of sampleDistinctBalls(N, ballsPerDraw, rng, scratch)) simulated[n]++;
+    }
+    if (chiSquareStatistic(simulated, expected) >= observed - 1e-9) atLeast++;
+  }
+  return { statistic: observed, pValue: (atLeast + 1) / (trials + 1), trials };
+}
+
+export function chiSquareTest(
+  draws: DrawRecord[],
+  N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  monteCarloTrials = 0,
+): ChiSquareResult {
   const T = draws.length;
+  const K = layoutBallCount(layout);
   const counts = new Array(N + 1).fill(0);
   for (const d of draws) {
-    for (const n of d.numbers) {
+    for (const n of drawBalls(d, layout)) {
       if (n <= N) counts[n]++;
     }
   }
+  const total = counts.reduce((a, b) => a + b, 0);
+  const df = N - 1;
+  if (total === 0 || df < 1) {
+    const empty = { statistic: 0, pValue: 1 };
+    return {
+      chiSquare: 0,
+      degreesOfFreedom: Math.max(0, df),
+      pValue: 1,
+      isUniform: true,
+      cramersV: 0,
+      gTest: empty,
+      ksTest: empty,
+      monteCarlo: null,
+    };
+  }
+
   const expected = (T * K) / N;
-  const chiSq = counts.slice(1).reduce(
-    // Start from index 1 to ignore the 0th element if N is the max number
-    (acc, count) => acc + (count - expected) ** 2 / expected,
-    0,
-  );
-  // Using N for degrees of freedom calculation
-  const pValue = chiSquarePValue(chiSq, N - 1);
+  const chiSq = chiSquareStatistic(counts, expected);
+  // K distinct balls per draw make the counts negatively correlated, so a fair
+  // draw's statistic averages N − K rather than N − 1.
+  const scale = K < N ? (N - 1) / (N - K) : 1;
+  const pValue = chiSquareSurvival(chiSq * scale, df);
   return {
     chiSquare: chiSq,
-    degreesOfFreedom: N - 1,
+    degreesOfFreedom: df,
     pValue,
     isUniform: pValue > 0.05,
+    cramersV: Math.sqrt(chiSq / (total * df)),
+    gTest: gTest(counts, expected, df, scale),
+    ksTest: ksUniformTest(counts, total),
+    monteCarlo:
+      monteCarloTrials > 0
+        ? monteCarloChiSquare(counts, T, Math.min(K, N), chiSq, monteCarloTrials)
+        : null,
   };
 }
 
@@ -364,89 +939,394 @@ export function chiSquareTest(draws: DrawRecord[], N: number): ChiSquareResult {
 export interface AutocorrResult {
   number: number;
   lag1Corr: number;
-  isSignificant: boolean;
+  pValue: number; // two-sided; r·√T is standard normal under independence
+  adjusted: AdjustedPValues; // across all N numbers
+  isSignificant: boolean; // Holm-adjusted
 }
 
 export function autocorrelationAnalysis(
   draws: DrawRecord[],
   N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  holeIndexes?: number[],
 ): AutocorrResult[] {
   const T = draws.length;
-  const results: AutocorrResult[] = [];
+  const segments = holeSegments(T, holeIndexes);
+  const correlations: number[] = [];
+  const drawSets = draws.map((d) => new Set(drawBalls(d, layout)));
 
   for (let num = 1; num <= N; num++) {
     const x: number[] = [];
     for (let t = 0; t < T; t++) {
-      x.push(draws[t].numbers.includes(num) ? 1 : 0);
+      x.push(drawSets[t].has(num) ? 1 : 0);
     }
     const mean = x.reduce((a, b) => a + b, 0) / T;
     let num1 = 0,
       denom = 0;
     for (let t = 0; t < T; t++) {
       denom += (x[t] - mean) ** 2;
-      if (t < T - 1) num1 += (x[t] - mean) * (x[t + 1] - mean);
+      if (t < T - 1 && segments[t] === segments[t + 1]) {
+        num1 += (x[t] - mean) * (x[t + 1] - mean);
+      }
     }
-    const lag1 = denom > 0 ? num1 / denom : 0;
-    const threshold = 2 / Math.sqrt(T);
+    correlations.push(denom > 0 ? num1 / denom : 0);
+  }
 
-    results.push({
-      number: num,
-      lag1Corr: lag1,
-      isSignificant: Math.abs(lag1) > threshold,
-    });
+  const pValues = correlations.map((r) =>
+    T > 1 ? 2 * (1 - normalCdf(Math.abs(r) * Math.sqrt(T))) : 1,
+  );
+  const adjusted = adjustPValues(pValues);
+  return correlations.map((lag1, idx) => ({
+    number: idx + 1,
+    lag1Corr: lag1,
+    pValue: pValues[idx],
+    adjusted: adjusted[idx],
+    isSignificant: adjusted[idx].holm < FAMILY_SIGNIFICANCE,
+  }));
+}
+
+// ─── Draw Feature Sequences ─────────────────────────────────────────
+export type DrawFeatureId = "odd" | "low" | "group";
+
+export interface RunsTest {
+  runs: number;
+  expectedRuns: number;
+  zScore: number; // negative = fewer runs (clumping), positive = more (alternation)
+  pValue: number; // two-sided normal approximation
+  adjusted: AdjustedPValues; // across every feature test
+  isSignificant: boolean; // Holm-adjusted
+}
+
+export interface SerialCorrelation {
+  lag: number;
+  correlation: number; // Pearson for counts; chance-corrected agreement for patterns
+  pValue: number; // two-sided
+  adjusted: AdjustedPValues; // across every feature test
+  isSignificant: boolean; // Holm-adjusted
+}
+
+export interface FeatureSequenceResult {
+  feature: DrawFeatureId;
+  label: string;
+  runs: RunsTest;
+  serial: SerialCorrelation[]; // lags 1..MAX_FEATURE_LAG
+}
+
+export const MAX_FEATURE_LAG = 5;
+
+type UnadjustedTest<T> = Omit<T, "adjusted" | "isSignificant">;
+
+const twoSidedNormal = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+/**
+ * Wald–Wolfowitz runs test for a sequence over any number of categories;
+ * with two categories it is the classic test.
+ */
+function runsTest(labels: Array<string | number>): UnadjustedTest<RunsTest> {
+  const n = labels.length;
+  const counts = new Map<string | number, number>();
+  let runs = n > 0 ? 1 : 0;
+  labels.forEach((label, t) => {
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+    if (t > 0 && label !== labels[t - 1]) runs++;
+  });
+  let s2 = 0;
+  let s3 = 0;
+  for (const c of counts.values()) {
+    s2 += c * c;
+    s3 += c * c * c;
   }
-  return results;
+  const expectedRuns = n > 0 ? (n * (n + 1) - s2) / n : 0;
+  const variance =
+    n > 1 ? (s2 * (s2 + n * (n + 1)) - 2 * n * s3 - n * n * n) / (n * n * (n - 1)) : 0;
+  const zScore = variance > 0 ? (runs - expectedRuns) / Math.sqrt(variance) : 0;
+  return { runs, expectedRuns, zScore, pValue: variance > 0 ? twoSidedNormal(zScore) : 1 };
+}
+
+// Pearson lag-k autocorrelation; r·√n is standard normal under independence.
+function numericSerialCorrelation(
+  values: number[],
+  lag: number,
+  segments: number[],
+): UnadjustedTest<SerialCorrelation> {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / (n || 1);
+  let cross = 0;
+  let denom = 0;
+  for (let t = 0; t < n; t++) {
+    denom += (values[t] - mean) ** 2;
+    if (t + lag < n && segments[t] === segments[t + lag]) {
+      cross += (values[t] - mean) * (values[t + lag] - mean);
+    }
+  }
+  const correlation = denom > 0 ? cross / denom : 0;
+  return {
+    lag,
+    correlation,
+    pValue: denom > 0 && n > lag ? twoSidedNormal(correlation * Math.sqrt(n)) : 1,
+  };
+}
+
+/**
+ * Lag-k agreement of a categorical sequence: how often draw t and draw t+k
+ * share a category, against Σp² expected by chance. Overlapping comparisons
+ * (t, t+k) and (t+k, t+2k) are correlated, which the variance accounts for.
+ */
+function categoricalSerialCorrelation(
+  labels: string[],
+  lag: number,
+  segments: number[],
+): UnadjustedTest<SerialCorrelation> {
+  const n = labels.length;
+  const counts = new Map<string, number>();
+  for (const label of labels) counts.set(label, (counts.get(label) ?? 0) + 1);
+  let s2 = 0;
+  let s3 = 0;
+  for (const c of counts.values()) {
+    s2 += (c / n) ** 2;
+    s3 += (c / n) ** 3;
+  }
+  let compared = 0;
+  let matches = 0;
+  for (let t = 0; t + lag < n; t++) {
+    if (segments[t] !== segments[t + lag]) continue;
+    compared++;
+    if (labels[t] === labels[t + lag]) matches++;
+  }
+  const variance =
+    compared * (s2 - s2 * s2) + 2 * Math.max(0, compared - lag) * (s3 - s2 * s2);
+  if (compared === 0 || s2 >= 1 || variance <= 0) return { lag, correlation: 0, pValue: 1 };
+  return {
+    lag,
+    correlation: (matches / compared - s2) / (1 - s2),
+    pValue: twoSidedNormal((matches - compared * s2) / Math.sqrt(variance)),
+  };
+}
+
+/**
+ * Runs and lag-k serial correlation tests on per-draw features: odd count,
+ * low-half count and group pattern. Counts enter the runs test as above or
+ * below their median, values equal to it joining the smaller side (dropping
+ * them could leave a single category); patterns enter as categories.
+ */
+export function featureSequenceAnalysis(
+  draws: DrawRecord[],
+  N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  holeIndexes?: number[],
+): FeatureSequenceResult[] {
+  const segments = holeSegments(draws.length, holeIndexes);
+  const balls = draws.map((d) => drawBalls(d, layout));
+  const oddCounts = balls.map((b) => getOddEvenSplit(b).odd);
+  const lowCounts = balls.map((b) => b.filter((n) => n <= N / 2).length);
+  const patterns = balls.map((b) => groupPatternOf(b, N));
+
+  const aboveMedian = (values: number[]) => {
+    const m = median(values);
+    const above = values.filter((v) => v > m).length;
+    const below = values.filter((v) => v < m).length;
+    const tie = above < below ? "+" : "-";
+    return values.map((v) => (v > m ? "+" : v < m ? "-" : tie));
+  };
+  const lags = Array.from({ length: MAX_FEATURE_LAG }, (_, idx) => idx + 1);
+  const raw: Array<{
+    feature: DrawFeatureId;
+    label: string;
+    runs: UnadjustedTest<RunsTest>;
+    serial: UnadjustedTest<SerialCorrelation>[];
+  }> = [
+    {
+      feature: "odd",
+      label: "Odd count",
+      runs: runsTest(aboveMedian(oddCounts)),
+      serial: lags.map((lag) => numericSerialCorrelation(oddCounts, lag, segments)),
+    },
+    {
+      feature: "low",
+      label: "Low/high split",
+      runs: runsTest(aboveMedian(lowCounts)),
+      serial: lags.map((lag) => numericSerialCorrelation(lowCounts, lag, segments)),
+    },
+    {
+      feature: "group",
+      label: "Group pattern",
+      runs: runsTest(patterns),
+      serial: lags.map((lag) => categoricalSerialCorrelation(patterns, lag, segments)),
+    },
+  ];
+
+  const adjusted = adjustPValues(
+    raw.flatMap((entry) => [entry.runs.pValue, ...entry.serial.map((s) => s.pValue)]),
+  );
+  let idx = 0;
+  const withAdjustment = <T extends { pValue: number }>(test: T) => {
+    const adj = adjusted[idx++];
+    return { ...test, adjusted: adj, isSignificant: adj.holm < FAMILY_SIGNIFICANCE };
+  };
+  return raw.map((entry) => ({
+    feature: entry.feature,
+    label: entry.label,
+    runs: withAdjustment(entry.runs),
+    serial: entry.serial.map(withAdjustment),
+  }));
+}
+
+export function featureTestsOf(result: FeatureSequenceResult): Array<RunsTest | SerialCorrelation> {
+  return [result.runs, ...result.serial];
 }
 
 // ─── Positional Hotness Analysis ────────────────────────────────────
+export interface PositionalCell {
+  number: number;
+  count: number; // draws with `number` in this sorted slot
+  expected: number; // count a fair draw would give: draws × order-statistic probability
+  percentage: number;
+  expectedPercentage: number;
+  lift: number; // count / expected; 1 = as a fair draw would place it
+  pValue: number; // two-sided exact binomial
+  adjusted: AdjustedPValues; // across every reachable (slot, number) cell
+  isSignificant: boolean; // Holm-adjusted
+}
+
 export interface PositionalFreq {
-  position: number; // 1-6
-  numberFreqs: Record<number, number>; // number -> percentage
+  position: number; // 1-based slot in the sorted main numbers
+  cells: PositionalCell[]; // every number that can fill this slot, ascending
+}
+
+/** P(the `slot`-th smallest of a fair K-of-N draw is `n`) = C(n−1, slot−1)·C(N−n, K−slot) / C(N, K). */
+export function orderStatisticProbability(n: number, slot: number, N: number, K: number): number {
+  return Math.exp(logChoose(n - 1, slot - 1) + logChoose(N - n, K - slot) - logChoose(N, K));
 }
 
+/**
+ * Counts each number at each sorted slot of the main draw and compares it
+ * with the exact order-statistic distribution. The bonus is left out: it is
+ * not part of the sorted K-of-N sample.
+ */
 export function positionalFrequencyAnalysis(
   draws: DrawRecord[],
-  _N: number,
+  N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): PositionalFreq[] {
-  const K_SIZE = 7; // Updated to 7 for all-inclusive training
-  const counts: Record<number, number>[] = Array.from(
-    { length: K_SIZE },
-    () => ({}),
-  );
-
+  const K = layout.pickCount;
+  const counts = Array.from({ length: K }, () => new Array<number>(N + 1).fill(0));
+  let T = 0;
   for (const d of draws) {
-    const sorted = [...d.numbers, d.bonus]
-      .filter((n) => n > 0)
-      .sort((a, b) => a - b);
-    for (let i = 0; i < sorted.length; i++) {
-      const n = sorted[i];
-      if (counts[i]) {
-        counts[i][n] = (counts[i][n] || 0) + 1;
-      }
-    }
+    if (d.numbers.length !== K) continue;
+    T++;
+    const sorted = [...d.numbers].sort((a, b) => a - b);
+    sorted.forEach((n, slot) => {
+      if (n >= 1 && n <= N) counts[slot][n]++;
+    });
   }
 
-  return counts.map((c, i) => {
-    const freqs: Record<number, number> = {};
-    // Ensure all numbers in pool N are represented if needed, or just map existing
-    Object.entries(c).forEach(([num, count]) => {
-      freqs[parseInt(num)] = (count / (draws.length || 1)) * 100;
-    });
-    return { position: i + 1, numberFreqs: freqs };
+  const raw = counts.map((slotCounts, idx) => {
+    const slot = idx + 1;
+    const cells: Array<Omit<PositionalCell, "adjusted" | "isSignificant">> = [];
+    // Slot j holds one of j..N−K+j.
+    for (let n = slot; n <= N - K + slot; n++) {
+      const p = orderStatisticProbability(n, slot, N, K);
+      const count = slotCounts[n];
+      const upper = binomialUpperTail(count, T, p);
+      const lower = 1 - binomialUpperTail(count + 1, T, p);
+      cells.push({
+        number: n,
+        count,
+        expected: T * p,
+        percentage: (count / (T || 1)) * 100,
+        expectedPercentage: p * 100,
+        lift: T > 0 && p > 0 ? count / (T * p) : 1,
+        pValue: T > 0 ? Math.min(1, 2 * Math.min(upper, lower)) : 1,
+      });
+    }
+    return cells;
   });
+
+  const adjusted = adjustPValues(raw.flatMap((cells) => cells.map((cell) => cell.pValue)));
+  let cellIdx = 0;
+  return raw.map((cells, idx) => ({
+    position: idx + 1,
+    cells: cells.map((cell) => {
+      const adj = adjusted[cellIdx++];
+      return { ...cell, adjusted: adj, isSignificant: adj.holm < FAMILY_SIGNIFICANCE };
+    }),
+  }));
 }
 
 // ─── Markov Transition Analysis (Multi-Lag) ──────────────────────────
 export interface TransitionMatch {
   number: number;
-  count: number;
-  probability: number;
+  count: number; // source draws followed by `number` `lag` draws later
+  probability: number; // count / source draws: P(number follows | fromNumber drawn)
+  expectedProbability: number; // share of all later draws holding `number`
+  lift: number; // probability / expectedProbability
+  smoothedProbability: number; // additive smoothing toward expectedProbability
+  pValue: number; // one-sided binomial, follows more often than its base rate
+  adjusted: AdjustedPValues; // across every lag × from × to cell
+  isSignificant: boolean;
 }
 
 export interface TransitionResult {
   lag: number;
   fromNumber: number;
-  toNumbers: TransitionMatch[];
+  toNumbers: TransitionMatch[]; // top by smoothed lift
+}
+
+export interface TransitionIndependence {
+  lag: number;
+  chiSquare: number; // rescaled for whole-draw sampling, see transitionIndependence
+  degreesOfFreedom: number;
+  pValue: number;
+  adjusted: AdjustedPValues; // across lags
+  isIndependent: boolean; // Holm-adjusted p at or above FAMILY_SIGNIFICANCE
+}
+
+// One pseudo-follow per target: (count + α) / (sources + α / base rate).
+const TRANSITION_SMOOTHING = 1;
+
+interface TransitionCounts {
+  matrix: Int32Array; // [from * width + to]
+  sources: Int32Array; // draws holding `from` with a later draw `lag` away
+  targets: Int32Array; // later draws holding `to`
+  pairs: number; // (draw, later draw) pairs counted
+  width: number;
+}
+
+function ballSetsWithWidth(
+  draws: DrawRecord[],
+  N: number,
+  layout: DrawLayout,
+): { ballSets: number[][]; width: number } {
+  const ballSets = draws.map((draw) => drawBalls(draw, layout));
+  let width = N + 1;
+  for (const balls of ballSets) {
+    for (const n of balls) width = Math.max(width, n + 1);
+  }
+  return { ballSets, width };
+}
+
+// Flat count matrices; the calibration runs this on many simulated histories.
+function transitionCounts(
+  ballSets: number[][],
+  width: number,
+  lag: number,
+  segments: number[],
+): TransitionCounts {
+  const matrix = new Int32Array(width * width);
+  const sources = new Int32Array(width);
+  const targets = new Int32Array(width);
+  let pairs = 0;
+  for (let t = 0; t < ballSets.length - lag; t++) {
+    if (segments[t] !== segments[t + lag]) continue;
+    const next = ballSets[t + lag];
+    pairs++;
+    for (const b of next) targets[b]++;
+    for (const a of ballSets[t]) {
+      sources[a]++;
+      for (const b of next) matrix[a * width + b]++;
+    }
+  }
+  return { matrix, sources, targets, pairs, width };
 }
 
 export function transitionAnalysis(
@@ -454,44 +1334,138 @@ export function transitionAnalysis(
   N: number,
   maxLag = 4,
   topN = 10,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  holeIndexes?: number[],
 ): TransitionResult[] {
-  const results: TransitionResult[] = [];
+  const segments = holeSegments(draws.length, holeIndexes);
+  const rows: Array<{
+    lag: number;
+    fromNumber: number;
+    transitions: Array<Omit<TransitionMatch, "adjusted" | "isSignificant">>;
+  }> = [];
+  const { ballSets, width } = ballSetsWithWidth(draws, N, layout);
 
   for (let lag = 1; lag <= maxLag; lag++) {
-    const matrix: Record<number, Record<number, number>> = {};
-
-    for (let t = 0; t < draws.length - lag; t++) {
-      const current = [...draws[t].numbers].filter((n) => n > 0);
-      const next = [...draws[t + lag].numbers].filter((n) => n > 0);
+    const { matrix, sources, targets, pairs } = transitionCounts(ballSets, width, lag, segments);
+    // Cells share few distinct (count, sources, targets) triples, so their tails are memoised.
+    const tails = new Map<number, number>();
+    const upperTail = (count: number, sourceCount: number, targetCount: number) => {
+      const key = (count * (pairs + 1) + sourceCount) * (pairs + 1) + targetCount;
+      let tail = tails.get(key);
+      if (tail === undefined) {
+        tail = binomialUpperTail(count, sourceCount, targetCount / pairs);
+        tails.set(key, tail);
+      }
+      return tail;
+    };
 
-      for (const a of current) {
-        if (!matrix[a]) matrix[a] = {};
-        for (const b of next) {
-          matrix[a][b] = (matrix[a][b] || 0) + 1;
-        }
+    for (let i = 1; i <= N; i++) {
+      if (sources[i] === 0) continue;
+      const transitions: Array<Omit<TransitionMatch, "adjusted" | "isSignificant">> = [];
+      for (let b = 0; b < width; b++) {
+        const count = matrix[i * width + b];
+        if (count === 0) continue;
+        const expectedProbability = targets[b] / pairs;
+        const probability = count / sources[i];
+        transitions.push({
+          number: b,
+          count,
+          probability,
+          expectedProbability,
+          lift: probability / expectedProbability,
+          smoothedProbability:
+            (count + TRANSITION_SMOOTHING) /
+            (sources[i] + TRANSITION_SMOOTHING / expectedProbability),
+          pValue: upperTail(count, sources[i], targets[b]),
+        });
       }
+      rows.push({ lag, fromNumber: i, transitions });
     }
+  }
 
-    for (let i = 1; i <= N; i++) {
-      if (!matrix[i]) continue;
-      const transitions = Object.entries(matrix[i]).map(([num, count]) => ({
-        number: parseInt(num),
-        count,
+  const adjusted = adjustPValues(
+    rows.flatMap((row) => row.transitions.map((t) => t.pValue)),
+    maxLag * N * N,
+  );
+  let offset = 0;
+  return rows.map(({ lag, fromNumber, transitions }) => {
+    const start = offset;
+    offset += transitions.length;
+    const smoothedLift = (idx: number) =>
+      transitions[idx].smoothedProbability / transitions[idx].expectedProbability;
+    const toNumbers = transitions
+      .map((_, idx) => idx)
+      .sort((a, b) => smoothedLift(b) - smoothedLift(a))
+      .slice(0, topN)
+      .map((idx) => ({
+        ...transitions[idx],
+        adjusted: adjusted[start + idx],
+        isSignificant: adjusted[start + idx].holm < FAMILY_SIGNIFICANCE,
       }));
-      const total = transitions.reduce((s, x) => s + x.count, 0);
-      const sorted = transitions
-        .map((t) => ({
-          number: t.number,
-          count: t.count,
-          probability: t.count / total,
-        }))
-        .sort((a, b) => b.probability - a.probability)
-        .slice(0, topN);
-
-      results.push({ lag, fromNumber: i, toNumbers: sorted });
+    return { lag, fromNumber, toNumbers };
+  });
+}
+
+/**
+ * Chi-square test of independence between a draw and the draw `lag` later,
+ * on the from × to count table. Each draw pair adds K × K cells at once, so
+ * the Pearson statistic runs ((N − K) / (N − 1))² times a χ² of the same df
+ * under independence (K balls of N per draw); it is divided back by that.
+ * Strong dependence at one lag also inflates the others.
+ */
+export function transitionIndependence(
+  draws: DrawRecord[],
+  N: number,
+  maxLag = 4,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+  holeIndexes?: number[],
+): TransitionIndependence[] {
+  const segments = holeSegments(draws.length, holeIndexes);
+  const { ballSets, width } = ballSetsWithWidth(draws, N, layout);
+  const K = layoutBallCount(layout);
+  const scale = N > 1 && K < N ? ((N - K) / (N - 1)) ** 2 : 1;
+
+  const raw = Array.from({ length: maxLag }, (_, idx) => {
+    const lag = idx + 1;
+    const { matrix, sources, targets } = transitionCounts(ballSets, width, lag, segments);
+    const rowTotals = new Float64Array(width);
+    const colTotals = new Float64Array(width);
+    let total = 0;
+    for (let a = 0; a < width; a++) {
+      for (let b = 0; b < width; b++) {
+        const count = matrix[a * width + b];
+        rowTotals[a] += count;
+        colTotals[b] += count;
+        total += count;
+      }
     }
-  }
-  return results;
+    let chiSquare = 0;
+    for (let a = 0; a < width; a++) {
+      if (sources[a] === 0) continue;
+      for (let b = 0; b < width; b++) {
+        if (targets[b] === 0) continue;
+        const expected = (rowTotals[a] * colTotals[b]) / total;
+        chiSquare += (matrix[a * width + b] - expected) ** 2 / expected;
+      }
+    }
+    const rows = sources.filter((count) => count > 0).length;
+    const cols = targets.filter((count) => count > 0).length;
+    const degreesOfFreedom = Math.max(0, (rows - 1) * (cols - 1));
+    const statistic = chiSquare / scale;
+    return {
+      lag,
+      chiSquare: statistic,
+      degreesOfFreedom,
+      pValue: degreesOfFreedom > 0 ? chiSquareSurvival(statistic, degreesOfFreedom) : 1,
+    };
+  });
+
+  const adjusted = adjustPValues(raw.map((entry) => entry.pValue));
+  return raw.map((entry, idx) => ({
+    ...entry,
+    adjusted: adjusted[idx],
+    isIndependent: adjusted[idx].holm >= FAMILY_SIGNIFICANCE,
+  }));
 }
 
 // ─── Entropy / Regime Diagnostics ───────────────────────────────────
@@ -529,11 +1503,16 @@ function normalizedShannonEntropy(counts: number[], N: number): number {
   return clampUnit(maxEntropy > 0 ? entropy / maxEntropy : 1);
 }
 
-function countNumbersInDrawWindow(draws: DrawRecord[], N: number): number[] {
+function countNumbersInDrawWindow(
+  draws: DrawRecord[],
+  N: number,
+  layout: DrawLayout,
+): number[] {
   const counts = new Array(N + 1).fill(0);
   for (const draw of draws) {
-    const all = [...draw.numbers, draw.bonus].filter((n) => n > 0 && n <= N);
-    for (const n of all) counts[n]++;
+    for (const n of drawBalls(draw, layout)) {
+      if (n <= N) counts[n]++;
+    }
   }
   return counts;
 }
@@ -541,6 +1520,7 @@ function countNumbersInDrawWindow(draws: DrawRecord[], N: number): number[] {
 export function entropyDiagnostics(
   draws: DrawRecord[],
   N: number,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): EntropyDiagnostics {
   if (draws.length === 0) {
     return {
@@ -560,19 +1540,19 @@ export function entropyDiagnostics(
   const rollingEntropy: number[] = [];
   if (draws.length <= windowSize) {
     rollingEntropy.push(
-      normalizedShannonEntropy(countNumbersInDrawWindow(draws, N), N),
+      normalizedShannonEntropy(countNumbersInDrawWindow(draws, N, layout), N),
     );
   } else {
     for (let start = 0; start + windowSize <= draws.length; start += stride) {
       const segment = draws.slice(start, start + windowSize);
       rollingEntropy.push(
-        normalizedShannonEntropy(countNumbersInDrawWindow(segment, N), N),
+        normalizedShannonEntropy(countNumbersInDrawWindow(segment, N, layout), N),
       );
     }
     const tailStart = Math.max(0, draws.length - windowSize);
     const tail = draws.slice(tailStart);
     const tailEntropy = normalizedShannonEntropy(
-      countNumbersInDrawWindow(tail, N),
+      countNumbersInDrawWindow(tail, N, layout),
       N,
     );
     if (
@@ -584,7 +1564,7 @@ export function entropyDiagnostics(
   }
 
   const recentWindow = draws.slice(-windowSize);
-  const recentCounts = countNumbersInDrawWindow(recentWindow, N);
+  const recentCounts = countNumbersInDrawWindow(recentWindow, N, layout);
   const normalizedEntropy = normalizedShannonEntropy(recentCounts, N);
 
   const totalRecent = recentCounts.reduce((sum, count) => sum + count, 0);
@@ -632,94 +1612,496 @@ export function entropyDiagnostics(
   };
 }
 
+// ─── Separate Bonus Diagnostics ─────────────────────────────────────
+// Under the "separate" policy the bonus is analysed as a single-ball draw over
+// its own drum (the PowerBall pool, or the main pool for shared-drum games)
+// instead of joining the main numbers.
+export interface BonusDiagnostics {
+  poolSize: number;
+  drawCount: number;
+  frequency: FrequencyResult[];
+  hotCold: HotColdResult[];
+  gaps: GapResult[];
+}
+
+/** Layout for draws produced by toBonusDraws: one ball, no bonus. */
+export const BONUS_ONLY_LAYOUT: DrawLayout = {
+  pickCount: 1,
+  bonusPolicy: "exclude",
+};
+
+/** Re-expresses each draw's bonus as a one-number draw (bonus-less draws are dropped). */
+export function toBonusDraws(draws: DrawRecord[]): DrawRecord[] {
+  return draws
+    .filter((draw) => draw.bonus > 0)
+    .map((draw) => ({ date: draw.date, numbers: [draw.bonus], bonus: 0 }));
+}
+
+export function bonusPoolAnalysis(
+  draws: DrawRecord[],
+  bonusPool: number,
+): BonusDiagnostics {
+  const bonusDraws = toBonusDraws(draws);
+  return {
+    poolSize: bonusPool,
+    drawCount: bonusDraws.length,
+    frequency: frequencyAnalysis(bonusDraws, bonusPool, BONUS_ONLY_LAYOUT),
+    hotCold: hotColdAnalysis(bonusDraws, bonusPool, 20, BONUS_ONLY_LAYOUT),
+    gaps: gapAnalysis(bonusDraws, bonusPool, BONUS_ONLY_LAYOUT),
+  };
+}
+
+// ─── Bias Rules & Null Calibration ──────────────────────────────────
+export type BiasRuleId =
+  | "frequency"
+  | "sequential"
+  | "pairs"
+  | "transitions"
+  | "overdue"
+  | "gap-law"
+  | "feature-sequence"
+  | "cold-cycle"
+  | "entropy";
+
+/** The analyses every bias rule reads. */
+interface BiasStatistics {
+  hotCold: HotColdResult[];
+  pairMatrix: PairMatrix;
+  gaps: GapResult[];
+  chiSquare: ChiSquareResult;
+  autocorrelation: AutocorrResult[];
+  featureSequences: FeatureSequenceResult[];
+  transitions: TransitionResult[];
+  entropy: EntropyDiagnostics;
+}
+
+interface BiasRule {
+  id: BiasRuleId;
+  higherIsBiased: boolean; // direction of `value` that points away from a fair draw
+  value: (stats: BiasStatistics) => number;
+  reason: (stats: BiasStatistics, N: number) => string | null; // null = not triggered
+}
+
+const countSignificant = (results: Array<{ isSignificant: boolean }>) =>
+  results.filter((result) => result.isSignificant).length;
+
+// Every cell of the matrix, not just the top pairs on show.
+const countPairAffinities = (matrix: PairMatrix) =>
+  matrix.adjusted.filter((adjusted) => adjusted.holm < FAMILY_SIGNIFICANCE).length;
+
+const countGapLawMisfits = (gaps: GapResult[]) =>
+  gaps.filter((g) => g.geometricFit && g.geometricFit.adjusted.holm < FAMILY_SIGNIFICANCE)
+    .length;
+
+const BIAS_RULES: BiasRule[] = [
+  {
+    id: "frequency",
+    higherIsBiased: true,
+    value: (stats) => stats.chiSquare.chiSquare,
+    reason: (stats) => (stats.chiSquare.isUniform ? null : "Frequency imbalance (Chi-Square)"),
+  },
+  {
+    id: "sequential",
+    higherIsBiased: true,
+    value: (stats) => countSignificant(stats.autocorrelation),
+    reason: (stats) => {
+      const count = countSignificant(stats.autocorrelation);
+      return count > 0 ? `Sequential dependency (${count} lags, Holm-adjusted)` : null;
+    },
+  },
+  {
+    id: "pairs",
+    higherIsBiased: true,
+    value: (stats) => countPairAffinities(stats.pairMatrix),
+    reason: (stats) => {
+      const count = countPairAffinities(stats.pairMatrix);
+      return count > 0 ? `Pair affinity (${count} pairs, Holm-adjusted)` : null;
+    },
+  },
+  {
+    id: "transitions",
+    higherIsBiased: true,
+    value: (stats) => countSignificant(stats.transitions.flatMap((t) => t.toNumbers)),
+    reason: (stats) => {
+      const count = countSignificant(stats.transitions.flatMap((t) => t.toNumbers));
+      return count > 0 ? `Lagged transitions (${count} links, Holm-adjusted)` : null;
+    },
+  },
+  {
+    id: "overdue",
+    higherIsBiased: true,
+    value: (stats) => stats.gaps.filter((g) => g.isOverdue).length,
+    reason: (stats) => {
+      const count = stats.gaps.filter((g) => g.isOverdue).length;
+      return count > 0 ? `Improbably long current gaps (${count} numbers, Holm-adjusted)` : null;
+    },
+  },
+  {
+    id: "gap-law",
+    higherIsBiased: true,
+    value: (stats) => countGapLawMisfits(stats.gaps),
+    reason: (stats) => {
+      const count = countGapLawMisfits(stats.gaps);
+      return count > 0
+        ? `Gap lengths depart from the geometric law (${count} numbers, Holm-adjusted)`
+        : null;
+    },
+  },
+  {
+    id: "feature-sequence",
+    higherIsBiased: true,
+    value: (stats) => countSignificant(stats.featureSequences.flatMap(featureTestsOf)),
+    reason: (stats) => {
+      const count = countSignificant(stats.featureSequences.flatMap(featureTestsOf));
+      return count > 0
+        ? `Non-random odd/even, low/high or group sequence (${count} tests, Holm-adjusted)`
+        : null;
+    },
+  },
+  {
+    id: "cold-cycle",
+    higherIsBiased: false,
+    value: (stats) => stats.hotCold.filter((h) => h.status === "hot").length,
+    reason: (stats) =>
+      stats.hotCold.filter((h) => h.status === "hot").length < 3
+        ? "Weak recent trend (Cold cycle)"
+        : null,
+  },
+  {
+    id: "entropy",
+    higherIsBiased: false,
+    value: (stats) => stats.entropy.normalizedEntropy,
+    reason: (stats) =>
+      stats.entropy.regime === "structured"
+        ? "Entropy contraction (structured regime)"
+        : null,
+  },
+];
+
+function collectBiasStatistics(
+  currentDraws: DrawRecord[],
+  relationshipDraws: DrawRecord[],
+  N: number,
+  layout: DrawLayout,
+  options: { currentHoles?: number[]; relationshipHoles?: number[]; uniformityTrials?: number } = {},
+): BiasStatistics {
+  return {
+    hotCold: hotColdAnalysis(currentDraws, N, 20, layout),
+    pairMatrix: pairMatrix(currentDraws, N, layout),
+    gaps: gapAnalysis(currentDraws, N, layout, options.currentHoles),
+    chiSquare: chiSquareTest(currentDraws, N, layout, options.uniformityTrials ?? 0),
+    autocorrelation: autocorrelationAnalysis(currentDraws, N, layout, options.currentHoles),
+    featureSequences: featureSequenceAnalysis(currentDraws, N, layout, options.currentHoles),
+    transitions: transitionAnalysis(
+      relationshipDraws,
+      N,
+      4,
+      10,
+      layout,
+      options.relationshipHoles,
+    ),
+    entropy: entropyDiagnostics(currentDraws, N, layout),
+  };
+}
+
+export interface BiasRuleCalibration {
+  id: BiasRuleId;
+  reason: string | null; // the bias reason raised on the observed draws, if any
+  observed: number; // the rule's statistic on the observed draws
+  nullMedian: number; // the same statistic's median over fair histories
+  fairTriggerRate: number; // share of fair histories that raise the reason
+  nullPValue: number; // share of fair histories at least as extreme as observed
+}
+
+export interface BiasCalibration {
+  trials: number; // simulated fair histories
+  drawCount: number; // current-era draws in each simulated history
+  anyTriggerRate: number; // share of fair histories raising at least one reason
+  rules: BiasRuleCalibration[]; // in bias rule order
+}
+
+export const DEFAULT_CALIBRATION_TRIALS = 100;
+
+interface BiasNull {
+  values: number[][]; // [rule][trial]
+  triggered: boolean[][]; // [rule][trial]
+  anyTriggered: number;
+}
+
+const biasNullCache = new Map<string, BiasNull>();
+const BIAS_NULL_CACHE_LIMIT = 8;
+
+// Fair histories depend only on their shape, so each shape is simulated once.
+function simulateBiasNull(
+  currentCount: number,
+  relationshipCount: number,
+  N: number,
+  layout: DrawLayout,
+  trials: number,
+): BiasNull {
+  const key = [currentCount, relationshipCount, N, layout.pickCount, layout.bonusPolicy, trials].join(":");
+  const cached = biasNullCache.get(key);
+  if (cached) return cached;
+
+  const rng = createSeededRandom(hashStringToSeed(`bias-null:${key}`));
+  const scratch: number[] = [];
+  const withBonus = layout.bonusPolicy === "include";
+  const result: BiasNull = {
+    values: BIAS_RULES.map(() => []),
+    triggered: BIAS_RULES.map(() => []),
+    anyTriggered: 0,
+  };
+
+  for (let trial = 0; trial < trials; trial++) {
+    const history: DrawRecord[] = [];
+    for (let t = 0; t < relationshipCount; t++) {
+      const balls = sampleDistinctBalls(N, layout.pickCount + (withBonus ? 1 : 0), rng, scratch);
+      history.push({
+        date: "",
+        numbers: balls.slice(0, layout.pickCount).sort((a, b) => a - b),
+        bonus: withBonus ? balls[layout.pickCount] : 0,
+      });
+    }
+    const stats = collectBiasStatistics(history.slice(-currentCount), history, N, layout);
+    let any = false;
+    BIAS_RULES.forEach((rule, idx) => {
+      const triggered = rule.reason(stats, N) !== null;
+      result.values[idx].push(rule.value(stats));
+      result.triggered[idx].push(triggered);
+      any = any || triggered;
+    });
+    if (any) result.anyTriggered++;
+  }
+
+  biasNullCache.set(key, result);
+  if (biasNullCache.size > BIAS_NULL_CACHE_LIMIT) {
+    biasNullCache.delete(biasNullCache.keys().next().value as string);
+  }
+  return result;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Simulates `trials` fair histories shaped like the observed one (same pool,
+ * era length and relationship span) and reports, per bias rule, how often a
+ * fair lottery trips it and how unusual the observed statistic is.
+ */
+function calibrateBiasRules(
+  observed: BiasStatistics,
+  currentCount: number,
+  relationshipCount: number,
+  N: number,
+  layout: DrawLayout,
+  trials: number,
+): BiasCalibration {
+  const nullDist = simulateBiasNull(currentCount, relationshipCount, N, layout, trials);
+  return {
+    trials,
+    drawCount: currentCount,
+    anyTriggerRate: nullDist.anyTriggered / trials,
+    rules: BIAS_RULES.map((rule, idx) => {
+      const value = rule.value(observed);
+      const values = nullDist.values[idx];
+      const asExtreme = values.filter((v) =>
+        rule.higherIsBiased ? v >= value - 1e-9 : v <= value + 1e-9,
+      ).length;
+      return {
+        id: rule.id,
+        reason: rule.reason(observed, N),
+        observed: value,
+        nullMedian: median(values),
+        fairTriggerRate: nullDist.triggered[idx].filter(Boolean).length / trials,
+        nullPValue: (asExtreme + 1) / (trials + 1),
+      };
+    }),
+  };
+}
+
 // ─── Full Diagnostics Bundle ────────────────────────────────────────
+export interface DiagnosticsOptions {
+  game?: GameDefinition;
+  bonusPolicy?: BonusPolicy; // defaults to the game's natural treatment
+  declaredEras?: GameEra[]; // dated pool changes; override era detection when set
+  excludeLagAcrossHoles?: boolean; // lag-based analyses skip pairs spanning missing draws
+  uniformityTrials?: number; // Monte Carlo χ² simulations; 0 or absent skips them
+  calibrationTrials?: number; // fair histories simulated per bias rule; 0 or absent skips them
+}
+
 export interface FullDiagnostics {
+  game: GameDefinition;
+  bonusPolicy: BonusPolicy; // the treatment that produced these numbers
+  declaredEras: GameEra[]; // declared pool changes applied (empty = detected eras)
+  pickCount: number;
   totalDraws: number;
   poolSize: number;
   eraDrawCount: number;
   frequency: FrequencyResult[];
   hotCold: HotColdResult[];
   topPairs: PairResult[];
+  pairMatrix: PairMatrix; // current era, every pair
   groupPatterns: GroupPatternResult[];
+  setShape: SetShapeResult[]; // current era main numbers vs the exact fair distributions
   gaps: GapResult[];
   chiSquare: ChiSquareResult;
   autocorrelation: AutocorrResult[];
+  featureSequences: FeatureSequenceResult[]; // current era
   deltas: DeltaResult[];
   topTriples: TripleResult[];
   topQuadruples: QuadrupleResult[];
   topQuintets: QuintetResult[];
   positionalFreq: PositionalFreq[];
   transitions: TransitionResult[];
+  transitionIndependence: TransitionIndependence[]; // per lag, same draws as transitions
   entropy: EntropyDiagnostics;
   biasDetected: boolean;
   biasReasons: string[];
+  biasCalibration: BiasCalibration | null; // null when not simulated
   eras: FormatEra[];
+  bonus: BonusDiagnostics | null; // set only under the "separate" bonus policy
+  drawCalendar: DrawCalendarReport; // holes in the full history
+  excludeLagAcrossHoles: boolean;
+  prizes: PrizeAnalysis | null; // current era; null when no draw carries prize data
 }
 
-export function runFullDiagnostics(draws: DrawRecord[]): FullDiagnostics {
-  const { currentN, currentDraws, eras } = detectFormat(draws);
+/** Options that reproduce a diagnostics bundle on different draws. */
+export function diagnosticsOptionsOf(diag: FullDiagnostics): DiagnosticsOptions {
+  return {
+    game: diag.game,
+    bonusPolicy: diag.bonusPolicy,
+    declaredEras: diag.declaredEras,
+    excludeLagAcrossHoles: diag.excludeLagAcrossHoles,
+  };
+}
+
+export function runFullDiagnostics(
+  draws: DrawRecord[],
+  options: DiagnosticsOptions = {},
+): FullDiagnostics {
+  const game = options.game ?? DEFAULT_GAME;
+  const layout = layoutForGame(game, options.bonusPolicy);
+  const { pickCount, bonusPolicy } = layout;
+  const { currentN, currentDraws, eras } = detectFormat(
+    draws,
+    game,
+    options.declaredEras,
+  );
   const N = currentN;
 
   // Relationship analysis should stay within the same detected format pool.
-  // Mixing 6/49, 6/52, and 6/58 eras can dilute affinity/transition signals.
-  const samePoolDraws = draws.filter((draw) => inferDrawPoolSize(draw) === N);
+  // Mixing pool eras (e.g. 6/49, 6/52, 6/58) can dilute affinity/transition signals.
+  const samePoolDraws = eras
+    .filter((era) => era.poolSize === N)
+    .flatMap((era) => draws.slice(era.startIndex, era.endIndex + 1));
   const relationshipDraws =
     samePoolDraws.length > 0 ? samePoolDraws : currentDraws;
 
-  // BIAS DIAGNOSTICS: Stay era-pure for frequency/uniformity
-  const freq = frequencyAnalysis(currentDraws, N);
-  const hc = hotColdAnalysis(currentDraws, N, 20);
-  const pairs = pairAnalysis(currentDraws, N, 30);
-  const groups = groupAnalysis(currentDraws, N);
-  const gaps = gapAnalysis(currentDraws, N);
-  const chi = chiSquareTest(currentDraws, N);
-  const ac = autocorrelationAnalysis(currentDraws, N);
+  const drawCalendar = findDrawHoles(draws, game);
+  const excludeLagAcrossHoles = options.excludeLagAcrossHoles ?? false;
+  const holeIndexesOf = (subset: DrawRecord[]) =>
+    excludeLagAcrossHoles
+      ? findDrawHoles(subset, game).holes.map((hole) => hole.index)
+      : undefined;
+  const currentHoles = holeIndexesOf(currentDraws);
+  const relationshipHoles = holeIndexesOf(relationshipDraws);
+
+  // BIAS DIAGNOSTICS: Stay era-pure for frequency/uniformity (transitions use the full pool span)
+  const freq = frequencyAnalysis(currentDraws, N, layout);
+  const groups = groupAnalysis(currentDraws, N, layout);
+  const biasStats = collectBiasStatistics(currentDraws, relationshipDraws, N, layout, {
+    currentHoles,
+    relationshipHoles,
+    uniformityTrials: options.uniformityTrials,
+  });
+  const {
+    hotCold: hc,
+    pairMatrix: pairs,
+    gaps,
+    chiSquare: chi,
+    autocorrelation: ac,
+    featureSequences,
+    transitions,
+    entropy,
+  } = biasStats;
+  const topPairs = topPairsOf(pairs, 30);
 
   // RELATIONSHIP ANALYSIS: Use full uploaded history
-  const deltas = deltaAnalysis(relationshipDraws);
-  const triples = tripleAnalysis(relationshipDraws, 50);
-  const quadruples = quadrupleAnalysis(relationshipDraws, 20);
-  const quintets = quintetAnalysis(relationshipDraws, 10);
-  const positional = positionalFrequencyAnalysis(relationshipDraws, N);
-  const transitions = transitionAnalysis(relationshipDraws, N);
-  const entropy = entropyDiagnostics(currentDraws, N);
-
-  const sigAutocorr = ac.filter((a) => a.isSignificant);
-  const biasReasons: string[] = [];
-
-  if (!chi.isUniform) biasReasons.push("Frequency imbalance (Chi-Square)");
-  if (sigAutocorr.length > 0)
-    biasReasons.push(`Sequential dependency (${sigAutocorr.length} lags)`);
-  if (gaps.filter((g) => g.isOverdue).length > N * 0.2)
-    biasReasons.push("High number of overdue values");
-  if (hc.filter((h) => h.status === "hot").length < 3)
-    biasReasons.push("Weak recent trend (Cold cycle)");
-  if (entropy.regime === "structured")
-    biasReasons.push("Entropy contraction (structured regime)");
+  const deltas = deltaAnalysis(relationshipDraws, layout);
+  const triples = tripleAnalysis(relationshipDraws, 50, layout);
+  const quadruples = quadrupleAnalysis(relationshipDraws, 20, layout);
+  const quintets = quintetAnalysis(relationshipDraws, 10, layout);
+  const positional = positionalFrequencyAnalysis(relationshipDraws, N, layout);
+
+  const biasReasons = BIAS_RULES.map((rule) => rule.reason(biasStats, N)).filter(
+    (reason): reason is string => reason !== null,
+  );
+  const calibrationTrials = options.calibrationTrials ?? 0;
+  const biasCalibration =
+    calibrationTrials > 0 && currentDraws.length > 0
+      ? calibrateBiasRules(
+          biasStats,
+          currentDraws.length,
+          relationshipDraws.length,
+          N,
+          layout,
+          calibrationTrials,
+        )
+      : null;
 
   const biasDetected = biasReasons.length > 0;
+  // A shared-drum bonus analysed separately is still drawn from the main pool.
+  const bonusDrum =
+    game.bonusSemantics === "separate-pool" ? game.bonusPool : N;
+  const bonus =
+    bonusPolicy === "separate" && bonusDrum
+      ? bonusPoolAnalysis(currentDraws, bonusDrum)
+      : null;
 
   return {
+    game,
+    bonusPolicy,
+    declaredEras: options.declaredEras ?? [],
+    pickCount,
     totalDraws: draws.length,
     poolSize: N,
     eraDrawCount: currentDraws.length,
     frequency: freq,
     hotCold: hc,
-    topPairs: pairs,
+    topPairs,
+    pairMatrix: pairs,
     groupPatterns: groups,
+    setShape: setShapeAnalysis(currentDraws, N, pickCount),
     gaps,
     chiSquare: chi,
     autocorrelation: ac,
+    featureSequences,
     deltas,
     topTriples: triples,
     topQuadruples: quadruples,
     topQuintets: quintets,
     positionalFreq: positional,
     transitions,
+    transitionIndependence: transitionIndependence(
+      relationshipDraws,
+      N,
+      4,
+      layout,
+      relationshipHoles,
+    ),
     entropy,
     biasDetected,
     biasReasons,
+    biasCalibration,
     eras,
+    bonus,
+    drawCalendar,
+    excludeLagAcrossHoles,
+    prizes: prizeAnalysis(currentDraws, game, N),
   };
 }
 
@@ -755,14 +2137,15 @@ export interface DeltaResult {
   percentage: number;
 }
 
-export function deltaAnalysis(draws: DrawRecord[]): DeltaResult[] {
+export function deltaAnalysis(
+  draws: DrawRecord[],
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+): DeltaResult[] {
   const deltaCounts: Record<number, number> = {};
   let totalDeltas = 0;
 
   for (const draw of draws) {
-    const sorted = [...draw.numbers, draw.bonus]
-      .filter((n) => n > 0)
-      .sort((a, b) => a - b);
+    const sorted = drawBalls(draw, layout).sort((a, b) => a - b);
     for (let i = 0; i < sorted.length - 1; i++) {
       const d = sorted[i + 1] - sorted[i];
       deltaCounts[d] = (deltaCounts[d] || 0) + 1;
@@ -787,12 +2170,14 @@ export interface TripleResult {
   count: number;
 }
 
-export function tripleAnalysis(draws: DrawRecord[], topN = 50): TripleResult[] {
+export function tripleAnalysis(
+  draws: DrawRecord[],
+  topN = 50,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
+): TripleResult[] {
   const trips: Record<string, number> = {};
   for (const draw of draws) {
-    const allNums = [...draw.numbers, draw.bonus]
-      .filter((n) => n > 0)
-      .sort((a, b) => a - b);
+    const allNums = drawBalls(draw, layout).sort((a, b) => a - b);
     for (let i = 0; i < allNums.length - 2; i++) {
       for (let j = i + 1; j < allNums.length - 1; j++) {
         for (let l = j + 1; l < allNums.length; l++) {
@@ -824,12 +2209,11 @@ export interface QuadrupleResult {
 export function quadrupleAnalysis(
   draws: DrawRecord[],
   topN = 20,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): QuadrupleResult[] {
   const quads: Record<string, number> = {};
   for (const draw of draws) {
-    const allNums = [...draw.numbers, draw.bonus]
-      .filter((n) => n > 0)
-      .sort((a, b) => a - b);
+    const allNums = drawBalls(draw, layout).sort((a, b) => a - b);
     for (let i = 0; i < allNums.length - 3; i++) {
       for (let j = i + 1; j < allNums.length - 2; j++) {
         for (let k = j + 1; k < allNums.length - 1; k++) {
@@ -865,12 +2249,11 @@ export interface QuintetResult {
 export function quintetAnalysis(
   draws: DrawRecord[],
   topN = 10,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): QuintetResult[] {
   const quints: Record<string, number> = {};
   for (const draw of draws) {
-    const allNums = [...draw.numbers, draw.bonus]
-      .filter((n) => n > 0)
-      .sort((a, b) => a - b);
+    const allNums = drawBalls(draw, layout).sort((a, b) => a - b);
     for (let i = 0; i < allNums.length - 4; i++) {
       for (let j = i + 1; j < allNums.length - 3; j++) {
         for (let k = j + 1; k < allNums.length - 2; k++) {
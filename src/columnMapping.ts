@@ -0,0 +1,108 @@
+/**
+ * Column Mapping
+ * Explicit column roles for imported sheets, so provider-specific headers
+ * ("Ball 1 (Bonus)", "Draw Machine", ...) don't depend on header heuristics.
+ * Mappings are saved as presets keyed by the file's header signature.
+ */
+
+export type ColumnRole =
+  | "date"
+  | "ball"
+  | "bonus"
+  | "draw-number"
+  | "jackpot"
+  | "rollover"
+  | "division-winners"
+  | "division-payout"
+  | "ignore";
+
+export interface ColumnAssignment {
+  role: ColumnRole;
+  ball?: number; // 1-based main-ball slot when role is "ball"
+  division?: number; // 1-based prize division for the "division-*" roles
+}
+
+// Header -> assignment for every column of the file.
+export type ColumnMapping = Record<string, ColumnAssignment>;
+
+export interface ColumnMappingPreset {
+  signature: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+/** Order-sensitive, case-insensitive fingerprint of a file's header row. */
+export function headerSignature(headers: string[]): string {
+  return headers.map((h) => h.trim().toLowerCase()).join("|");
+}
+
+/** Encodes an assignment as a single select value ("ball:3", "division-payout:2", "date", ...). */
+export function encodeAssignment(assignment: ColumnAssignment): string {
+  if (assignment.role === "ball") return `ball:${assignment.ball ?? 1}`;
+  if (assignment.role === "division-winners" || assignment.role === "division-payout") {
+    return `${assignment.role}:${assignment.division ?? 1}`;
+  }
+  return assignment.role;
+}
+
+export function decodeAssignment(value: string): ColumnAssignment {
+  const ball = value.match(/^ball:(\d+)$/);
+  if (ball) return { role: "ball", ball: parseInt(ball[1], 10) };
+  const division = value.match(/^(division-winners|division-payout):(\d+)$/);
+  if (division) {
+    return {
+      role: division[1] as "division-winners" | "division-payout",
+      division: parseInt(division[2], 10),
+    };
+  }
+  const roles: ColumnRole[] = ["date", "bonus", "draw-number", "jackpot", "rollover"];
+  const role = roles.find((r) => r === value);
+  return { role: role ?? "ignore" };
+}
+
+/** Headers mapped to a role, in column order. */
+export function headersWithRole(
+  mapping: ColumnMapping,
+  role: ColumnRole,
+): string[] {
+  return Object.keys(mapping).filter((header) => mapping[header].role === role);
+}
+
+/** Main-ball headers ordered by their assigned slot. */
+export function mappedBallHeaders(mapping: ColumnMapping): string[] {
+  return headersWithRole(mapping, "ball").sort(
+    (a, b) => (mapping[a].ball ?? 0) - (mapping[b].ball ?? 0),
+  );
+}
+
+/** Problems that stop a mapping from describing one draw per row. */
+export function validateColumnMapping(
+  mapping: ColumnMapping,
+  pickCount: number,
+): string[] {
+  const errors: string[] = [];
+  const dateHeaders = headersWithRole(mapping, "date");
+  if (dateHeaders.length !== 1) {
+    errors.push(
+      dateHeaders.length === 0
+        ? "Assign one column as the draw date."
+        : `Only one date column is allowed (${dateHeaders.join(", ")}).`,
+    );
+  }
+  if (headersWithRole(mapping, "bonus").length > 1) {
+    errors.push("Only one bonus column is allowed.");
+  }
+
+  for (let ball = 1; ball <= pickCount; ball++) {
+    const matches = Object.keys(mapping).filter(
+      (header) =>
+        mapping[header].role === "ball" && mapping[header].ball === ball,
+    );
+    if (matches.length === 0) errors.push(`Ball ${ball} is not assigned.`);
+    if (matches.length > 1) {
+      errors.push(`Ball ${ball} is assigned to ${matches.join(", ")}.`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,176 @@
+/**
+ * Dataset Store
+ * IndexedDB persistence for named datasets. Each dataset keeps its raw rows,
+ * column mapping, model settings, learning state and past predictions, so
+ * switching datasets restores everything the app knew about it.
+ *
+ * Rows live in their own object store: listing, renaming or saving settings
+ * never reads or rewrites a large history.
+ */
+
+import type { ColumnMapping } from "./columnMapping";
+import type { DateOrder } from "./dateFormat";
+import { createEditHistory, type EditHistory } from "./editHistory";
+import type { ModelSettings, WeightProfile } from "./predictor";
+
+export type DatasetRow = Record<string, string>;
+
+export interface PersistedLearningState {
+  version: 1;
+  updatedAt: string;
+  drawCount: number;
+  poolSize: number;
+  gameId?: string; // absent on states saved before game selection existed
+  dataSignature: string;
+  score: number;
+  bestProfile: WeightProfile;
+  profileOverlaps: Record<string, number>;
+  staleSince?: string; // first manual change to the rows after this state was trained
+}
+
+export interface StoredPrediction {
+  createdAt: string;
+  drawCount: number; // draws the model was trained on
+  lastDrawDate: string | null;
+  sets: Array<{ numbers: number[]; bonus?: number; method: string }>;
+}
+
+export interface DatasetRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  rowCount: number;
+  columnMapping: ColumnMapping | null;
+  dateOrder: DateOrder | null; // confirmed by the user; null = inferred
+  settings: ModelSettings | null;
+  learningState: PersistedLearningState | null;
+  predictions: StoredPrediction[]; // oldest first
+  editHistory?: EditHistory<DatasetRow>; // absent on datasets saved before editing existed
+}
+
+const DB_NAME = "lotto_viewer";
+const DB_VERSION = 1;
+const DATASET_STORE = "datasets";
+const ROW_STORE = "datasetRows";
+
+export const MAX_STORED_PREDICTIONS = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Dataset transaction aborted."));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DATASET_STORE)) {
+          db.createObjectStore(DATASET_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(ROW_STORE)) {
+          db.createObjectStore(ROW_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function createDatasetRecord(name: string): DatasetRecord {
+  const now = new Date().toISOString();
+  return {
+    id: `ds-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    rowCount: 0,
+    columnMapping: null,
+    dateOrder: null,
+    settings: null,
+    learningState: null,
+    predictions: [],
+    editHistory: createEditHistory(),
+  };
+}
+
+/** Every dataset, least recently created first; rows are not loaded. */
+export async function listDatasets(): Promise<DatasetRecord[]> {
+  const db = await openDatabase();
+  const records = await requestResult<DatasetRecord[]>(
+    db.transaction(DATASET_STORE).objectStore(DATASET_STORE).getAll(),
+  );
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function loadDatasetRows(id: string): Promise<DatasetRow[]> {
+  const db = await openDatabase();
+  const entry = await requestResult<{ id: string; rows: DatasetRow[] } | undefined>(
+    db.transaction(ROW_STORE).objectStore(ROW_STORE).get(id),
+  );
+  return entry?.rows ?? [];
+}
+
+/** Writes the record, and its rows when given; both land or neither does. */
+export async function saveDataset(
+  record: DatasetRecord,
+  rows?: DatasetRow[],
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([DATASET_STORE, ROW_STORE], "readwrite");
+  const stored: DatasetRecord = {
+    ...record,
+    updatedAt: new Date().toISOString(),
+    rowCount: rows ? rows.length : record.rowCount,
+  };
+  tx.objectStore(DATASET_STORE).put(stored);
+  if (rows) tx.objectStore(ROW_STORE).put({ id: record.id, rows });
+  await transactionDone(tx);
+  record.updatedAt = stored.updatedAt;
+  record.rowCount = stored.rowCount;
+}
+
+export async function deleteDataset(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([DATASET_STORE, ROW_STORE], "readwrite");
+  tx.objectStore(DATASET_STORE).delete(id);
+  tx.objectStore(ROW_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function duplicateDataset(
+  source: DatasetRecord,
+  name: string,
+): Promise<DatasetRecord> {
+  const rows = await loadDatasetRows(source.id);
+  const copy: DatasetRecord = {
+    ...createDatasetRecord(name),
+    columnMapping: structuredClone(source.columnMapping),
+    dateOrder: source.dateOrder,
+    settings: structuredClone(source.settings),
+    learningState: structuredClone(source.learningState),
+    predictions: structuredClone(source.predictions),
+    editHistory: structuredClone(source.editHistory ?? createEditHistory()),
+  };
+  await saveDataset(copy, rows);
+  return copy;
+}
@@ -0,0 +1,175 @@
+/**
+ * Date Formats
+ * Parses the date shapes lottery exports use and infers one day/month order
+ * per column, so a column never mixes DD/MM and MM/DD readings.
+ */
+
+// Order of the parts in a numeric date whose year is not written first.
+export type DateOrder = "dmy" | "mdy" | "ymd";
+
+// Preference order when several readings fit: regional exports are day-first.
+export const DATE_ORDERS: DateOrder[] = ["dmy", "mdy", "ymd"];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: "DD/MM/YYYY",
+  mdy: "MM/DD/YYYY",
+  ymd: "YY/MM/DD",
+};
+
+export interface DateFormatInference {
+  order: DateOrder; // order applied to order-dependent values
+  candidates: DateOrder[]; // orders that read every order-dependent value
+  ambiguous: boolean; // more than one candidate: the user should confirm
+  orderDependentCount: number;
+  samples: string[]; // a few order-dependent values, for the confirmation prompt
+}
+
+// English and Afrikaans month names and abbreviations.
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, januarie: 1,
+  feb: 2, february: 2, februarie: 2,
+  mar: 3, march: 3, mrt: 3, maart: 3,
+  apr: 4, april: 4,
+  may: 5, mei: 5,
+  jun: 6, june: 6, junie: 6,
+  jul: 7, july: 7, julie: 7,
+  aug: 8, august: 8, augustus: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, okt: 10, oktober: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12, des: 12, desember: 12,
+};
+
+// Excel serial day numbers for 1950-01-01 .. 2099-12-31.
+const EXCEL_SERIAL_MIN = 18264;
+const EXCEL_SERIAL_MAX = 73050;
+
+function makeValidDate(year: number, month: number, day: number): Date | null {
+  const dt = new Date(year, month - 1, day);
+  if (
+    dt.getFullYear() !== year ||
+    dt.getMonth() !== month - 1 ||
+    dt.getDate() !== day
+  ) {
+    return null;
+  }
+  return dt;
+}
+
+function normalizeTwoDigitYear(year: number): number {
+  // Pivot rule: 00-69 => 2000-2069, 70-99 => 1970-1999
+  return year >= 70 ? 1900 + year : 2000 + year;
+}
+
+interface NumericDate {
+  parts: [string, string, string];
+  yearFirst: boolean; // four-digit year written first: never order-dependent
+}
+
+function matchNumericDate(raw: string): NumericDate | null {
+  const match = raw.match(/^(\d{1,4})[\/.-](\d{1,2})[\/.-](\d{1,4})(?:[ T].*)?$/);
+  if (!match) return null;
+  const parts: [string, string, string] = [match[1], match[2], match[3]];
+  if (parts[0].length === 3 || parts[2].length === 3) return null;
+  if (parts[0].length === 4 && parts[2].length === 4) return null;
+  return { parts, yearFirst: parts[0].length === 4 };
+}
+
+function readNumericDate({ parts, yearFirst }: NumericDate, order: DateOrder): Date | null {
+  const [a, b, c] = parts.map((p) => parseInt(p, 10));
+  if (yearFirst) return makeValidDate(a, b, c);
+  if (order === "ymd") {
+    if (parts[0].length !== 2 || parts[2].length > 2) return null;
+    return makeValidDate(normalizeTwoDigitYear(a), b, c);
+  }
+  if (parts[2].length === 1) return null;
+  const year = parts[2].length === 2 ? normalizeTwoDigitYear(c) : c;
+  return order === "dmy" ? makeValidDate(year, b, a) : makeValidDate(year, a, b);
+}
+
+function parseSerialDate(raw: string): Date | null {
+  if (!/^\d{5}(\.\d+)?$/.test(raw)) return null;
+  const serial = Math.floor(parseFloat(raw));
+  if (serial < EXCEL_SERIAL_MIN || serial > EXCEL_SERIAL_MAX) return null;
+  // Day 0 is 1899-12-30 once Excel's phantom 1900-02-29 is accounted for.
+  return new Date(1899, 11, 30 + serial);
+}
+
+// "12 Oct 2024", "12 Okt 2024", "Saturday, 12 October 2024", "Oct 12, 2024", "12-Oct-24".
+function parseTextualDate(raw: string): Date | null {
+  const tokens = raw
+    .toLowerCase()
+    .replace(/\s+\d{1,2}:\d{2}(:\d{2})?\s*([ap]m)?$/, "")
+    .replace(/(\d+)(st|nd|rd|th)\b/g, "$1")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const month = tokens.map((t) => MONTHS[t]).find((m) => m !== undefined);
+  if (month === undefined) return null;
+
+  const numbers = tokens.filter((t) => /^\d+$/.test(t));
+  if (numbers.length !== 2) return null;
+  const yearIndex = numbers.findIndex((n) => n.length === 4);
+  if (yearIndex >= 0) {
+    const day = numbers[1 - yearIndex];
+    return day.length <= 2
+      ? makeValidDate(parseInt(numbers[yearIndex], 10), month, parseInt(day, 10))
+      : null;
+  }
+  if (numbers[0].length > 2 || numbers[1].length !== 2) return null;
+  return makeValidDate(
+    normalizeTwoDigitYear(parseInt(numbers[1], 10)),
+    month,
+    parseInt(numbers[0], 10),
+  );
+}
+
+/**
+ * Reads one date. Numeric dates without a leading four-digit year follow
+ * `order` strictly; serial numbers and month names never depend on it.
+ */
+export function parseDateValue(
+  value: string | null | undefined,
+  order: DateOrder = "dmy",
+): Date | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+  const numeric = matchNumericDate(raw);
+  if (numeric) return readNumericDate(numeric, order);
+  return parseSerialDate(raw) ?? parseTextualDate(raw);
+}
+
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate(),
+  ).padStart(2, "0")}`;
+}
+
+/** Picks the one order that reads a whole column, and flags when several do. */
+export function inferDateFormat(values: Array<string | null | undefined>): DateFormatInference {
+  const orderDependent: Array<{ raw: string; numeric: NumericDate }> = [];
+  values.forEach((value) => {
+    const raw = String(value ?? "").trim();
+    const numeric = matchNumericDate(raw);
+    if (numeric && !numeric.yearFirst) orderDependent.push({ raw, numeric });
+  });
+
+  const readable = DATE_ORDERS.map(
+    (order) =>
+      orderDependent.filter(({ numeric }) => readNumericDate(numeric, order) !== null)
+        .length,
+  );
+  const candidates =
+    orderDependent.length > 0
+      ? DATE_ORDERS.filter((_, idx) => readable[idx] === orderDependent.length)
+      : [];
+  // Without a clean fit, the order reading the most values wins.
+  const best = readable.indexOf(Math.max(...readable));
+
+  return {
+    order: candidates[0] ?? DATE_ORDERS[best],
+    candidates,
+    ambiguous: candidates.length > 1,
+    orderDependentCount: orderDependent.length,
+    samples: Array.from(new Set(orderDependent.map(({ raw }) => raw))).slice(0, 4),
+  };
+}
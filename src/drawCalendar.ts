@@ -0,0 +1,111 @@
+/**
+ * Draw Calendar
+ * Finds holes in a draw history: scheduled draw days with no draw and skipped
+ * provider draw numbers. Lag-based analyses use the holes to avoid treating
+ * draws on either side of one as consecutive.
+ */
+
+import type { DrawRecord } from "./analysis";
+import type { GameDefinition } from "./games";
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface DrawHole {
+  index: number; // position of the first draw after the hole
+  afterDate: string; // last draw before the hole
+  beforeDate: string; // first draw after the hole
+  missingDates: string[]; // scheduled draw days with no draw
+  skippedDrawNumbers: { from: number; to: number } | null;
+}
+
+export interface DrawCalendarReport {
+  drawDays: number[]; // weekdays checked; empty when the game's calendar is unknown
+  holes: DrawHole[];
+  missingDateCount: number;
+  skippedDrawNumberCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDayTime(date: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Scheduled draw days strictly between two ISO dates.
+function scheduledDatesBetween(from: string, to: string, drawDays: number[]): string[] {
+  const start = isoDayTime(from);
+  const end = isoDayTime(to);
+  if (start === null || end === null || drawDays.length === 0) return [];
+  const dates: string[] = [];
+  for (let time = start + DAY_MS; time < end; time += DAY_MS) {
+    const day = new Date(time);
+    if (drawDays.includes(day.getUTCDay())) dates.push(day.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * Checks every pair of neighbouring draws (chronological order expected).
+ * When both carry draw numbers, consecutive numbers mean nothing is missing:
+ * an empty scheduled day is then a cancelled draw, not a hole.
+ */
+export function findDrawHoles(
+  draws: DrawRecord[],
+  game: GameDefinition,
+): DrawCalendarReport {
+  const drawDays = game.drawDays ?? [];
+  const holes: DrawHole[] = [];
+
+  for (let idx = 1; idx < draws.length; idx++) {
+    const prev = draws[idx - 1];
+    const next = draws[idx];
+    const prevNumber = prev.drawNumber;
+    const nextNumber = next.drawNumber;
+    const numbered = prevNumber !== undefined && nextNumber !== undefined;
+    const skippedDrawNumbers =
+      numbered && nextNumber - prevNumber > 1
+        ? { from: prevNumber + 1, to: nextNumber - 1 }
+        : null;
+    const missingDates =
+      !numbered || skippedDrawNumbers
+        ? scheduledDatesBetween(prev.date, next.date, drawDays)
+        : [];
+    if (missingDates.length === 0 && !skippedDrawNumbers) continue;
+    holes.push({
+      index: idx,
+      afterDate: prev.date,
+      beforeDate: next.date,
+      missingDates,
+      skippedDrawNumbers,
+    });
+  }
+
+  return {
+    drawDays,
+    holes,
+    missingDateCount: holes.reduce((sum, hole) => sum + hole.missingDates.length, 0),
+    skippedDrawNumberCount: holes.reduce(
+      (sum, hole) =>
+        sum +
+        (hole.skippedDrawNumbers
+          ? hole.skippedDrawNumbers.to - hole.skippedDrawNumbers.from + 1
+          : 0),
+      0,
+    ),
+  };
+}
+
+/**
+ * Segment id per draw, increasing after every hole. Two draws can be paired
+ * by a lag-based analysis only when their ids match.
+ */
+export function holeSegments(length: number, holeIndexes: number[] = []): number[] {
+  const starts = new Set(holeIndexes);
+  const segments = new Array<number>(length).fill(0);
+  for (let t = 1; t < length; t++) {
+    segments[t] = segments[t - 1] + (starts.has(t) ? 1 : 0);
+  }
+  return segments;
+}
@@ -0,0 +1,353 @@
+/**
+ * Draw Dataset
+ * Versioned canonical format for draw histories, read and written by both the
+ * browser app and the evaluation CLI.
+ *
+ * JSON:   { format, version, gameId, exportedAt, draws: [...] }
+ * NDJSON: the same header object without `draws` on line 1, then one draw per line.
+ */
+
+import { compareDraws, drawIdOf, parseDrawId, type DrawRecord } from "./analysis";
+import type { ColumnMapping } from "./columnMapping";
+import {
+  GAME_DEFINITIONS,
+  getGameDefinition,
+  getMaxBonusBall,
+  getMaxMainBall,
+  type GameDefinition,
+} from "./games";
+import { prizeColumnAssignment, readDrawPrizes } from "./prizeData";
+
+export const DATASET_FORMAT = "lotto-draws";
+export const DATASET_VERSION = 1;
+const SUPPORTED_DATASET_VERSIONS = [1];
+
+export type DatasetEncoding = "json" | "ndjson";
+
+export interface CanonicalDraw {
+  drawId: string | null; // provider draw number, when known
+  date: string; // YYYY-MM-DD
+  numbers: number[]; // main numbers, ascending
+  bonus: number | null;
+  metadata?: Record<string, string>; // extra columns (jackpot, machine, ...)
+}
+
+export interface DrawDataset {
+  format: typeof DATASET_FORMAT;
+  version: number;
+  gameId: string;
+  exportedAt: string;
+  draws: CanonicalDraw[];
+}
+
+/** A file that is not a readable draw dataset; `issues` lists each schema problem. */
+export class DatasetFormatError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    const shown = issues.slice(0, 10).map((issue) => `\n- ${issue}`).join("");
+    const more = issues.length > 10 ? `\n- ...and ${issues.length - 10} more` : "";
+    super(`${message}${shown}${more}`);
+    this.name = "DatasetFormatError";
+    this.issues = issues;
+  }
+}
+
+// ─── Conversion ─────────────────────────────────────────────────────
+
+export function toCanonicalDraw(
+  draw: DrawRecord,
+  metadata?: Record<string, string>,
+): CanonicalDraw {
+  return {
+    drawId: drawIdOf(draw),
+    date: draw.date,
+    numbers: [...draw.numbers].sort((a, b) => a - b),
+    bonus: draw.bonus > 0 ? draw.bonus : null,
+    ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+  };
+}
+
+export function toDrawRecord(draw: CanonicalDraw): DrawRecord {
+  const prizes = draw.metadata ? readDrawPrizes(draw.metadata, null) : undefined;
+  return {
+    date: draw.date,
+    numbers: [...draw.numbers],
+    bonus: draw.bonus ?? 0,
+    ...parseDrawId(draw.drawId),
+    ...(prizes ? { prizes } : {}),
+  };
+}
+
+export function createDrawDataset(
+  game: GameDefinition,
+  draws: CanonicalDraw[],
+): DrawDataset {
+  return {
+    format: DATASET_FORMAT,
+    version: DATASET_VERSION,
+    gameId: game.id,
+    exportedAt: new Date().toISOString(),
+    draws: [...draws].sort((a, b) => compareDraws(toDrawRecord(a), toDrawRecord(b))),
+  };
+}
+
+// ─── Serialisation ──────────────────────────────────────────────────
+
+/** Encoding implied by a file name, or null when it is not a dataset file. */
+export function datasetEncodingOf(fileName: string): DatasetEncoding | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".json")) return "json";
+  if (lower.endsWith(".ndjson") || lower.endsWith(".jsonl")) return "ndjson";
+  return null;
+}
+
+export function serializeDrawDataset(
+  dataset: DrawDataset,
+  encoding: DatasetEncoding,
+): string {
+  if (encoding === "json") return JSON.stringify(dataset, null, 2);
+  const { draws, ...header } = dataset;
+  return [header, ...draws].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+export function parseDrawDataset(
+  text: string,
+  encoding: DatasetEncoding,
+): DrawDataset {
+  if (encoding === "json") {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new DatasetFormatError(
+        `Dataset is not valid JSON: ${(error as Error).message}`,
+      );
+    }
+    return validateDrawDataset(value);
+  }
+
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (line.trim() === "") return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new DatasetFormatError(`Line ${idx + 1} is not valid JSON.`);
+    }
+  });
+  const [header, ...draws] = records;
+  if (!isRecord(header)) {
+    throw new DatasetFormatError("The first NDJSON line must be the dataset header.");
+  }
+  return validateDrawDataset({ ...header, draws });
+}
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+function validateDraw(
+  raw: unknown,
+  label: string,
+  game: GameDefinition,
+  issues: string[],
+): CanonicalDraw | null {
+  if (!isRecord(raw)) {
+    issues.push(`${label} must be an object.`);
+    return null;
+  }
+  const before = issues.length;
+  const maxMain = getMaxMainBall(game);
+  const maxBonus = getMaxBonusBall(game);
+
+  const drawId = raw.drawId ?? null;
+  if (drawId !== null && typeof drawId !== "string") {
+    issues.push(`${label}: drawId must be a string or null.`);
+  }
+
+  const date = raw.date;
+  if (typeof date !== "string" || !isIsoDate(date)) {
+    issues.push(`${label}: date must be a YYYY-MM-DD string.`);
+  }
+
+  const numbers = raw.numbers;
+  if (
+    !Array.isArray(numbers) ||
+    numbers.length !== game.pickCount ||
+    numbers.some((n) => !Number.isInteger(n) || n < 1 || n > maxMain)
+  ) {
+    issues.push(
+      `${label}: numbers must be ${game.pickCount} integers between 1 and ${maxMain}.`,
+    );
+  } else if (new Set(numbers).size !== numbers.length) {
+    issues.push(`${label}: numbers must not repeat.`);
+  }
+
+  const bonus = raw.bonus ?? null;
+  if (bonus !== null) {
+    if (game.bonusSemantics === "none") {
+      issues.push(`${label}: ${game.name} has no bonus ball.`);
+    } else if (
+      typeof bonus !== "number" ||
+      !Number.isInteger(bonus) ||
+      bonus < 1 ||
+      bonus > maxBonus
+    ) {
+      issues.push(`${label}: bonus must be an integer between 1 and ${maxBonus}.`);
+    } else if (
+      game.bonusSemantics === "shared-pool" &&
+      Array.isArray(numbers) &&
+      numbers.includes(bonus)
+    ) {
+      issues.push(`${label}: bonus ${bonus} repeats a main number.`);
+    }
+  }
+
+  const metadata = raw.metadata;
+  if (
+    metadata !== undefined &&
+    (!isRecord(metadata) ||
+      Object.values(metadata).some((value) => typeof value !== "string"))
+  ) {
+    issues.push(`${label}: metadata must map names to strings.`);
+  }
+
+  if (issues.length > before) return null;
+  return {
+    drawId: drawId as string | null,
+    date: date as string,
+    numbers: [...(numbers as number[])].sort((a, b) => a - b),
+    bonus: bonus as number | null,
+    ...(metadata !== undefined
+      ? { metadata: { ...(metadata as Record<string, string>) } }
+      : {}),
+  };
+}
+
+/** Checks an already-parsed value against the dataset schema. */
+export function validateDrawDataset(value: unknown): DrawDataset {
+  if (!isRecord(value)) {
+    throw new DatasetFormatError("Dataset must be a JSON object.");
+  }
+  if (value.format !== DATASET_FORMAT) {
+    throw new DatasetFormatError(
+      `Not a draw dataset: expected format "${DATASET_FORMAT}".`,
+    );
+  }
+  if (
+    typeof value.version !== "number" ||
+    !SUPPORTED_DATASET_VERSIONS.includes(value.version)
+  ) {
+    throw new DatasetFormatError(
+      `Unsupported dataset version ${JSON.stringify(value.version)}. This build reads version ${SUPPORTED_DATASET_VERSIONS.join(", ")}.`,
+    );
+  }
+  const game = GAME_DEFINITIONS.find((g) => g.id === value.gameId);
+  if (!game) {
+    throw new DatasetFormatError(
+      `Unknown game id ${JSON.stringify(value.gameId)}. Known games: ${GAME_DEFINITIONS.map((g) => g.id).join(", ")}.`,
+    );
+  }
+  if (!Array.isArray(value.draws)) {
+    throw new DatasetFormatError("Dataset has no draws array.");
+  }
+
+  const issues: string[] = [];
+  if (typeof value.exportedAt !== "string") {
+    issues.push("exportedAt must be a string.");
+  }
+  const draws: CanonicalDraw[] = [];
+  // Draws with a drawId are unique by it, the rest by date (several draws can share one).
+  const seenDates = new Map<string, number>();
+  const seenDrawIds = new Map<string, number>();
+  value.draws.forEach((raw, idx) => {
+    const draw = validateDraw(raw, `Draw ${idx + 1}`, game, issues);
+    if (!draw) return;
+    const seen = draw.drawId !== null ? seenDrawIds : seenDates;
+    const key = draw.drawId ?? draw.date;
+    const first = seen.get(key);
+    if (first !== undefined) {
+      issues.push(
+        draw.drawId !== null
+          ? `Draw ${idx + 1}: drawId ${key} repeats draw ${first + 1}.`
+          : `Draw ${idx + 1}: date ${key} repeats draw ${first + 1}.`,
+      );
+      return;
+    }
+    seen.set(key, idx);
+    draws.push(draw);
+  });
+  if (issues.length > 0) {
+    throw new DatasetFormatError("Dataset failed schema validation:", issues);
+  }
+
+  return {
+    format: DATASET_FORMAT,
+    version: value.version,
+    gameId: game.id,
+    exportedAt: value.exportedAt as string,
+    draws,
+  };
+}
+
+// ─── Table Rows ─────────────────────────────────────────────────────
+
+const DRAW_ID_COLUMN = "Draw ID";
+const DATE_COLUMN = "Date";
+const BONUS_COLUMN = "Bonus";
+const ballColumn = (ball: number) => `Ball ${ball}`;
+
+/** Flattens a dataset into table rows with fixed column names. */
+export function datasetToRows(dataset: DrawDataset): Record<string, string>[] {
+  const game = getGameDefinition(dataset.gameId);
+  return dataset.draws.map((draw) => {
+    const row: Record<string, string> = {
+      [DRAW_ID_COLUMN]: draw.drawId ?? "",
+      [DATE_COLUMN]: draw.date,
+    };
+    for (let ball = 1; ball <= game.pickCount; ball++) {
+      row[ballColumn(ball)] = String(draw.numbers[ball - 1] ?? "");
+    }
+    row[BONUS_COLUMN] = draw.bonus !== null ? String(draw.bonus) : "";
+    Object.entries(draw.metadata ?? {}).forEach(([key, value]) => {
+      if (!(key in row)) row[key] = value;
+    });
+    return row;
+  });
+}
+
+/** Column mapping for rows built by datasetToRows, or null for other headers. */
+export function datasetColumnMapping(
+  headers: string[],
+  game: GameDefinition,
+): ColumnMapping | null {
+  const required = [DATE_COLUMN];
+  for (let ball = 1; ball <= game.pickCount; ball++) required.push(ballColumn(ball));
+  if (!required.every((header) => headers.includes(header))) return null;
+
+  const mapping: ColumnMapping = {};
+  headers.forEach((header) => {
+    const ball = header.match(/^Ball (\d+)$/);
+    if (header === DATE_COLUMN) {
+      mapping[header] = { role: "date" };
+    } else if (header === DRAW_ID_COLUMN) {
+      mapping[header] = { role: "draw-number" };
+    } else if (header === BONUS_COLUMN) {
+      mapping[header] = { role: "bonus" };
+    } else if (ball && parseInt(ball[1], 10) <= game.pickCount) {
+      mapping[header] = { role: "ball", ball: parseInt(ball[1], 10) };
+    } else {
+      mapping[header] = prizeColumnAssignment(header) ?? { role: "ignore" };
+    }
+  });
+  return mapping;
+}
@@ -0,0 +1,62 @@
+/**
+ * Edit History
+ * Undo/redo stacks for manual changes to a row history. Each entry records
+ * enough to replay the change in either direction, so the stacks can be
+ * persisted as plain JSON next to the rows they describe.
+ */
+
+export type RowEdit<Row> =
+  | { kind: "add"; index: number; row: Row; at: string }
+  | { kind: "edit"; index: number; before: Row; after: Row; at: string }
+  | { kind: "delete"; index: number; row: Row; at: string };
+
+export interface EditHistory<Row> {
+  undo: RowEdit<Row>[]; // oldest first
+  redo: RowEdit<Row>[]; // next redo last
+}
+
+export const MAX_EDIT_HISTORY = 200;
+
+export function createEditHistory<Row>(): EditHistory<Row> {
+  return { undo: [], redo: [] };
+}
+
+export function applyRowEdit<Row>(rows: Row[], edit: RowEdit<Row>): void {
+  if (edit.kind === "add") rows.splice(edit.index, 0, edit.row);
+  else if (edit.kind === "edit") rows[edit.index] = edit.after;
+  else rows.splice(edit.index, 1);
+}
+
+export function revertRowEdit<Row>(rows: Row[], edit: RowEdit<Row>): void {
+  if (edit.kind === "add") rows.splice(edit.index, 1);
+  else if (edit.kind === "edit") rows[edit.index] = edit.before;
+  else rows.splice(edit.index, 0, edit.row);
+}
+
+/** Applies a new change and records it; any redo entries are discarded. */
+export function commitRowEdit<Row>(
+  history: EditHistory<Row>,
+  rows: Row[],
+  edit: RowEdit<Row>,
+): void {
+  applyRowEdit(rows, edit);
+  history.undo.push(edit);
+  if (history.undo.length > MAX_EDIT_HISTORY) history.undo.shift();
+  history.redo = [];
+}
+
+export function undoRowEdit<Row>(history: EditHistory<Row>, rows: Row[]): RowEdit<Row> | null {
+  const edit = history.undo.pop();
+  if (!edit) return null;
+  revertRowEdit(rows, edit);
+  history.redo.push(edit);
+  return edit;
+}
+
+export function redoRowEdit<Row>(history: EditHistory<Row>, rows: Row[]): RowEdit<Row> | null {
+  const edit = history.redo.pop();
+  if (!edit) return null;
+  applyRowEdit(rows, edit);
+  history.undo.push(edit);
+  return edit;
+}
@@ -1,5 +1,33 @@
-import * as XLSX from "xlsx";
-import { type DrawRecord, K } from "./analysis";
+import {
+  BONUS_POLICIES,
+  detectFormat,
+  resolveBonusPolicy,
+  type BonusPolicy,
+  type DrawRecord,
+} from "./analysis";
+import { DATE_ORDERS, DATE_ORDER_LABELS, type DateOrder } from "./dateFormat";
+import { findDrawHoles } from "./drawCalendar";
+import {
+  createDrawDataset,
+  datasetColumnMapping,
+  datasetEncodingOf,
+  serializeDrawDataset,
+  toCanonicalDraw,
+  type CanonicalDraw,
+} from "./drawDataset";
+import {
+  DEFAULT_GAME,
+  GAME_DEFINITIONS,
+  parseEraDeclarations,
+  type GameDefinition,
+  type GameEra,
+} from "./games";
+import {
+  canonicalDrawsOf,
+  collectSourceHeaders,
+  ingestSources,
+  readFileSources,
+} from "./ingestion";
 import {
   WEIGHT_PROFILES,
   calibrateRuntimeBudgets,
@@ -10,12 +38,18 @@ import {
   type GenerateCandidateOptions,
   type WeightProfile,
 } from "./predictor";
+import { prizeAnalysis } from "./prizeData";
 
 declare const process: {
   argv: string[];
   exit: (code?: number) => never;
 };
 
+declare const require: (id: "fs") => {
+  readFileSync: (path: string) => Uint8Array;
+  writeFileSync: (path: string, data: string, encoding: "utf8") => void;
+};
+
 interface CliOptions {
   filePath: string | null;
   syntheticDraws: number | null;
@@ -23,6 +57,11 @@ interface CliOptions {
   step: number;
   minTrain: number;
   maxEvals: number;
+  game: GameDefinition;
+  bonusPolicy: BonusPolicy;
+  declaredEras: GameEra[];
+  exportDatasetPath: string | null;
+  dateOrder: DateOrder | null; // inferred from the file when null
 }
 
 interface MetricSummary {
@@ -72,7 +111,38 @@ function parsePositiveInt(value: string, flag: string): number {
   return parsed;
 }
 
+function parseGameId(value: string, flag: string): GameDefinition {
+  const game = GAME_DEFINITIONS.find((entry) => entry.id === value);
+  if (!game) {
+    const known = GAME_DEFINITIONS.map((entry) => entry.id).join(", ");
+    throw new Error(`Unknown game for ${flag}: ${value} (expected one of ${known})`);
+  }
+  return game;
+}
+
+function parseDateOrder(value: string, flag: string): DateOrder {
+  const order = DATE_ORDERS.find((entry) => entry === value);
+  if (!order) {
+    throw new Error(
+      `Unknown date order for ${flag}: ${value} (expected one of ${DATE_ORDERS.join(", ")})`,
+    );
+  }
+  return order;
+}
+
+function parseBonusPolicy(value: string, flag: string): BonusPolicy {
+  const policy = BONUS_POLICIES.find((entry) => entry === value);
+  if (!policy) {
+    throw new Error(
+      `Unknown bonus policy for ${flag}: ${value} (expected one of ${BONUS_POLICIES.join(", ")})`,
+    );
+  }
+  return policy;
+}
+
 function parseCliArgs(argv: string[]): CliOptions {
+  let requestedBonusPolicy: BonusPolicy | undefined;
+  let rawEras: string | null = null;
   const options: CliOptions = {
     filePath: null,
     syntheticDraws: null,
@@ -80,6 +150,11 @@ function parseCliArgs(argv: string[]): CliOptions {
     step: 4,
     minTrain: 140,
     maxEvals: 70,
+    game: DEFAULT_GAME,
+    bonusPolicy: "include",
+    declaredEras: [],
+    exportDatasetPath: null,
+    dateOrder: null,
   };
 
   for (const token of argv) {
@@ -93,7 +168,9 @@ function parseCliArgs(argv: string[]): CliOptions {
       continue;
     }
 
-    const [flag, rawValue = ""] = token.split("=", 2);
+    const separator = token.indexOf("=");
+    const flag = separator === -1 ? token : token.slice(0, separator);
+    const rawValue = separator === -1 ? "" : token.slice(separator + 1);
     if (flag === "--window") {
       options.rollingWindow = parsePositiveInt(rawValue, flag);
       continue;
@@ -114,162 +191,128 @@ function parseCliArgs(argv: string[]): CliOptions {
       options.syntheticDraws = parsePositiveInt(rawValue, flag);
       continue;
     }
+    if (flag === "--game") {
+      options.game = parseGameId(rawValue, flag);
+      continue;
+    }
+    if (flag === "--bonus-policy") {
+      requestedBonusPolicy = parseBonusPolicy(rawValue, flag);
+      continue;
+    }
+    if (flag === "--date-order") {
+      options.dateOrder = parseDateOrder(rawValue, flag);
+      continue;
+    }
+    if (flag === "--eras") {
+      rawEras = rawValue;
+      continue;
+    }
+    if (flag === "--export-dataset") {
+      if (!datasetEncodingOf(rawValue)) {
+        throw new Error(`${flag} must name a .json, .ndjson or .jsonl file.`);
+      }
+      options.exportDatasetPath = rawValue;
+      continue;
+    }
 
     throw new Error(`Unknown argument: ${token}`);
   }
 
+  // Resolved once the game is known, since the game decides what is allowed.
+  options.bonusPolicy = resolveBonusPolicy(options.game, requestedBonusPolicy);
+  if (rawEras !== null) {
+    const { eras, errors } = parseEraDeclarations(rawEras, options.game);
+    if (errors.length > 0) {
+      throw new Error(`Invalid value for --eras: ${errors.join("; ")}`);
+    }
+    options.declaredEras = eras;
+  }
   return options;
 }
 
 function printUsage() {
   console.log("Usage:");
   console.log(
-    "  npm run evaluate:model -- <data.xlsx> [--window=260] [--step=4] [--min-train=140] [--max-evals=70]",
+    "  npm run evaluate:model -- <data.xlsx|data.csv|draws.json> [--game=sa-lotto] [--bonus-policy=include] [--date-order=dmy|mdy|ymd] [--eras=2017-05-24=52,2021-01-06=58] [--window=260] [--step=4] [--min-train=140] [--max-evals=70]",
+  );
+  console.log("  npm run evaluate:model -- --synthetic=600 [--game=sa-lotto]");
+  console.log(
+    "  npm run evaluate:model -- <data.xlsx|draws.json|draws.ndjson> --export-dataset=<out.json|out.ndjson>",
+  );
+  console.log(
+    "  Dataset files (.json/.ndjson) are read as canonical draws; --export-dataset converts the input and exits.",
+  );
+  console.log(
+    `  Games: ${GAME_DEFINITIONS.map((game) => game.id).join(", ")}`,
+  );
+  console.log(
+    `  Bonus policies: ${BONUS_POLICIES.join(", ")} (default: the game's natural treatment)`,
   );
-  console.log("  npm run evaluate:model -- --synthetic=600");
-}
-
-function normalizeDateParts(
-  year: number,
-  month: number,
-  day: number,
-): string | null {
-  const dt = new Date(year, month - 1, day);
-  if (
-    dt.getFullYear() !== year ||
-    dt.getMonth() !== month - 1 ||
-    dt.getDate() !== day
-  ) {
-    return null;
-  }
-  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
 }
 
-function normalizeTwoDigitYear(year: number): number {
-  // Pivot rule: 00-69 => 2000-2069, 70-99 => 1970-1999
-  return year >= 70 ? 1900 + year : 2000 + year;
+interface LoadedDraws {
+  draws: DrawRecord[];
+  canonicalDraws: CanonicalDraw[]; // what the browser's dataset export writes
 }
 
-function normalizeDate(dateVal: string): string | null {
-  const cleaned = dateVal.trim();
-  if (!cleaned) return null;
-
-  const ymd = cleaned.match(
-    /^(\d{4})[\/.-](\d{1,2})[\/.-](\d{1,2})(?:[ T].*)?$/,
-  );
-  if (ymd) {
-    return normalizeDateParts(
-      Number.parseInt(ymd[1], 10),
-      Number.parseInt(ymd[2], 10),
-      Number.parseInt(ymd[3], 10),
-    );
+// Same pipeline as the browser upload: file bytes -> sources -> merged draws.
+function loadDrawsFromFile(
+  filePath: string,
+  game: GameDefinition,
+  dateOrder: DateOrder | null,
+): LoadedDraws {
+  const fileName = filePath.split(/[\\/]/).pop() ?? filePath;
+  const sources = readFileSources(fileName, require("fs").readFileSync(filePath));
+  const declaredGame = sources.find((source) => source.gameId)?.gameId;
+  if (declaredGame && declaredGame !== game.id) {
+    throw new Error(`${filePath} holds ${declaredGame} draws; pass --game=${declaredGame}.`);
   }
 
-  const ymdShort = cleaned.match(
-    /^(\d{2})[\/.-](\d{1,2})[\/.-](\d{1,2})(?:[ T].*)?$/,
-  );
-  if (ymdShort) {
-    return normalizeDateParts(
-      normalizeTwoDigitYear(Number.parseInt(ymdShort[1], 10)),
-      Number.parseInt(ymdShort[2], 10),
-      Number.parseInt(ymdShort[3], 10),
+  const mapping = datasetColumnMapping(collectSourceHeaders(sources), game);
+  const { draws, issues, duplicateCount, conflicts, dateFormat, headers, rows } =
+    ingestSources(sources, {
+      game,
+      mapping,
+      ...(dateOrder ? { dateOrder } : {}),
+    });
+  if (!dateOrder && dateFormat.ambiguous) {
+    console.warn(
+      `Dates such as ${dateFormat.samples.join(", ")} fit ${dateFormat.candidates.map((order) => DATE_ORDER_LABELS[order]).join(" and ")}; read as ${DATE_ORDER_LABELS[dateFormat.order]}. Pass --date-order to choose.`,
     );
   }
-
-  const dmy = cleaned.match(
-    /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})(?:[ T].*)?$/,
-  );
-  if (dmy) {
-    const dayFirst = normalizeDateParts(
-      Number.parseInt(dmy[3], 10),
-      Number.parseInt(dmy[2], 10),
-      Number.parseInt(dmy[1], 10),
-    );
-    if (dayFirst) return dayFirst;
-
-    return normalizeDateParts(
-      Number.parseInt(dmy[3], 10),
-      Number.parseInt(dmy[1], 10),
-      Number.parseInt(dmy[2], 10),
-    );
-  }
-
-  const dmyShort = cleaned.match(
-    /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2})(?:[ T].*)?$/,
-  );
-  if (dmyShort) {
-    const yy = normalizeTwoDigitYear(Number.parseInt(dmyShort[3], 10));
-    const dayFirst = normalizeDateParts(
-      yy,
-      Number.parseInt(dmyShort[2], 10),
-      Number.parseInt(dmyShort[1], 10),
-    );
-    if (dayFirst) return dayFirst;
-
-    return normalizeDateParts(
-      yy,
-      Number.parseInt(dmyShort[1], 10),
-      Number.parseInt(dmyShort[2], 10),
+  if (issues.length > 0 || duplicateCount > 0 || conflicts.length > 0) {
+    console.log(
+      `Import: ${issues.length} rows rejected, ${duplicateCount} duplicates dropped, ${conflicts.length} conflicts kept the first source.`,
     );
   }
-
-  return null;
+  return {
+    draws,
+    canonicalDraws: canonicalDrawsOf(rows, headers, issues, {
+      game,
+      mapping,
+      dateOrder: dateFormat.order,
+    }),
+  };
 }
 
-function parseDrawsFromWorkbook(filePath: string): DrawRecord[] {
-  const workbook = XLSX.readFile(filePath);
-  const firstSheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[firstSheetName];
-  const rows = XLSX.utils.sheet_to_json<Record<string, string | number>>(worksheet, {
-    raw: false,
-    defval: "",
-  });
-
-  const numberKeyRegex = /^number\d+$/i;
-
-  return rows
-    .map((row): DrawRecord | null => {
-      const numbers: number[] = [];
-      let bonus = 0;
-      let dateVal = "";
-
-      for (const [key, value] of Object.entries(row)) {
-        const normalizedKey = key.toLowerCase();
-        const normalizedValue = String(value ?? "").trim();
-
-        if (normalizedKey.includes("date")) {
-          dateVal = normalizedValue;
-          continue;
-        }
-        if (normalizedKey === "bonus") {
-          bonus = Number.parseInt(normalizedValue, 10) || 0;
-          continue;
-        }
-
-        if (numberKeyRegex.test(normalizedKey.replace(/[^a-z0-9]/gi, ""))) {
-          const parsedNum = Number.parseInt(normalizedValue, 10);
-          if (!Number.isNaN(parsedNum)) numbers.push(parsedNum);
-        }
-      }
-
-      const normalizedDate = normalizeDate(dateVal);
-      const sortedNumbers = numbers.sort((a, b) => a - b);
-      if (!normalizedDate) return null;
-      if (sortedNumbers.length !== K) return null;
-      if (new Set(sortedNumbers).size !== K) return null;
-      if (sortedNumbers.some((n) => n <= 0)) return null;
-
-      return {
-        date: normalizedDate,
-        numbers: sortedNumbers,
-        bonus,
-      };
-    })
-    .filter((draw): draw is DrawRecord => draw !== null)
-    .sort((a, b) => a.date.localeCompare(b.date));
+function writeDrawDataset(
+  filePath: string,
+  draws: CanonicalDraw[],
+  game: GameDefinition,
+) {
+  const dataset = createDrawDataset(game, draws);
+  require("fs").writeFileSync(
+    filePath,
+    serializeDrawDataset(dataset, datasetEncodingOf(filePath) ?? "json"),
+    "utf8",
+  );
 }
 
-function buildSyntheticDraws(totalDraws: number, N = 52): DrawRecord[] {
+function buildSyntheticDraws(
+  totalDraws: number,
+  game: GameDefinition,
+): DrawRecord[] {
+  const N = game.mainPool;
   let seed = 0x7f4a7c15;
   const nextInt = (maxExclusive: number): number => {
     seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
@@ -282,14 +325,19 @@ function buildSyntheticDraws(totalDraws: number, N = 52): DrawRecord[] {
 
   for (let i = 0; i < totalDraws; i++) {
     const mainSet = new Set<number>();
-    while (mainSet.size < K) {
+    while (mainSet.size < game.pickCount) {
       mainSet.add(nextInt(N) + 1);
     }
     const numbers = Array.from(mainSet).sort((a, b) => a - b);
 
-    let bonus = nextInt(N) + 1;
-    while (mainSet.has(bonus)) {
+    let bonus = 0;
+    if (game.bonusSemantics === "separate-pool") {
+      bonus = nextInt(game.bonusPool ?? N) + 1;
+    } else if (game.bonusSemantics === "shared-pool") {
       bonus = nextInt(N) + 1;
+      while (mainSet.has(bonus)) {
+        bonus = nextInt(N) + 1;
+      }
     }
 
     const date = new Date(startMs + i * 7 * oneDayMs).toISOString().split("T")[0];
@@ -304,9 +352,16 @@ function overlapCount(predicted: number[], actual: number[]): number {
   return actual.filter((n) => set.has(n)).length;
 }
 
-function toSevenBallTarget(draw: DrawRecord): number[] {
+function toSevenBallTarget(
+  draw: DrawRecord,
+  bonusPolicy: BonusPolicy,
+): number[] {
   const target = [...draw.numbers];
-  if (draw.bonus > 0 && !target.includes(draw.bonus)) {
+  if (
+    bonusPolicy === "include" &&
+    draw.bonus > 0 &&
+    !target.includes(draw.bonus)
+  ) {
     target.push(draw.bonus);
   }
   return target;
@@ -396,7 +451,11 @@ function evaluateRollingModel(draws: DrawRecord[], options: CliOptions): MetricS
       ? allIndices.slice(allIndices.length - options.maxEvals)
       : allIndices;
 
-  const diagnosticsCache = createDiagnosticsCache(220);
+  const diagnosticsCache = createDiagnosticsCache(220, {
+    game: options.game,
+    bonusPolicy: options.bonusPolicy,
+    declaredEras: options.declaredEras,
+  });
   const overlaps: number[] = [];
   const startedAt = Date.now();
 
@@ -405,9 +464,15 @@ function evaluateRollingModel(draws: DrawRecord[], options: CliOptions): MetricS
     const historyStart = Math.max(0, idx - options.rollingWindow);
     const history = draws.slice(historyStart, idx);
     const diagnostics = diagnosticsCache.get(history);
-    const prediction = runPrediction(history, diagnostics);
+    const prediction = runPrediction(history, diagnostics, {
+      settings: {
+        gameId: options.game.id,
+        bonusPolicy: options.bonusPolicy,
+        eraDeclarations: { [options.game.id]: options.declaredEras },
+      },
+    });
     const topSet = prediction.sets[0]?.numbers || [];
-    const actual = toSevenBallTarget(draws[idx]);
+    const actual = toSevenBallTarget(draws[idx], options.bonusPolicy);
     overlaps.push(overlapCount(topSet, actual));
   }
 
@@ -419,8 +484,15 @@ function evaluateSingleProfile(
   profile: WeightProfile,
   baseHistory: DrawRecord[],
   testDraws: DrawRecord[],
+  game: GameDefinition,
+  bonusPolicy: BonusPolicy,
+  declaredEras: GameEra[],
 ): MetricSummary {
-  const diagnosticsCache = createDiagnosticsCache(220);
+  const diagnosticsCache = createDiagnosticsCache(220, {
+    game,
+    bonusPolicy,
+    declaredEras,
+  });
   const history = [...baseHistory];
   const overlaps: number[] = [];
   const startedAt = Date.now();
@@ -443,9 +515,10 @@ function evaluateSingleProfile(
     const rng = createSeededRandom(hashStringToSeed(seed));
     const topSet =
       generateCandidateSets(scores, diagnostics, history, 1, rng, candidateOptions)[0]
-        ?.numbers || scores.slice(0, K).map((score) => score.number);
+        ?.numbers ||
+      scores.slice(0, game.pickCount).map((score) => score.number);
 
-    overlaps.push(overlapCount(topSet, toSevenBallTarget(target)));
+    overlaps.push(overlapCount(topSet, toSevenBallTarget(target, bonusPolicy)));
 
     history.push(target);
     const shouldRefresh =
@@ -475,7 +548,14 @@ function evaluateProfileAblation(
   const testDraws = draws.slice(splitIdx);
   return WEIGHT_PROFILES.map((profile) => ({
     profileName: profile.name,
-    metrics: evaluateSingleProfile(profile, baseHistory, testDraws),
+    metrics: evaluateSingleProfile(
+      profile,
+      baseHistory,
+      testDraws,
+      options.game,
+      options.bonusPolicy,
+      options.declaredEras,
+    ),
   })).sort((a, b) => b.metrics.avgOverlap - a.metrics.avgOverlap);
 }
 
@@ -512,12 +592,24 @@ function main() {
 
   if (!options.filePath && !options.syntheticDraws) {
     printUsage();
-    throw new Error("Provide either a workbook path or --synthetic=<drawCount>.");
+    throw new Error("Provide either a data file path or --synthetic=<drawCount>.");
   }
 
-  const draws = options.syntheticDraws
-    ? buildSyntheticDraws(options.syntheticDraws)
-    : parseDrawsFromWorkbook(options.filePath as string);
+  const loaded = options.syntheticDraws
+    ? null
+    : loadDrawsFromFile(options.filePath as string, options.game, options.dateOrder);
+  const draws =
+    loaded?.draws ?? buildSyntheticDraws(options.syntheticDraws as number, options.game);
+
+  if (options.exportDatasetPath) {
+    writeDrawDataset(
+      options.exportDatasetPath,
+      loaded?.canonicalDraws ?? draws.map((draw) => toCanonicalDraw(draw)),
+      options.game,
+    );
+    console.log(`Wrote ${draws.length} draws to ${options.exportDatasetPath}.`);
+    return;
+  }
 
   if (draws.length < options.minTrain + 20) {
     throw new Error(
@@ -527,7 +619,30 @@ function main() {
     );
   }
 
+  console.log(`Game: ${options.game.name} (${options.game.id})`);
+  console.log(`Bonus policy: ${options.bonusPolicy}`);
   console.log(`Loaded ${draws.length} valid draws.`);
+  const { eras } = detectFormat(draws, options.game, options.declaredEras);
+  console.log(
+    `Eras: ${eras
+      .map(
+        (era) =>
+          `${options.game.pickCount}/${era.poolSize} ${era.startDate}..${era.endDate} (${era.source}, ${pct(era.confidence)})`,
+      )
+      .join("; ")}`,
+  );
+  const calendar = findDrawHoles(draws, options.game);
+  if (calendar.holes.length > 0) {
+    console.log(
+      `Draw calendar: ${calendar.holes.length} holes (${calendar.missingDateCount} scheduled draws missing, ${calendar.skippedDrawNumberCount} draw numbers skipped).`,
+    );
+  }
+  const prizes = prizeAnalysis(draws, options.game, eras[eras.length - 1].poolSize);
+  if (prizes) {
+    console.log(
+      `Prize data: ${prizes.drawsWithPrizes} draws, longest rollover streak ${prizes.rolloverStreaks.longest}, EV per ticket ${prizes.expectedValuePerTicket !== null ? prizes.expectedValuePerTicket.toFixed(2) : "n/a"}.`,
+    );
+  }
   console.log(
     `Config: window=${options.rollingWindow}, step=${options.step}, minTrain=${options.minTrain}, maxEvals=${options.maxEvals}`,
   );
@@ -0,0 +1,244 @@
+/**
+ * Game Definition Registry
+ * Describes each supported lottery (pick count, main pool, bonus pool and
+ * known pool-size eras) so parsing, diagnostics and prediction stop relying
+ * on hard-coded 6/49, 6/52 and 6/58 assumptions.
+ */
+
+// How the bonus ball relates to the main drum:
+//  - "none": the game draws no bonus ball
+//  - "shared-pool": the bonus is drawn from the same drum as the main numbers
+//  - "separate-pool": the bonus comes from its own drum (PowerBall style)
+export type BonusSemantics = "none" | "shared-pool" | "separate-pool";
+
+export interface GameEra {
+  poolSize: number;
+  startDate?: string; // ISO date the pool size took effect, when known
+}
+
+// One prize division: exactly `main` main numbers matched, with or without the bonus.
+export interface PrizeDivisionRule {
+  main: number;
+  bonus: boolean;
+}
+
+export interface GameDefinition {
+  id: string;
+  name: string;
+  pickCount: number;
+  mainPool: number; // current main pool size
+  bonusPool: number | null; // separate drum size; null unless "separate-pool"
+  bonusSemantics: BonusSemantics;
+  eras: GameEra[]; // chronological pool-size changes, oldest first
+  drawDays?: number[]; // weekdays with a scheduled draw (0 = Sunday), when known
+  prizeDivisions?: PrizeDivisionRule[]; // division 1 first, when known
+}
+
+export const DEFAULT_GAME_ID = "sa-lotto";
+
+const SA_LOTTO_ERAS: GameEra[] = [
+  { poolSize: 49 },
+  { poolSize: 52 },
+  { poolSize: 58 },
+];
+
+const SA_LOTTO_DIVISIONS: PrizeDivisionRule[] = [
+  { main: 6, bonus: false },
+  { main: 5, bonus: true },
+  { main: 5, bonus: false },
+  { main: 4, bonus: true },
+  { main: 4, bonus: false },
+  { main: 3, bonus: true },
+  { main: 3, bonus: false },
+  { main: 2, bonus: true },
+];
+
+const POWERBALL_DIVISIONS: PrizeDivisionRule[] = [
+  { main: 5, bonus: true },
+  { main: 5, bonus: false },
+  { main: 4, bonus: true },
+  { main: 4, bonus: false },
+  { main: 3, bonus: true },
+  { main: 3, bonus: false },
+  { main: 2, bonus: true },
+  { main: 1, bonus: true },
+  { main: 0, bonus: true },
+];
+
+const WEDNESDAY_SATURDAY = [3, 6];
+const TUESDAY_FRIDAY = [2, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export const GAME_DEFINITIONS: GameDefinition[] = [
+  {
+    id: "sa-lotto",
+    name: "SA Lotto (6/58 + Bonus)",
+    pickCount: 6,
+    mainPool: 58,
+    bonusPool: null,
+    bonusSemantics: "shared-pool",
+    eras: SA_LOTTO_ERAS,
+    drawDays: WEDNESDAY_SATURDAY,
+    prizeDivisions: SA_LOTTO_DIVISIONS,
+  },
+  {
+    id: "sa-lotto-plus-1",
+    name: "SA Lotto Plus 1 (6/58 + Bonus)",
+    pickCount: 6,
+    mainPool: 58,
+    bonusPool: null,
+    bonusSemantics: "shared-pool",
+    eras: SA_LOTTO_ERAS,
+    drawDays: WEDNESDAY_SATURDAY,
+    prizeDivisions: SA_LOTTO_DIVISIONS,
+  },
+  {
+    id: "sa-lotto-plus-2",
+    name: "SA Lotto Plus 2 (6/58 + Bonus)",
+    pickCount: 6,
+    mainPool: 58,
+    bonusPool: null,
+    bonusSemantics: "shared-pool",
+    eras: SA_LOTTO_ERAS,
+    drawDays: WEDNESDAY_SATURDAY,
+    prizeDivisions: SA_LOTTO_DIVISIONS,
+  },
+  {
+    id: "sa-daily-lotto",
+    name: "SA Daily Lotto (5/36)",
+    pickCount: 5,
+    mainPool: 36,
+    bonusPool: null,
+    bonusSemantics: "none",
+    eras: [{ poolSize: 36 }],
+    drawDays: EVERY_DAY,
+    prizeDivisions: [
+      { main: 5, bonus: false },
+      { main: 4, bonus: false },
+      { main: 3, bonus: false },
+      { main: 2, bonus: false },
+    ],
+  },
+  {
+    id: "sa-powerball",
+    name: "SA PowerBall (5/50 + 1/20)",
+    pickCount: 5,
+    mainPool: 50,
+    bonusPool: 20,
+    bonusSemantics: "separate-pool",
+    eras: [{ poolSize: 50 }],
+    drawDays: TUESDAY_FRIDAY,
+    prizeDivisions: POWERBALL_DIVISIONS,
+  },
+  {
+    id: "sa-powerball-plus",
+    name: "SA PowerBall Plus (5/50 + 1/20)",
+    pickCount: 5,
+    mainPool: 50,
+    bonusPool: 20,
+    bonusSemantics: "separate-pool",
+    eras: [{ poolSize: 50 }],
+    drawDays: TUESDAY_FRIDAY,
+    prizeDivisions: POWERBALL_DIVISIONS,
+  },
+  {
+    id: "lotto-6-45",
+    name: "Lotto 6/45 + Bonus",
+    pickCount: 6,
+    mainPool: 45,
+    bonusPool: null,
+    bonusSemantics: "shared-pool",
+    eras: [{ poolSize: 45 }],
+  },
+  {
+    id: "lotto-7-35",
+    name: "Lotto 7/35 + Bonus",
+    pickCount: 7,
+    mainPool: 35,
+    bonusPool: null,
+    bonusSemantics: "shared-pool",
+    eras: [{ poolSize: 35 }],
+  },
+];
+
+export const DEFAULT_GAME: GameDefinition = GAME_DEFINITIONS[0];
+
+export function getGameDefinition(id?: string | null): GameDefinition {
+  if (!id) return DEFAULT_GAME;
+  return GAME_DEFINITIONS.find((game) => game.id === id) || DEFAULT_GAME;
+}
+
+/** Pool sizes the game has used, ascending. Falls back to the current main pool. */
+export function getEraPoolSizes(game: GameDefinition): number[] {
+  const pools = game.eras
+    .map((era) => era.poolSize)
+    .filter((pool) => Number.isFinite(pool) && pool > 0);
+  if (pools.length === 0) return [game.mainPool];
+  return Array.from(new Set(pools)).sort((a, b) => a - b);
+}
+
+/** Largest main-number value the game has ever allowed. */
+export function getMaxMainBall(game: GameDefinition): number {
+  return Math.max(game.mainPool, ...getEraPoolSizes(game));
+}
+
+/** Largest bonus value the game allows (0 when the game has no bonus). */
+export function getMaxBonusBall(game: GameDefinition): number {
+  if (game.bonusSemantics === "none") return 0;
+  if (game.bonusSemantics === "separate-pool") {
+    return game.bonusPool ?? getMaxMainBall(game);
+  }
+  return getMaxMainBall(game);
+}
+
+// ─── Declared Era Changes ───────────────────────────────────────────
+// Users can pin known pool changes as "YYYY-MM-DD=pool" entries, separated by
+// commas or new lines, e.g. "2017-05-24=52, 2021-01-06=58".
+export interface EraDeclarationParse {
+  eras: GameEra[];
+  errors: string[];
+}
+
+export function parseEraDeclarations(
+  text: string,
+  game: GameDefinition,
+): EraDeclarationParse {
+  const pools = getEraPoolSizes(game);
+  const eras: GameEra[] = [];
+  const errors: string[] = [];
+
+  text
+    .split(/[,\n;]+/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .forEach((entry) => {
+      const match = entry.match(/^(\d{4}-\d{2}-\d{2})\s*=\s*(\d+)$/);
+      if (!match) {
+        errors.push(`"${entry}" is not in YYYY-MM-DD=pool form`);
+        return;
+      }
+      const [, startDate, rawPool] = match;
+      const poolSize = Number(rawPool);
+      if (Number.isNaN(Date.parse(`${startDate}T00:00:00Z`))) {
+        errors.push(`"${startDate}" is not a valid date`);
+        return;
+      }
+      if (!pools.includes(poolSize)) {
+        errors.push(
+          `${poolSize} is not a ${game.name} pool size (expected ${pools.join(", ")})`,
+        );
+        return;
+      }
+      eras.push({ poolSize, startDate });
+    });
+
+  eras.sort((a, b) => (a.startDate as string).localeCompare(b.startDate as string));
+  return { eras, errors };
+}
+
+export function formatEraDeclarations(eras: GameEra[] = []): string {
+  return eras
+    .filter((era) => era.startDate)
+    .map((era) => `${era.startDate}=${era.poolSize}`)
+    .join(", ");
+}
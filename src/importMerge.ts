@@ -0,0 +1,115 @@
+/**
+ * Import Merge
+ * Combines rows from several sheets/files into one chronological history,
+ * de-duplicating by draw and listing conflicts when sources disagree.
+ */
+
+export interface ImportSource<Row> {
+  label: string; // e.g. "results-2019.xlsx › 2019"
+  rows: Row[];
+  gameId?: string; // set when the source declares its game (canonical datasets)
+}
+
+// How the merge sees a row: which draw it is, what it says, and when it happened.
+export interface RowIdentity {
+  keys: string[]; // e.g. draw number; matched against other rows' keys
+  fallbackKeys?: string[]; // e.g. date; matched only when one of the two rows has no keys
+  fingerprint: string; // normalised draw content used to detect disagreement
+  time: number | null; // sort time; null rows go last in source order
+}
+
+export interface MergeConflict<Row> {
+  key: string;
+  kept: { source: string; row: Row };
+  rejected: { source: string; row: Row };
+}
+
+export interface MergeResult<Row> {
+  rows: Row[];
+  duplicateCount: number; // identical repeats dropped silently
+  conflicts: MergeConflict<Row>[];
+}
+
+/**
+ * Earlier sources win when two rows describe the same draw. Identical repeats
+ * are dropped; differing ones are dropped too but reported as conflicts.
+ * `existing` rows (an already-loaded history) are always kept as-is and take
+ * precedence over every source.
+ */
+export function mergeImportSources<Row>(
+  sources: ImportSource<Row>[],
+  identify: (row: Row) => RowIdentity,
+  existing?: ImportSource<Row>,
+): MergeResult<Row> {
+  type Entry = { row: Row; source: string; identity: RowIdentity; order: number };
+  const kept: Entry[] = [];
+  const byKey = new Map<string, Entry>();
+  const byFallbackKey = new Map<string, Entry>();
+  const keylessByFallbackKey = new Map<string, Entry>();
+  const conflicts: MergeConflict<Row>[] = [];
+  let duplicateCount = 0;
+
+  const remember = (entry: Entry) => {
+    kept.push(entry);
+    const { keys, fallbackKeys = [] } = entry.identity;
+    keys.forEach((key) => {
+      if (!byKey.has(key)) byKey.set(key, entry);
+    });
+    fallbackKeys.forEach((key) => {
+      if (!byFallbackKey.has(key)) byFallbackKey.set(key, entry);
+      if (keys.length === 0 && !keylessByFallbackKey.has(key)) keylessByFallbackKey.set(key, entry);
+    });
+  };
+
+  // Keys decide when both rows have them; otherwise the fallback keys do.
+  const findMatch = (identity: RowIdentity): { key: string; entry: Entry } | null => {
+    for (const key of identity.keys) {
+      const entry = byKey.get(key);
+      if (entry) return { key, entry };
+    }
+    const fallback = identity.keys.length > 0 ? keylessByFallbackKey : byFallbackKey;
+    for (const key of identity.fallbackKeys ?? []) {
+      const entry = fallback.get(key);
+      if (entry) return { key, entry };
+    }
+    return null;
+  };
+
+  for (const row of existing?.rows ?? []) {
+    remember({ row, source: existing!.label, identity: identify(row), order: kept.length });
+  }
+
+  for (const source of sources) {
+    for (const row of source.rows) {
+      const identity = identify(row);
+      const match = findMatch(identity);
+      if (match) {
+        const { key: matchedKey, entry: existing } = match;
+        if (existing.identity.fingerprint === identity.fingerprint) {
+          duplicateCount++;
+        } else {
+          conflicts.push({
+            key: matchedKey,
+            kept: { source: existing.source, row: existing.row },
+            rejected: { source: source.label, row },
+          });
+        }
+        continue;
+      }
+
+      remember({ row, source: source.label, identity, order: kept.length });
+    }
+  }
+
+  kept.sort((a, b) => {
+    const ta = a.identity.time;
+    const tb = b.identity.time;
+    if (ta === null || tb === null) {
+      if (ta !== tb) return ta === null ? 1 : -1;
+      return a.order - b.order;
+    }
+    return ta - tb || a.order - b.order;
+  });
+
+  return { rows: kept.map((entry) => entry.row), duplicateCount, conflicts };
+}
@@ -0,0 +1,726 @@
+/**
+ * Ingestion
+ * Turns imported files into DrawRecord[]: file bytes -> row sources -> merged,
+ * validated draws with per-row rejection reasons. No DOM dependencies, so the
+ * browser app and the evaluation CLI read the same file the same way.
+ */
+
+import * as XLSX from "xlsx";
+import { compareDraws, drawIdOf, parseDrawId, type DrawRecord } from "./analysis";
+import {
+  headersWithRole,
+  mappedBallHeaders,
+  type ColumnMapping,
+} from "./columnMapping";
+import {
+  DATE_ORDER_LABELS,
+  inferDateFormat,
+  parseDateValue,
+  toIsoDate,
+  type DateFormatInference,
+  type DateOrder,
+} from "./dateFormat";
+import {
+  datasetEncodingOf,
+  datasetToRows,
+  parseDrawDataset,
+  toCanonicalDraw,
+  type CanonicalDraw,
+} from "./drawDataset";
+import { getMaxBonusBall, getMaxMainBall, type GameDefinition } from "./games";
+import { prizeColumnAssignment, readDrawPrizes } from "./prizeData";
+import {
+  mergeImportSources,
+  type ImportSource,
+  type MergeConflict,
+  type RowIdentity,
+} from "./importMerge";
+
+export type RawRow = Record<string, string>;
+
+export type ImportRejectReason =
+  | "bad-date"
+  | "duplicate-ball"
+  | "out-of-range"
+  | "too-few-numbers"
+  | "bonus-equals-main"
+  | "duplicate-date"
+  | "duplicate-draw";
+
+export interface ImportRowIssue {
+  rowIndex: number; // index into the ingested rows
+  raw: RawRow;
+  reasons: ImportRejectReason[];
+  details: string[];
+}
+
+// What the rows are read against: the game's limits and any explicit column roles.
+export interface IngestionContext {
+  game: GameDefinition;
+  mapping: ColumnMapping | null;
+  dateOrder?: DateOrder; // inferred from the date column when absent
+}
+
+export interface ParsedDraws {
+  draws: DrawRecord[]; // accepted draws, chronological
+  issues: ImportRowIssue[];
+  dateFormat: DateFormatInference; // `order` is the order actually applied
+}
+
+export interface IngestionResult extends ParsedDraws {
+  headers: string[];
+  rows: RawRow[]; // merged rows aligned to `headers`
+  duplicateCount: number;
+  conflicts: MergeConflict<RawRow>[];
+}
+
+// ─── Files ──────────────────────────────────────────────────────────
+
+export function isDelimitedTextName(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return lowerName.endsWith(".csv") || lowerName.endsWith(".txt");
+}
+
+/** One source per CSV/TXT/dataset file, one per sheet for workbooks. */
+export function readFileSources(
+  fileName: string,
+  data: ArrayBuffer | Uint8Array,
+): ImportSource<RawRow>[] {
+  const datasetEncoding = datasetEncodingOf(fileName);
+  if (datasetEncoding) {
+    const dataset = parseDrawDataset(new TextDecoder().decode(data), datasetEncoding);
+    return [
+      { label: fileName, rows: datasetToRows(dataset), gameId: dataset.gameId },
+    ];
+  }
+  if (isDelimitedTextName(fileName)) {
+    return [
+      { label: fileName, rows: parseDelimitedText(new TextDecoder().decode(data)) },
+    ];
+  }
+
+  const workbook = XLSX.read(data, { type: "array" });
+  return workbook.SheetNames.map((sheetName) => ({
+    label: workbook.SheetNames.length > 1 ? `${fileName} › ${sheetName}` : fileName,
+    rows: XLSX.utils.sheet_to_json<RawRow>(workbook.Sheets[sheetName], {
+      raw: false,
+      defval: "",
+    }),
+  }));
+}
+
+// A browser File; anything else that hands over its bytes the same way will do.
+export interface UploadedFile {
+  name: string;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/** Non-empty sources of every uploaded file, in upload order. */
+export async function readUploadedFiles(files: UploadedFile[]): Promise<{
+  sources: ImportSource<RawRow>[];
+  hasMultiSheetWorkbook: boolean;
+}> {
+  const sources: ImportSource<RawRow>[] = [];
+  let hasMultiSheetWorkbook = false;
+  for (const file of files) {
+    const fileSources = readFileSources(file.name, await file.arrayBuffer());
+    if (fileSources.length > 1) hasMultiSheetWorkbook = true;
+    sources.push(...fileSources.filter((source) => source.rows.length > 0));
+  }
+  return { sources, hasMultiSheetWorkbook };
+}
+
+// ─── Delimited Text ─────────────────────────────────────────────────
+
+export function parseDelimitedText(text: string): RawRow[] {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsvRows(text, delimiter);
+  if (rows.length < 2) return [];
+
+  const headerRowIndex = rows.findIndex((r) =>
+    r.some((cell) => cell.trim() !== ""),
+  );
+  if (headerRowIndex < 0 || headerRowIndex >= rows.length - 1) return [];
+
+  const headers = makeUniqueHeaders(
+    rows[headerRowIndex].map((h, i) => sanitizeHeader(h, i)),
+  );
+  const result: RawRow[] = [];
+
+  for (let r = headerRowIndex + 1; r < rows.length; r++) {
+    const cells = rows[r];
+    if (cells.every((c) => c.trim() === "")) continue;
+
+    const record: RawRow = {};
+    const maxCols = Math.max(headers.length, cells.length);
+    for (let c = 0; c < maxCols; c++) {
+      const header = headers[c] || `Column${c + 1}`;
+      record[header] = (cells[c] ?? "").trim();
+    }
+    result.push(record);
+  }
+
+  return result;
+}
+
+function detectDelimiter(text: string): string {
+  const normalized = text.replace(/^\uFEFF/, "");
+  const lines = normalized
+    .split(/\r\n|\n|\r/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0)
+    .slice(0, 5);
+
+  if (lines.length === 0) return ",";
+
+  const candidates = [",", ";", "\t", "|"];
+  let bestDelimiter = ",";
+  let bestScore = -1;
+
+  for (const delimiter of candidates) {
+    const counts = lines.map((line) => countFieldsForDelimiter(line, delimiter));
+    const score = counts.reduce((acc, c) => acc + c, 0);
+    const hasStructuredColumns = counts.some((c) => c > 1);
+
+    if (hasStructuredColumns && score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  return bestDelimiter;
+}
+
+function countFieldsForDelimiter(line: string, delimiter: string): number {
+  let fields = 1;
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    const next = line[i + 1];
+
+    if (ch === '"') {
+      if (inQuotes && next === '"') {
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+
+    if (!inQuotes && ch === delimiter) fields++;
+  }
+
+  return fields;
+}
+
+function makeUniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((h, i) => {
+    const base = h || `Column${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const normalized = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushField = () => {
+    row.push(field);
+    field = "";
+  };
+
+  const pushRow = () => {
+    pushField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < normalized.length; i++) {
+    const ch = normalized[i];
+    const next = normalized[i + 1];
+
+    if (ch === '"') {
+      if (inQuotes && next === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+
+    if (!inQuotes && ch === delimiter) {
+      pushField();
+      continue;
+    }
+
+    if (!inQuotes && (ch === "\n" || ch === "\r")) {
+      if (ch === "\r" && next === "\n") i++;
+      pushRow();
+      continue;
+    }
+
+    field += ch;
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    pushRow();
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((c) => c === "")) {
+    rows.pop();
+  }
+
+  return rows;
+}
+
+function sanitizeHeader(header: string, index: number): string {
+  const clean = header.trim();
+  if (!clean) return `Column${index + 1}`;
+  return clean.replace(/^\uFEFF/, "");
+}
+
+// ─── Header Heuristics ──────────────────────────────────────────────
+
+export function isDateHeader(header: string): boolean {
+  const h = header.toLowerCase();
+  return /\bdate\b/.test(h) || h.includes("drawdate");
+}
+
+export function isBonusHeader(header: string): boolean {
+  return /\bbonus\b/.test(header.toLowerCase());
+}
+
+export function isDrawNumberHeader(header: string): boolean {
+  return /\bdraw\s*(no|number|#)|\bdraw(no|number)\b/.test(header.toLowerCase());
+}
+
+export function isMainNumberHeader(header: string): boolean {
+  if (isDateHeader(header) || isBonusHeader(header)) return false;
+  const normalized = header.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return (
+    /^(number|num|n|ball)\d+$/.test(normalized) ||
+    /^winningnumber\d*$/.test(normalized) ||
+    /^main\d+$/.test(normalized)
+  );
+}
+
+function extractHeaderNumberIndex(header: string): number {
+  const match = header.match(/\d+/);
+  return match ? parseInt(match[0], 10) : Number.MAX_SAFE_INTEGER;
+}
+
+function shouldSkipAsMetadataKey(key: string): boolean {
+  const h = key.toLowerCase();
+  return (
+    /\b(day|jackpot|outcome|prize|payout|id|result|ticket|winners?|rollover)\b/.test(h) ||
+    /\bdiv(ision)?\s*\.?\s*\d/.test(h) ||
+    /\bdraw(no|number)?\b/.test(h)
+  );
+}
+
+// Mapped roles win over header heuristics once the user has mapped columns.
+export function isBonusColumn(header: string, mapping: ColumnMapping | null): boolean {
+  if (mapping) return mapping[header]?.role === "bonus";
+  return isBonusHeader(header);
+}
+
+export function getDateHeader(
+  headers: string[],
+  mapping: ColumnMapping | null,
+): string | undefined {
+  if (mapping) {
+    return headersWithRole(mapping, "date").find((h) => headers.includes(h));
+  }
+  return headers.find((h) => isDateHeader(h));
+}
+
+export function getBonusHeader(
+  headers: string[],
+  mapping: ColumnMapping | null,
+): string | undefined {
+  return headers.find((h) => isBonusColumn(h, mapping));
+}
+
+export function getDrawNumberHeader(
+  headers: string[],
+  mapping: ColumnMapping | null,
+): string | undefined {
+  if (mapping) {
+    return headersWithRole(mapping, "draw-number").find((h) => headers.includes(h));
+  }
+  return headers.find((h) => isDrawNumberHeader(h));
+}
+
+export function getMainNumberHeaders(
+  headers: string[],
+  { game, mapping }: IngestionContext,
+): string[] {
+  if (mapping) {
+    return mappedBallHeaders(mapping)
+      .filter((h) => headers.includes(h))
+      .slice(0, game.pickCount);
+  }
+  const candidates = headers
+    .filter((h) => isMainNumberHeader(h))
+    .map((header, pos) => ({
+      header,
+      pos,
+      order: extractHeaderNumberIndex(header),
+    }))
+    .sort((a, b) => a.order - b.order || a.pos - b.pos)
+    .map((x) => x.header);
+
+  if (candidates.length >= game.pickCount) return candidates.slice(0, game.pickCount);
+  return candidates;
+}
+
+export function findDateValue(
+  row: RawRow,
+  mapping: ColumnMapping | null,
+): string | null {
+  const keys = Object.keys(row);
+  const dateKey =
+    getDateHeader(keys, mapping) ||
+    keys.find((k) => k.toLowerCase().includes("drawdate")) ||
+    keys[0];
+  return row[dateKey];
+}
+
+export function readDrawId(
+  row: RawRow,
+  mapping: ColumnMapping | null,
+): Pick<DrawRecord, "drawNumber" | "drawLabel"> {
+  const header = getDrawNumberHeader(Object.keys(row), mapping);
+  return header ? parseDrawId(row[header]) : {};
+}
+
+export function rowDate(row: RawRow, ctx: IngestionContext): Date | null {
+  return parseDateValue(findDateValue(row, ctx.mapping), ctx.dateOrder);
+}
+
+/** One date order for the whole column; an explicit `ctx.dateOrder` overrides it. */
+function resolveDateFormat(rows: RawRow[], ctx: IngestionContext): DateFormatInference {
+  const inferred = inferDateFormat(rows.map((row) => findDateValue(row, ctx.mapping)));
+  return ctx.dateOrder ? { ...inferred, order: ctx.dateOrder } : inferred;
+}
+
+/** Starting point for the column-mapping wizard, built from the header heuristics. */
+export function guessColumnMapping(
+  headers: string[],
+  game: GameDefinition,
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const dateHeader = headers.find((h) => isDateHeader(h));
+  const bonusHeader = headers.find((h) => isBonusHeader(h));
+  const ballHeaders = getMainNumberHeaders(headers, { game, mapping: null });
+
+  headers.forEach((header) => {
+    if (header === dateHeader) {
+      mapping[header] = { role: "date" };
+    } else if (header === bonusHeader) {
+      mapping[header] = { role: "bonus" };
+    } else if (ballHeaders.includes(header)) {
+      mapping[header] = { role: "ball", ball: ballHeaders.indexOf(header) + 1 };
+    } else if (isDrawNumberHeader(header)) {
+      mapping[header] = { role: "draw-number" };
+    } else {
+      mapping[header] = prizeColumnAssignment(header) ?? { role: "ignore" };
+    }
+  });
+  return mapping;
+}
+
+// ─── Row Validation ─────────────────────────────────────────────────
+
+function parseBallValue(value: string | undefined, maxBall: number): number | null {
+  const n = parseInt(String(value ?? "").trim(), 10);
+  if (!Number.isFinite(n)) return null;
+  if (n < 1 || n > maxBall) return null;
+  return n;
+}
+
+function collectMainNumbersFromRowFallback(row: RawRow, game: GameDefinition): number[] {
+  const values: number[] = [];
+  for (const [key, rawVal] of Object.entries(row)) {
+    if (isDateHeader(key) || isBonusHeader(key)) continue;
+    if (shouldSkipAsMetadataKey(key)) continue;
+    const parsed = parseBallValue(rawVal, getMaxMainBall(game));
+    if (parsed !== null) values.push(parsed);
+  }
+  return values.slice(0, game.pickCount);
+}
+
+/** Reads one row as a draw and lists every reason it cannot be used. */
+export function validateRow(
+  row: RawRow,
+  mainNumberHeaders: string[],
+  { game, mapping, dateOrder }: IngestionContext,
+): { draw: DrawRecord; reasons: ImportRejectReason[]; details: string[] } {
+  const pickCount = game.pickCount;
+  const maxMainBall = getMaxMainBall(game);
+  const maxBonusBall = getMaxBonusBall(game);
+  const reasons: ImportRejectReason[] = [];
+  const details: string[] = [];
+  const addReason = (reason: ImportRejectReason, detail: string) => {
+    if (!reasons.includes(reason)) reasons.push(reason);
+    details.push(detail);
+  };
+
+  const dateVal = findDateValue(row, mapping) || "";
+  const parsedDate = parseDateValue(dateVal, dateOrder);
+  if (!parsedDate) {
+    addReason(
+      "bad-date",
+      dateVal.trim()
+        ? `Date "${dateVal}" is not recognised as ${DATE_ORDER_LABELS[dateOrder ?? "dmy"]} or a named month`
+        : "Missing date",
+    );
+  }
+  const date = parsedDate ? toIsoDate(parsedDate) : dateVal;
+
+  const numbers: number[] = [];
+  let outOfRangeCount = 0;
+  if (mainNumberHeaders.length > 0) {
+    for (const header of mainNumberHeaders) {
+      const n = parseInt(String(row[header] ?? "").trim(), 10);
+      if (!Number.isFinite(n)) continue;
+      if (n < 1 || n > maxMainBall) {
+        outOfRangeCount++;
+        addReason("out-of-range", `${header} = ${n} is outside 1-${maxMainBall}`);
+        continue;
+      }
+      numbers.push(n);
+    }
+  } else if (!mapping) {
+    numbers.push(...collectMainNumbersFromRowFallback(row, game));
+  }
+  // An explicit mapping is trusted as-is; heuristics only fill gaps without one.
+  if (!mapping && numbers.length + outOfRangeCount < pickCount) {
+    const fallback = collectMainNumbersFromRowFallback(row, game).filter(
+      (n) => !numbers.includes(n),
+    );
+    numbers.push(...fallback.slice(0, pickCount - numbers.length - outOfRangeCount));
+  }
+
+  const repeated = numbers.filter((n, idx) => numbers.indexOf(n) !== idx);
+  if (repeated.length > 0) {
+    addReason(
+      "duplicate-ball",
+      `Ball ${Array.from(new Set(repeated)).join(", ")} appears more than once`,
+    );
+  }
+  if (numbers.length + outOfRangeCount < pickCount) {
+    addReason(
+      "too-few-numbers",
+      `Found ${numbers.length + outOfRangeCount} of ${pickCount} main numbers`,
+    );
+  }
+
+  let bonus = 0;
+  const bonusKey = getBonusHeader(Object.keys(row), mapping);
+  if (bonusKey && game.bonusSemantics !== "none") {
+    const n = parseInt(String(row[bonusKey] ?? "").trim(), 10);
+    if (Number.isFinite(n)) {
+      if (n < 1 || n > maxBonusBall) {
+        addReason("out-of-range", `Bonus = ${n} is outside 1-${maxBonusBall}`);
+      } else {
+        bonus = n;
+      }
+    }
+  }
+  if (game.bonusSemantics === "shared-pool" && bonus > 0 && numbers.includes(bonus)) {
+    addReason("bonus-equals-main", `Bonus ${bonus} repeats a main number`);
+  }
+
+  const prizes = readDrawPrizes(row, mapping);
+  return {
+    draw: {
+      date,
+      numbers: [...numbers].sort((a, b) => a - b),
+      bonus,
+      ...readDrawId(row, mapping),
+      ...(prizes ? { prizes } : {}),
+    },
+    reasons,
+    details,
+  };
+}
+
+/**
+ * Validates every row. Later rows repeating an accepted draw id are rejected;
+ * when either row lacks a draw id, repeating an accepted date is enough.
+ */
+export function parseDrawRows(
+  rows: RawRow[],
+  headers: string[],
+  ctx: IngestionContext,
+): ParsedDraws {
+  const dateFormat = resolveDateFormat(rows, ctx);
+  const rowCtx = { ...ctx, dateOrder: dateFormat.order };
+  const mainNumberHeaders = getMainNumberHeaders(headers, rowCtx);
+  const accepted: DrawRecord[] = [];
+  const issues: ImportRowIssue[] = [];
+  const rowByDate = new Map<string, number>();
+  const unnumberedRowByDate = new Map<string, number>();
+  const rowByDrawId = new Map<string, number>();
+
+  rows.forEach((row, rowIndex) => {
+    const { draw, reasons, details } = validateRow(row, mainNumberHeaders, rowCtx);
+    const drawId = drawIdOf(draw);
+    const sameDrawId = drawId !== null ? rowByDrawId.get(drawId) : undefined;
+    const firstRow =
+      sameDrawId ??
+      (drawId !== null ? unnumberedRowByDate : rowByDate).get(draw.date);
+    if (reasons.length === 0 && firstRow !== undefined) {
+      if (sameDrawId !== undefined) {
+        reasons.push("duplicate-draw");
+        details.push(`Draw ${drawId} already used by row ${firstRow + 1}`);
+      } else {
+        reasons.push("duplicate-date");
+        details.push(`Date ${draw.date} already used by row ${firstRow + 1}`);
+      }
+    }
+    if (reasons.length > 0) {
+      issues.push({ rowIndex, raw: row, reasons, details });
+      return;
+    }
+    if (drawId !== null) rowByDrawId.set(drawId, rowIndex);
+    else if (!unnumberedRowByDate.has(draw.date)) unnumberedRowByDate.set(draw.date, rowIndex);
+    if (!rowByDate.has(draw.date)) rowByDate.set(draw.date, rowIndex);
+    accepted.push(draw);
+  });
+
+  const draws = accepted.sort(compareDraws);
+  return { draws, issues, dateFormat };
+}
+
+// ─── Merging Sources ────────────────────────────────────────────────
+
+export function describeDraw(draw: DrawRecord): string {
+  const drawId = drawIdOf(draw);
+  const bonus = draw.bonus > 0 ? ` + ${draw.bonus}` : "";
+  return `${draw.date}${drawId !== null ? ` #${drawId}` : ""} · ${draw.numbers.join(", ")}${bonus}`;
+}
+
+// Two numbered rows match by draw id (several draws can share a date); a row
+// without a draw id matches any row on its date. The fingerprint leaves the id
+// out so a numbered and an unnumbered copy of one draw agree.
+function identifyRow(
+  row: RawRow,
+  mainNumberHeaders: string[],
+  ctx: IngestionContext,
+): RowIdentity {
+  const { draw } = validateRow(row, mainNumberHeaders, ctx);
+  const drawId = drawIdOf(draw);
+  const time = parseDateValue(draw.date)?.getTime() ?? null;
+  return {
+    keys: drawId !== null ? [`Draw #${drawId}`] : [],
+    fallbackKeys: time !== null ? [draw.date] : [],
+    fingerprint: describeDraw({ date: draw.date, numbers: draw.numbers, bonus: draw.bonus }),
+    time,
+  };
+}
+
+/** Union of the sources' columns in first-seen order. */
+export function collectSourceHeaders(sources: ImportSource<RawRow>[]): string[] {
+  const headers: string[] = [];
+  sources.forEach((source) =>
+    source.rows.forEach((row) =>
+      Object.keys(row).forEach((header) => {
+        if (!headers.includes(header)) headers.push(header);
+      }),
+    ),
+  );
+  return headers;
+}
+
+// Every row carries every column so the table and session restore see one shape.
+function alignSourceRows(
+  source: ImportSource<RawRow>,
+  headers: string[],
+): ImportSource<RawRow> {
+  return {
+    ...source,
+    rows: source.rows.map((row) => {
+      const record: RawRow = {};
+      headers.forEach((header) => (record[header] = row[header] ?? ""));
+      return record;
+    }),
+  };
+}
+
+/**
+ * Merges the sources into one chronological, de-duplicated history and reads
+ * its draws. `existing` is an already-loaded history that new rows append to.
+ */
+export function ingestSources(
+  sources: ImportSource<RawRow>[],
+  ctx: IngestionContext,
+  existing?: ImportSource<RawRow>,
+): IngestionResult {
+  const all = existing ? [existing, ...sources] : sources;
+  const headers = collectSourceHeaders(all);
+  // Rows are matched by date, so the column's order is settled before merging.
+  const dateOrder = resolveDateFormat(
+    all.flatMap((source) => source.rows),
+    ctx,
+  ).order;
+  const rowCtx = { ...ctx, dateOrder };
+  const mainNumberHeaders = getMainNumberHeaders(headers, rowCtx);
+  const merged = mergeImportSources(
+    sources.map((source) => alignSourceRows(source, headers)),
+    (row) => identifyRow(row, mainNumberHeaders, rowCtx),
+    existing ? alignSourceRows(existing, headers) : undefined,
+  );
+  return {
+    headers,
+    rows: merged.rows,
+    duplicateCount: merged.duplicateCount,
+    conflicts: merged.conflicts,
+    ...parseDrawRows(merged.rows, headers, rowCtx),
+  };
+}
+
+// ─── Export ─────────────────────────────────────────────────────────
+
+/**
+ * Every accepted row as a canonical draw, non-structural columns kept as
+ * metadata. Rows named in `issues` are left out.
+ */
+export function canonicalDrawsOf(
+  rows: RawRow[],
+  headers: string[],
+  issues: ImportRowIssue[],
+  ctx: IngestionContext,
+): CanonicalDraw[] {
+  const rejectedRows = new Set(issues.map((issue) => issue.rowIndex));
+  const mainNumberHeaders = getMainNumberHeaders(headers, ctx);
+  const structural = new Set(
+    [
+      ...mainNumberHeaders,
+      getDateHeader(headers, ctx.mapping),
+      getBonusHeader(headers, ctx.mapping),
+      getDrawNumberHeader(headers, ctx.mapping),
+    ].filter((header): header is string => header !== undefined),
+  );
+  const draws: CanonicalDraw[] = [];
+  rows.forEach((row, rowIndex) => {
+    if (rejectedRows.has(rowIndex)) return;
+    const { draw } = validateRow(row, mainNumberHeaders, ctx);
+    const metadata: Record<string, string> = {};
+    headers.forEach((header) => {
+      const value = String(row[header] ?? "").trim();
+      if (!structural.has(header) && value) metadata[header] = value;
+    });
+    draws.push(toCanonicalDraw(draw, metadata));
+  });
+  return draws;
+}
@@ -1,6 +1,102 @@
-import * as XLSX from "xlsx";
-import { type DrawRecord, runFullDiagnostics, getGroup } from "./analysis";
 import {
+  type BonusPolicy,
+  type DrawRecord,
+  BONUS_POLICIES,
+  FAMILY_SIGNIFICANCE,
+  runFullDiagnostics,
+  compareDraws,
+  drawBalls,
+  featureTestsOf,
+  drawIdOf,
+  getGroup,
+  detectFormat,
+  layoutBallCount,
+  layoutForGame,
+  pairIndex,
+  type GapResult,
+  resolveBonusPolicy,
+} from "./analysis";
+import {
+  decodeAssignment,
+  encodeAssignment,
+  headerSignature,
+  validateColumnMapping,
+  type ColumnMapping,
+  type ColumnMappingPreset,
+} from "./columnMapping";
+import {
+  DATE_ORDERS,
+  DATE_ORDER_LABELS,
+  parseDateValue,
+  toIsoDate,
+  type DateFormatInference,
+  type DateOrder,
+} from "./dateFormat";
+import { WEEKDAY_NAMES, type DrawCalendarReport } from "./drawCalendar";
+import {
+  MAX_STORED_PREDICTIONS,
+  createDatasetRecord,
+  deleteDataset,
+  duplicateDataset,
+  listDatasets,
+  loadDatasetRows,
+  saveDataset,
+  type DatasetRecord,
+  type PersistedLearningState,
+} from "./datasetStore";
+import {
+  applyRowEdit,
+  commitRowEdit,
+  createEditHistory,
+  redoRowEdit,
+  undoRowEdit,
+  type EditHistory,
+  type RowEdit,
+} from "./editHistory";
+import {
+  DatasetFormatError,
+  createDrawDataset,
+  datasetColumnMapping,
+  serializeDrawDataset,
+  type DatasetEncoding,
+} from "./drawDataset";
+import type { ImportSource, MergeConflict } from "./importMerge";
+import {
+  canonicalDrawsOf,
+  collectSourceHeaders,
+  describeDraw,
+  getBonusHeader,
+  getDateHeader,
+  getDrawNumberHeader,
+  getMainNumberHeaders,
+  guessColumnMapping,
+  ingestSources,
+  isBonusColumn,
+  parseDrawRows,
+  readDrawId,
+  readUploadedFiles,
+  rowDate,
+  validateRow,
+  type ImportRejectReason,
+  type ImportRowIssue,
+  type IngestionContext,
+  type ParsedDraws,
+} from "./ingestion";
+import {
+  DEFAULT_GAME,
+  DEFAULT_GAME_ID,
+  GAME_DEFINITIONS,
+  formatEraDeclarations,
+  getEraPoolSizes,
+  getGameDefinition,
+  getMaxBonusBall,
+  getMaxMainBall,
+  parseEraDeclarations,
+  type GameDefinition,
+  type GameEra,
+} from "./games";
+import {
+  diagnosticsOptionsFromSettings,
   refreshPredictionCandidates,
   runPrediction,
   type ModelSettings,
@@ -8,6 +104,7 @@ import {
   type PredictionOutput,
   type WeightProfile,
 } from "./predictor";
+import { readDrawPrizes, type PrizeAnalysis } from "./prizeData";
 import type {
   PredictionWorkerRequest,
   PredictionWorkerResponse,
@@ -19,25 +116,59 @@ interface LottoResult {
 
 type DiagnosticsSnapshot = ReturnType<typeof runFullDiagnostics>;
 
-interface PersistedLearningState {
-  version: 1;
-  updatedAt: string;
-  drawCount: number;
-  poolSize: number;
-  dataSignature: string;
-  score: number;
-  bestProfile: WeightProfile;
-  profileOverlaps: Record<string, number>;
-}
+// Replace loads a new history; append merges new draws into the loaded one.
+type ImportMode = "replace" | "append";
 
 class LottoViewer {
-  private static readonly MAX_ALLOWED_BALL = 58;
   private static readonly MIN_PREDICTION_DRAWS = 120;
+  private static readonly RANGE_CLASS_BY_GROUP = {
+    Low: "cell-low-range",
+    Medium: "cell-med-range",
+    MedHigh: "cell-med-high-range",
+    High: "cell-high-range",
+  } as const;
+  private static readonly IMPORT_REASON_LABELS: Record<
+    ImportRejectReason,
+    string
+  > = {
+    "bad-date": "Bad date",
+    "duplicate-ball": "Duplicate ball",
+    "out-of-range": "Out of range",
+    "too-few-numbers": "Too few numbers",
+    "bonus-equals-main": "Bonus equals a main number",
+    "duplicate-date": "Duplicate date",
+    "duplicate-draw": "Duplicate draw number",
+  };
+  private static readonly BONUS_POLICY_LABELS: Record<BonusPolicy, string> = {
+    exclude: "Excluded",
+    include: "Included with main numbers",
+    separate: "Analysed separately",
+  };
+  // Shown beside every statistic whose ball set depends on the bonus policy.
+  private static readonly BONUS_POLICY_NOTES: Record<BonusPolicy, string> = {
+    exclude: "main numbers only",
+    include: "bonus counted with main numbers",
+    separate: "main numbers only",
+  };
   private rawData: LottoResult[] = [];
   private filteredData: LottoResult[] = [];
   private headers: string[] = [];
   private drawRecords: DrawRecord[] = [];
-  private poolSize: number = 52;
+  private activeGame: GameDefinition = DEFAULT_GAME;
+  private eraDeclarations: Record<string, GameEra[]> = {};
+  private importIssues: ImportRowIssue[] = [];
+  private columnMapping: ColumnMapping | null = null;
+  private dateFormat: DateFormatInference | null = null;
+  private confirmedDateOrder: DateOrder | null = null;
+  private pendingImportSources: ImportSource<LottoResult>[] = [];
+  private pendingImportMode: ImportMode = "replace";
+  private mergeConflicts: MergeConflict<LottoResult>[] = [];
+  private mergeSummary: string = "";
+  private editingImportRow: number | null = null;
+  private selectedPair: { i: number; j: number } | null = null;
+  private selectedGapNumber: number | null = null;
+  private editingTableRow: LottoResult | null = null;
+  private poolSize: number = DEFAULT_GAME.mainPool;
   private predictionTimer: number | null = null;
   private workerFirstResponseTimer: number | null = null;
   private workerFirstResponseRequestId: number | null = null;
@@ -48,6 +179,8 @@ class LottoViewer {
   private latestDiagnosticsSnapshot: DiagnosticsSnapshot | null = null;
   private activeWarmLearningState: PersistedLearningState | null = null;
   private activePredictionAction: "idle" | "training" | "refreshing" = "idle";
+  private datasets: DatasetRecord[] = [];
+  private activeDataset: DatasetRecord | null = null;
 
   // DOM Elements
   private fileInput = document.getElementById("fileInput") as HTMLInputElement;
@@ -62,6 +195,24 @@ class LottoViewer {
   private dateFrom = document.getElementById("dateFrom") as HTMLInputElement;
   private dateTo = document.getElementById("dateTo") as HTMLInputElement;
   private sortOrder = document.getElementById("sortOrder") as HTMLSelectElement;
+  private gameSelect = document.getElementById(
+    "gameSelect",
+  ) as HTMLSelectElement | null;
+  private datasetSelect = document.getElementById(
+    "datasetSelect",
+  ) as HTMLSelectElement | null;
+  private newDatasetBtn = document.getElementById(
+    "newDatasetBtn",
+  ) as HTMLButtonElement | null;
+  private renameDatasetBtn = document.getElementById(
+    "renameDatasetBtn",
+  ) as HTMLButtonElement | null;
+  private duplicateDatasetBtn = document.getElementById(
+    "duplicateDatasetBtn",
+  ) as HTMLButtonElement | null;
+  private deleteDatasetBtn = document.getElementById(
+    "deleteDatasetBtn",
+  ) as HTMLButtonElement | null;
   private loader = document.getElementById("loader") as HTMLElement;
   private noData = document.getElementById("noData") as HTMLDivElement;
   private rerunBtn = document.getElementById(
@@ -111,10 +262,17 @@ class LottoViewer {
     document.getElementById("num4") as HTMLInputElement,
     document.getElementById("num5") as HTMLInputElement,
     document.getElementById("num6") as HTMLInputElement,
+    document.getElementById("num7") as HTMLInputElement,
   ];
+  private manualBonusGroup = document.getElementById(
+    "manualBonusGroup",
+  ) as HTMLElement | null;
   private manualBonus = document.getElementById(
     "manualBonus",
   ) as HTMLInputElement;
+  private manualDate = document.getElementById(
+    "manualDate",
+  ) as HTMLInputElement | null;
   private addManualBtn = document.getElementById(
     "addManualBtn",
   ) as HTMLButtonElement;
@@ -127,6 +285,18 @@ class LottoViewer {
   private exportCsvBtn = document.getElementById(
     "exportCsvBtn",
   ) as HTMLButtonElement | null;
+  private undoEditBtn = document.getElementById(
+    "undoEditBtn",
+  ) as HTMLButtonElement | null;
+  private redoEditBtn = document.getElementById(
+    "redoEditBtn",
+  ) as HTMLButtonElement | null;
+  private exportDatasetJsonBtn = document.getElementById(
+    "exportDatasetJsonBtn",
+  ) as HTMLButtonElement | null;
+  private exportDatasetNdjsonBtn = document.getElementById(
+    "exportDatasetNdjsonBtn",
+  ) as HTMLButtonElement | null;
   private applyModelSettingsBtn = document.getElementById(
     "applyModelSettingsBtn",
   ) as HTMLButtonElement | null;
@@ -142,6 +312,93 @@ class LottoViewer {
   private settingTargetLatencyMs = document.getElementById(
     "settingTargetLatencyMs",
   ) as HTMLInputElement | null;
+  private openColumnMappingBtn = document.getElementById(
+    "openColumnMappingBtn",
+  ) as HTMLButtonElement | null;
+  private appendDrawsBtn = document.getElementById(
+    "appendDrawsBtn",
+  ) as HTMLButtonElement | null;
+  private appendFileInput = document.getElementById(
+    "appendFileInput",
+  ) as HTMLInputElement | null;
+  private sheetPickerPanel = document.getElementById(
+    "sheetPickerPanel",
+  ) as HTMLElement | null;
+  private sheetPickerContent = document.getElementById(
+    "sheetPickerContent",
+  ) as HTMLElement | null;
+  private importSelectedSheetsBtn = document.getElementById(
+    "importSelectedSheetsBtn",
+  ) as HTMLButtonElement | null;
+  private cancelSheetPickerBtn = document.getElementById(
+    "cancelSheetPickerBtn",
+  ) as HTMLButtonElement | null;
+  private mergeConflictsPanel = document.getElementById(
+    "mergeConflictsPanel",
+  ) as HTMLElement | null;
+  private mergeConflictsSummary = document.getElementById(
+    "mergeConflictsSummary",
+  ) as HTMLElement | null;
+  private mergeConflictsContent = document.getElementById(
+    "mergeConflictsContent",
+  ) as HTMLElement | null;
+  private dateFormatPanel = document.getElementById(
+    "dateFormatPanel",
+  ) as HTMLElement | null;
+  private dateFormatSummary = document.getElementById(
+    "dateFormatSummary",
+  ) as HTMLElement | null;
+  private dateOrderSelect = document.getElementById(
+    "dateOrderSelect",
+  ) as HTMLSelectElement | null;
+  private confirmDateOrderBtn = document.getElementById(
+    "confirmDateOrderBtn",
+  ) as HTMLButtonElement | null;
+  private columnMappingPanel = document.getElementById(
+    "columnMappingPanel",
+  ) as HTMLElement | null;
+  private columnMappingContent = document.getElementById(
+    "columnMappingContent",
+  ) as HTMLElement | null;
+  private applyColumnMappingBtn = document.getElementById(
+    "applyColumnMappingBtn",
+  ) as HTMLButtonElement | null;
+  private saveColumnPresetBtn = document.getElementById(
+    "saveColumnPresetBtn",
+  ) as HTMLButtonElement | null;
+  private cancelColumnMappingBtn = document.getElementById(
+    "cancelColumnMappingBtn",
+  ) as HTMLButtonElement | null;
+  private importReportPanel = document.getElementById(
+    "importReportPanel",
+  ) as HTMLElement | null;
+  private importReportSummary = document.getElementById(
+    "importReportSummary",
+  ) as HTMLElement | null;
+  private importReportContent = document.getElementById(
+    "importReportContent",
+  ) as HTMLElement | null;
+  private exportImportReportBtn = document.getElementById(
+    "exportImportReportBtn",
+  ) as HTMLButtonElement | null;
+  private topPairsContent = document.getElementById(
+    "topPairsContent",
+  ) as HTMLElement | null;
+  private gapSurvivalContent = document.getElementById(
+    "gapSurvivalContent",
+  ) as HTMLElement | null;
+  private settingBonusPolicy = document.getElementById(
+    "settingBonusPolicy",
+  ) as HTMLSelectElement | null;
+  private settingEraDates = document.getElementById(
+    "settingEraDates",
+  ) as HTMLInputElement | null;
+  private settingExcludeLagAcrossHoles = document.getElementById(
+    "settingExcludeLagAcrossHoles",
+  ) as HTMLInputElement | null;
+  private settingSimulateNull = document.getElementById(
+    "settingSimulateNull",
+  ) as HTMLInputElement | null;
   private settingFastMode = document.getElementById(
     "settingFastMode",
   ) as HTMLInputElement | null;
@@ -191,20 +448,27 @@ class LottoViewer {
     "settingGeneticPopulation",
   ) as HTMLInputElement | null;
 
+  // Session keys and the learning-state key predate the dataset store; read once to migrate.
   private STORAGE_KEY = "lotto_viewer_data";
   private MODEL_SETTINGS_KEY = "lotto_model_settings_v1";
   private LEARNING_STATE_KEY = "lotto_learning_state_v1";
+  private COLUMN_MAPPING_KEY = "lotto_viewer_column_mapping";
+  private DATE_ORDER_KEY = "lotto_viewer_date_order";
+  private COLUMN_PRESETS_KEY = "lotto_column_presets_v1";
+  private ACTIVE_DATASET_KEY = "lotto_active_dataset_v1";
 
   constructor() {
     this.initPredictionWorker();
     this.initEvents();
     this.setTrainingControls(false);
     this.setDiagnosticsExportEnabled(false);
+    this.populateGameSelect();
     this.loadModelSettingsFromStorage();
+    this.syncControlsForGame();
     this.setPredictionStatus("Load enough draws to start training.", {
       showProgress: false,
     });
-    this.loadFromSessionStorage();
+    void this.loadDatasets();
   }
 
   private initPredictionWorker() {
@@ -347,14 +611,39 @@ class LottoViewer {
     });
   }
 
+  // Unset means "use the game's natural treatment".
+  private getRequestedBonusPolicy(): BonusPolicy | undefined {
+    const value = this.settingBonusPolicy?.value;
+    return BONUS_POLICIES.find((policy) => policy === value);
+  }
+
+  private getBonusPolicy(): BonusPolicy {
+    return resolveBonusPolicy(this.activeGame, this.getRequestedBonusPolicy());
+  }
+
+  // Backtests score against the main numbers plus an included bonus.
+  private getTargetBallCount(bonusPolicy = this.getBonusPolicy()): number {
+    return this.activeGame.pickCount + (bonusPolicy === "include" ? 1 : 0);
+  }
+
+  private getActualDrawLabel(): string {
+    const pickCount = this.activeGame.pickCount;
+    return this.activeGame.bonusSemantics === "none"
+      ? `${pickCount} Main`
+      : `${pickCount} + Bonus`;
+  }
+
   private renderLiveTrainingTrace(trace: PredictionLiveTrace, percent = 0) {
     if (!this.liveTrainingTracePanel || !this.liveTrainingTraceContent) return;
     this.liveTrainingTracePanel.classList.remove("hidden");
 
+    const pickCount = this.activeGame.pickCount;
     const actualSorted = [...trace.actual].sort((a, b) => a - b);
     const predictedSorted = [...trace.predicted].sort((a, b) => a - b);
     const actualSet = new Set<number>(actualSorted);
-    if (trace.bonus > 0) actualSet.add(trace.bonus);
+    if (this.getBonusPolicy() === "include" && trace.bonus > 0) {
+      actualSet.add(trace.bonus);
+    }
 
     const phaseTitle =
       trace.phase === "mastery_attempt"
@@ -371,7 +660,7 @@ class LottoViewer {
       : "";
     const bestText =
       trace.bestOverlap !== undefined
-        ? `<span class="trace-chip">Best: ${trace.bestOverlap}/6</span>`
+        ? `<span class="trace-chip">Best: ${trace.bestOverlap}/${pickCount}</span>`
         : "";
 
     this.liveTrainingTraceContent.innerHTML = `
@@ -384,12 +673,12 @@ class LottoViewer {
         ${profileText}
       </div>
       <div class="trace-meta-row">
-        <span class="trace-chip">Date: ${trace.date}</span>
-        <span class="trace-chip">Current Overlap: ${trace.overlap}/6</span>
+        <span class="trace-chip">Date: ${this.formatDrawDate(trace)}</span>
+        <span class="trace-chip">Current Overlap: ${trace.overlap}/${pickCount}</span>
       </div>
       <div class="trace-grid">
         <div class="trace-col">
-          <h5>Actual (6 + Bonus)</h5>
+          <h5>Actual (${this.getActualDrawLabel()})</h5>
           <div class="mini-ball-row">
             ${actualSorted.map((n) => `<div class="mini-ball">${n}</div>`).join("")}
             ${
@@ -501,6 +790,11 @@ class LottoViewer {
         this.settingGeneticGenerations,
       ),
       geneticPopulation: this.parseOptionalNumber(this.settingGeneticPopulation),
+      gameId: this.activeGame.id,
+      bonusPolicy: this.getRequestedBonusPolicy(),
+      eraDeclarations: this.eraDeclarations,
+      excludeLagAcrossHoles: this.settingExcludeLagAcrossHoles?.checked,
+      simulateNull: this.settingSimulateNull?.checked,
     };
   }
 
@@ -509,6 +803,8 @@ class LottoViewer {
       this.settingTrainRatio,
       this.settingBacktestRefresh,
       this.settingTargetLatencyMs,
+      this.settingExcludeLagAcrossHoles,
+      this.settingSimulateNull,
       this.settingFastMode,
       this.settingContinuousTraining,
       this.settingTargetSequenceMatch,
@@ -528,15 +824,18 @@ class LottoViewer {
     ].filter((input): input is HTMLInputElement => input !== null);
   }
 
+  // The local copy seeds new datasets; the active dataset keeps its own.
   private saveModelSettingsToStorage() {
+    const settings = this.getModelSettings();
     try {
-      localStorage.setItem(
-        this.MODEL_SETTINGS_KEY,
-        JSON.stringify(this.getModelSettings()),
-      );
+      localStorage.setItem(this.MODEL_SETTINGS_KEY, JSON.stringify(settings));
     } catch (error) {
       console.error("Failed to persist model settings:", error);
     }
+    if (this.activeDataset) {
+      this.activeDataset.settings = settings;
+      this.saveActiveDataset(false);
+    }
   }
 
   private setNumericInputValue(
@@ -559,85 +858,206 @@ class LottoViewer {
     try {
       const raw = localStorage.getItem(this.MODEL_SETTINGS_KEY);
       if (!raw) return;
-      const settings = JSON.parse(raw) as ModelSettings;
+      this.applyModelSettings(JSON.parse(raw) as ModelSettings);
+    } catch (error) {
+      console.error("Failed to restore model settings:", error);
+    }
+  }
 
-      this.setNumericInputValue(this.settingTrainRatio, settings.trainRatio);
-      this.setNumericInputValue(
-        this.settingBacktestRefresh,
-        settings.backtestRefreshEvery,
-      );
-      this.setNumericInputValue(
-        this.settingTargetLatencyMs,
-        settings.targetLatencyMs,
-      );
-      this.setBooleanInputValue(this.settingFastMode, settings.fastMode);
-      this.setBooleanInputValue(
-        this.settingContinuousTraining,
-        settings.continuousTraining,
-      );
-      this.setNumericInputValue(
-        this.settingTargetSequenceMatch,
-        settings.targetSequenceMatch,
-      );
-      this.setNumericInputValue(
-        this.settingMaxOptimizationRounds,
-        settings.maxOptimizationRounds,
-      );
-      this.setBooleanInputValue(
-        this.settingMasteryBacktestMode,
-        settings.masteryBacktestMode,
-      );
-      this.setNumericInputValue(
-        this.settingMasteryMaxAttemptsPerSequence,
-        settings.masteryMaxAttemptsPerSequence,
-      );
-      this.setNumericInputValue(
-        this.settingMasteryGlobalAttemptCap,
-        settings.masteryGlobalAttemptCap,
-      );
-      this.setNumericInputValue(
-        this.settingMasteryProgressEveryAttempts,
-        settings.masteryProgressEveryAttempts,
-      );
-      this.setBooleanInputValue(
-        this.settingEnableMonteCarlo,
-        settings.includeMonteCarlo,
-      );
-      this.setBooleanInputValue(
-        this.settingEnableGenetic,
-        settings.includeGenetic,
-      );
-      this.setBooleanInputValue(
-        this.settingEnableHistoricalEcho,
-        settings.includeHistoricalEcho,
-      );
-      this.setBooleanInputValue(
-        this.settingEnableSlidingWindow,
-        settings.includeSlidingWindow,
-      );
-      this.setNumericInputValue(
-        this.settingMonteCarloMin,
-        settings.monteCarloMinTrials,
-      );
-      this.setNumericInputValue(
-        this.settingMonteCarloMax,
-        settings.monteCarloMaxTrials,
-      );
-      this.setNumericInputValue(
-        this.settingGeneticGenerations,
-        settings.geneticGenerations,
+  private applyModelSettings(settings: ModelSettings) {
+    this.setActiveGame(getGameDefinition(settings.gameId));
+    if (this.settingBonusPolicy) {
+      this.settingBonusPolicy.value = settings.bonusPolicy ?? "";
+    }
+    this.eraDeclarations = settings.eraDeclarations ?? {};
+    this.setBooleanInputValue(
+      this.settingExcludeLagAcrossHoles,
+      settings.excludeLagAcrossHoles,
+    );
+    this.setBooleanInputValue(this.settingSimulateNull, settings.simulateNull);
+    this.setNumericInputValue(this.settingTrainRatio, settings.trainRatio);
+    this.setNumericInputValue(
+      this.settingBacktestRefresh,
+      settings.backtestRefreshEvery,
+    );
+    this.setNumericInputValue(
+      this.settingTargetLatencyMs,
+      settings.targetLatencyMs,
+    );
+    this.setBooleanInputValue(this.settingFastMode, settings.fastMode);
+    this.setBooleanInputValue(
+      this.settingContinuousTraining,
+      settings.continuousTraining,
+    );
+    this.setNumericInputValue(
+      this.settingTargetSequenceMatch,
+      settings.targetSequenceMatch,
+    );
+    this.setNumericInputValue(
+      this.settingMaxOptimizationRounds,
+      settings.maxOptimizationRounds,
+    );
+    this.setBooleanInputValue(
+      this.settingMasteryBacktestMode,
+      settings.masteryBacktestMode,
+    );
+    this.setNumericInputValue(
+      this.settingMasteryMaxAttemptsPerSequence,
+      settings.masteryMaxAttemptsPerSequence,
+    );
+    this.setNumericInputValue(
+      this.settingMasteryGlobalAttemptCap,
+      settings.masteryGlobalAttemptCap,
+    );
+    this.setNumericInputValue(
+      this.settingMasteryProgressEveryAttempts,
+      settings.masteryProgressEveryAttempts,
+    );
+    this.setBooleanInputValue(
+      this.settingEnableMonteCarlo,
+      settings.includeMonteCarlo,
+    );
+    this.setBooleanInputValue(
+      this.settingEnableGenetic,
+      settings.includeGenetic,
+    );
+    this.setBooleanInputValue(
+      this.settingEnableHistoricalEcho,
+      settings.includeHistoricalEcho,
+    );
+    this.setBooleanInputValue(
+      this.settingEnableSlidingWindow,
+      settings.includeSlidingWindow,
+    );
+    this.setNumericInputValue(
+      this.settingMonteCarloMin,
+      settings.monteCarloMinTrials,
+    );
+    this.setNumericInputValue(
+      this.settingMonteCarloMax,
+      settings.monteCarloMaxTrials,
+    );
+    this.setNumericInputValue(
+      this.settingGeneticGenerations,
+      settings.geneticGenerations,
+    );
+    this.setNumericInputValue(
+      this.settingGeneticPopulation,
+      settings.geneticPopulation,
+    );
+  }
+
+  private populateGameSelect() {
+    if (!this.gameSelect) return;
+    this.gameSelect.innerHTML = GAME_DEFINITIONS.map(
+      (game) => `<option value="${game.id}">${game.name}</option>`,
+    ).join("");
+    this.gameSelect.value = this.activeGame.id;
+  }
+
+  private setActiveGame(game: GameDefinition) {
+    this.activeGame = game;
+    this.poolSize = game.mainPool;
+    if (this.gameSelect) this.gameSelect.value = game.id;
+  }
+
+  private syncControlsForGame() {
+    this.manualNums.forEach((input, idx) => {
+      if (!input) return;
+      const active = idx < this.activeGame.pickCount;
+      input.classList.toggle("hidden", !active);
+      input.max = String(getMaxMainBall(this.activeGame));
+      if (!active) input.value = "";
+    });
+    if (this.settingTargetSequenceMatch) {
+      this.settingTargetSequenceMatch.max = String(this.activeGame.pickCount);
+    }
+    if (this.settingEraDates) {
+      // Only games whose pool has changed over time have eras to declare.
+      const hasEras = getEraPoolSizes(this.activeGame).length > 1;
+      this.settingEraDates.disabled = !hasEras;
+      this.settingEraDates.value = formatEraDeclarations(
+        this.eraDeclarations[this.activeGame.id],
       );
-      this.setNumericInputValue(
-        this.settingGeneticPopulation,
-        settings.geneticPopulation,
+    }
+    const hasBonus = this.activeGame.bonusSemantics !== "none";
+    if (this.settingBonusPolicy) {
+      // A separate-drum bonus cannot be folded into the main numbers.
+      Array.from(this.settingBonusPolicy.options).forEach((option) => {
+        option.disabled =
+          option.value === "include" &&
+          this.activeGame.bonusSemantics === "separate-pool";
+      });
+      if (this.settingBonusPolicy.selectedOptions[0]?.disabled) {
+        this.settingBonusPolicy.value = "";
+      }
+      this.settingBonusPolicy.disabled = !hasBonus;
+    }
+    this.manualBonusGroup?.classList.toggle("hidden", !hasBonus);
+    if (hasBonus) {
+      this.manualBonus.max = String(getMaxBonusBall(this.activeGame));
+    } else {
+      this.manualBonus.value = "";
+    }
+  }
+
+  private handleGameChange() {
+    if (!this.gameSelect) return;
+    const game = getGameDefinition(this.gameSelect.value);
+    if (game.id === this.activeGame.id) return;
+
+    if (this.predictionWorker && this.activePredictionAction !== "idle") {
+      this.predictionWorker.postMessage({
+        requestId: this.latestPredictionRequestId,
+        type: "cancel",
+      });
+    }
+    this.latestPredictionRequestId = ++this.predictionRequestId;
+    this.activePredictionAction = "idle";
+    this.latestPredictionSnapshot = null;
+    this.latestDiagnosticsSnapshot = null;
+    this.activeWarmLearningState = null;
+    this.setDiagnosticsExportEnabled(false);
+    this.setTrainingControls(false);
+
+    this.setActiveGame(game);
+    this.saveModelSettingsToStorage();
+    this.syncControlsForGame();
+    this.parseDrawRecords();
+    this.applyFilters();
+    if (this.drawRecords.length < LottoViewer.MIN_PREDICTION_DRAWS) {
+      document.getElementById("predictionPanel")?.classList.add("hidden");
+      this.setPredictionStatus(
+        `Load at least ${LottoViewer.MIN_PREDICTION_DRAWS} valid ${game.name} draws to start training.`,
+        { showProgress: false },
       );
-    } catch (error) {
-      console.error("Failed to restore model settings:", error);
+      return;
     }
+    this.schedulePredictionEngine(25);
   }
 
   private initEvents() {
     this.fileInput.addEventListener("change", (e) => this.handleFileUpload(e));
+    if (this.appendDrawsBtn && this.appendFileInput) {
+      const appendInput = this.appendFileInput;
+      this.appendDrawsBtn.addEventListener("click", () => appendInput.click());
+      appendInput.addEventListener("change", (e) =>
+        this.handleFileUpload(e, "append"),
+      );
+    }
+    if (this.gameSelect) {
+      this.gameSelect.addEventListener("change", () => this.handleGameChange());
+    }
+    const datasetSelect = this.datasetSelect;
+    datasetSelect?.addEventListener("change", () =>
+      this.handleDatasetSwitch(datasetSelect.value),
+    );
+    this.newDatasetBtn?.addEventListener("click", () => this.handleNewDataset());
+    this.renameDatasetBtn?.addEventListener("click", () => this.handleRenameDataset());
+    this.duplicateDatasetBtn?.addEventListener("click", () =>
+      this.handleDuplicateDataset(),
+    );
+    this.deleteDatasetBtn?.addEventListener("click", () => this.handleDeleteDataset());
     this.searchInput.addEventListener("input", () => this.applyFilters());
     this.dateFrom.addEventListener("change", () => this.applyFilters());
     this.dateTo.addEventListener("change", () => this.applyFilters());
@@ -669,11 +1089,94 @@ class LottoViewer {
     if (this.exportCsvBtn) {
       this.exportCsvBtn.addEventListener("click", () => this.handleExportCsv());
     }
+    this.undoEditBtn?.addEventListener("click", () => this.handleUndoEdit());
+    this.redoEditBtn?.addEventListener("click", () => this.handleRedoEdit());
+    document.addEventListener("keydown", (event) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      if (target?.closest("input, select, textarea")) return;
+      event.preventDefault();
+      if (event.shiftKey) this.handleRedoEdit();
+      else this.handleUndoEdit();
+    });
+    if (this.exportDatasetJsonBtn) {
+      this.exportDatasetJsonBtn.addEventListener("click", () =>
+        this.handleExportDataset("json"),
+      );
+    }
+    if (this.exportDatasetNdjsonBtn) {
+      this.exportDatasetNdjsonBtn.addEventListener("click", () =>
+        this.handleExportDataset("ndjson"),
+      );
+    }
     if (this.exportDiagnosticsBtn) {
       this.exportDiagnosticsBtn.addEventListener("click", () =>
         this.handleExportDiagnostics(),
       );
     }
+    if (this.openColumnMappingBtn) {
+      this.openColumnMappingBtn.addEventListener("click", () =>
+        this.openColumnMappingWizard(),
+      );
+    }
+    if (this.applyColumnMappingBtn) {
+      this.applyColumnMappingBtn.addEventListener("click", () =>
+        this.handleApplyColumnMapping(false),
+      );
+    }
+    if (this.saveColumnPresetBtn) {
+      this.saveColumnPresetBtn.addEventListener("click", () =>
+        this.handleApplyColumnMapping(true),
+      );
+    }
+    if (this.cancelColumnMappingBtn) {
+      this.cancelColumnMappingBtn.addEventListener("click", () =>
+        this.columnMappingPanel?.classList.add("hidden"),
+      );
+    }
+    if (this.confirmDateOrderBtn) {
+      this.confirmDateOrderBtn.addEventListener("click", () =>
+        this.handleConfirmDateOrder(),
+      );
+    }
+    if (this.importSelectedSheetsBtn) {
+      this.importSelectedSheetsBtn.addEventListener("click", () =>
+        this.handleImportSelectedSheets(),
+      );
+    }
+    if (this.cancelSheetPickerBtn) {
+      this.cancelSheetPickerBtn.addEventListener("click", () =>
+        this.closeSheetPicker(),
+      );
+    }
+    if (this.mergeConflictsContent) {
+      this.mergeConflictsContent.addEventListener("click", (event) =>
+        this.handleMergeConflictClick(event),
+      );
+    }
+    if (this.exportImportReportBtn) {
+      this.exportImportReportBtn.addEventListener("click", () =>
+        this.handleExportImportReport(),
+      );
+    }
+    if (this.importReportContent) {
+      this.importReportContent.addEventListener("click", (event) =>
+        this.handleImportReportClick(event),
+      );
+    }
+    if (this.topPairsContent) {
+      this.topPairsContent.addEventListener("click", (event) =>
+        this.handlePairSelect(event),
+      );
+    }
+    if (this.gapSurvivalContent) {
+      this.gapSurvivalContent.addEventListener("click", (event) =>
+        this.handleGapSelect(event),
+      );
+      this.gapSurvivalContent.addEventListener("change", (event) =>
+        this.handleGapSelect(event),
+      );
+    }
 
     if (this.applyModelSettingsBtn) {
       this.applyModelSettingsBtn.addEventListener("click", () =>
@@ -687,6 +1190,17 @@ class LottoViewer {
       );
     }
 
+    if (this.settingBonusPolicy) {
+      this.settingBonusPolicy.addEventListener("change", () =>
+        this.saveModelSettingsToStorage(),
+      );
+    }
+    if (this.settingEraDates) {
+      this.settingEraDates.addEventListener("change", () =>
+        this.handleEraDatesChange(),
+      );
+    }
+
     this.getModelSettingInputs().forEach((input) => {
       const eventName = input.type === "checkbox" ? "change" : "input";
       input.addEventListener(eventName, () => this.saveModelSettingsToStorage());
@@ -696,6 +1210,27 @@ class LottoViewer {
     });
   }
 
+  private handleEraDatesChange() {
+    if (!this.settingEraDates) return;
+    const { eras, errors } = parseEraDeclarations(
+      this.settingEraDates.value,
+      this.activeGame,
+    );
+    if (errors.length > 0) {
+      alert(`Some era change dates were ignored:\n${errors.join("\n")}`);
+    }
+
+    const next = { ...this.eraDeclarations };
+    if (eras.length > 0) {
+      next[this.activeGame.id] = eras;
+    } else {
+      delete next[this.activeGame.id];
+    }
+    this.eraDeclarations = next;
+    this.settingEraDates.value = formatEraDeclarations(eras);
+    this.saveModelSettingsToStorage();
+  }
+
   private handleStopTraining() {
     const cancelRequestId = ++this.predictionRequestId;
     this.latestPredictionRequestId = cancelRequestId;
@@ -756,44 +1291,36 @@ class LottoViewer {
     }, 0);
   }
 
-  private async handleFileUpload(e: Event) {
+  private async handleFileUpload(e: Event, mode: ImportMode = "replace") {
     const input = e.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (!file) return;
+    const files = Array.from(input.files ?? []);
+    if (files.length === 0) return;
 
-    this.fileNameDisplay.textContent = file.name;
+    if (mode === "replace") {
+      this.fileNameDisplay.textContent =
+        files.length === 1 ? files[0].name : `${files.length} files`;
+    }
     this.showLoader(true);
 
     try {
-      if (this.isDelimitedTextFile(file)) {
-        const text = await file.text();
-        this.rawData = this.parseDelimitedTextToRows(text);
-      } else {
-        const data = await file.arrayBuffer();
-        const workbook = XLSX.read(data, { type: "array" });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-
-        this.rawData = XLSX.utils.sheet_to_json(worksheet, {
-          raw: false,
-          defval: "",
-        });
-      }
+      const { sources, hasMultiSheetWorkbook } = await readUploadedFiles(files);
 
-      if (this.rawData.length === 0) {
+      if (sources.length === 0) {
         alert("No rows were detected in the selected file.");
         return;
       }
 
-      this.headers = Object.keys(this.rawData[0]);
-      this.saveToSessionStorage();
-      this.parseDrawRecords();
-      this.applyFilters();
-      this.schedulePredictionEngine(25);
+      if (hasMultiSheetWorkbook && sources.length > 1) {
+        this.openSheetPicker(sources, mode);
+        return;
+      }
+      this.ingestSources(sources, mode);
     } catch (error) {
       console.error("Error parsing uploaded file:", error);
       alert(
-        "Failed to parse selected file. Supported formats: XLSX, XLS, CSV, TXT.",
+        error instanceof DatasetFormatError
+          ? error.message
+          : "Failed to parse selected file. Supported formats: XLSX, XLS, CSV, TXT, JSON, NDJSON.",
       );
     } finally {
       this.showLoader(false);
@@ -802,186 +1329,402 @@ class LottoViewer {
     }
   }
 
-  private isDelimitedTextFile(file: File): boolean {
-    const lowerName = file.name.toLowerCase();
-    return lowerName.endsWith(".csv") || lowerName.endsWith(".txt");
+  private openSheetPicker(sources: ImportSource<LottoResult>[], mode: ImportMode) {
+    if (!this.sheetPickerPanel || !this.sheetPickerContent) {
+      this.ingestSources(sources, mode);
+      return;
+    }
+    this.pendingImportSources = sources;
+    this.pendingImportMode = mode;
+    this.sheetPickerContent.innerHTML = "";
+    sources.forEach((source, idx) => {
+      const label = document.createElement("label");
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = true;
+      checkbox.dataset.source = String(idx);
+      const name = document.createElement("span");
+      name.textContent = source.label;
+      const count = document.createElement("span");
+      count.className = "sheet-picker-count";
+      count.textContent = `${source.rows.length} rows`;
+      label.append(checkbox, name, count);
+      this.sheetPickerContent!.appendChild(label);
+    });
+    this.sheetPickerPanel.classList.remove("hidden");
   }
 
-  private parseDelimitedTextToRows(text: string): LottoResult[] {
-    const delimiter = this.detectDelimiter(text);
-    const rows = this.parseCsvRows(text, delimiter);
-    if (rows.length < 2) return [];
-
-    const headerRowIndex = rows.findIndex((r) =>
-      r.some((cell) => cell.trim() !== ""),
-    );
-    if (headerRowIndex < 0 || headerRowIndex >= rows.length - 1) return [];
-
-    const headers = this.makeUniqueHeaders(
-      rows[headerRowIndex].map((h, i) => this.sanitizeHeader(h, i)),
-    );
-    const result: LottoResult[] = [];
+  private closeSheetPicker() {
+    this.pendingImportSources = [];
+    this.sheetPickerPanel?.classList.add("hidden");
+  }
 
-    for (let r = headerRowIndex + 1; r < rows.length; r++) {
-      const cells = rows[r];
-      if (cells.every((c) => c.trim() === "")) continue;
+  private handleImportSelectedSheets() {
+    if (!this.sheetPickerContent) return;
+    const selected = Array.from(
+      this.sheetPickerContent.querySelectorAll<HTMLInputElement>(
+        "input[type=checkbox]",
+      ),
+    )
+      .filter((checkbox) => checkbox.checked)
+      .map((checkbox) => this.pendingImportSources[Number(checkbox.dataset.source)])
+      .filter((source) => source !== undefined);
 
-      const record: LottoResult = {};
-      const maxCols = Math.max(headers.length, cells.length);
-      for (let c = 0; c < maxCols; c++) {
-        const header = headers[c] || `Column${c + 1}`;
-        record[header] = (cells[c] ?? "").trim();
-      }
-      result.push(record);
+    if (selected.length === 0) {
+      alert("Select at least one sheet to import.");
+      return;
     }
-
-    return result;
+    const mode = this.pendingImportMode;
+    this.closeSheetPicker();
+    this.ingestSources(selected, mode);
   }
 
-  private detectDelimiter(text: string): string {
-    const normalized = text.replace(/^\uFEFF/, "");
-    const lines = normalized
-      .split(/\r\n|\n|\r/)
-      .map((l) => l.trim())
-      .filter((l) => l.length > 0)
-      .slice(0, 5);
-
-    if (lines.length === 0) return ",";
-
-    const candidates = [",", ";", "\t", "|"];
-    let bestDelimiter = ",";
-    let bestScore = -1;
-
-    for (const delimiter of candidates) {
-      const counts = lines.map((line) =>
-        this.countFieldsForDelimiter(line, delimiter),
-      );
-      const score = counts.reduce((acc, c) => acc + c, 0);
-      const hasStructuredColumns = counts.some((c) => c > 1);
-
-      if (hasStructuredColumns && score > bestScore) {
-        bestScore = score;
-        bestDelimiter = delimiter;
+  private ingestSources(sources: ImportSource<LottoResult>[], mode: ImportMode) {
+    const gameIds = Array.from(
+      new Set(sources.flatMap((source) => (source.gameId ? [source.gameId] : []))),
+    );
+    if (gameIds.length > 1) {
+      alert(`The selected datasets are for different games (${gameIds.join(", ")}).`);
+      return;
+    }
+    const datasetGame = gameIds.length === 1 ? getGameDefinition(gameIds[0]) : null;
+    if (datasetGame && datasetGame.id !== this.activeGame.id) {
+      if (mode === "append" && this.rawData.length > 0) {
+        alert(
+          `This dataset is for ${datasetGame.name}, but the loaded history is ${this.activeGame.name}.`,
+        );
+        return;
       }
+      if (this.gameSelect) this.gameSelect.value = datasetGame.id;
+      this.handleGameChange();
     }
 
-    return bestDelimiter;
+    if (mode === "append" && this.rawData.length > 0) {
+      this.appendSources(sources);
+    } else {
+      this.importSources(sources);
+    }
   }
 
-  private countFieldsForDelimiter(line: string, delimiter: string): number {
-    let fields = 1;
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      const next = line[i + 1];
+  // Replaces the loaded history with the merged, de-duplicated sources.
+  private importSources(sources: ImportSource<LottoResult>[]) {
+    this.headers = collectSourceHeaders(sources);
+    this.confirmedDateOrder = null;
+    const presetApplied =
+      this.applyStoredColumnPreset() || this.applyDatasetColumnMapping();
+    const result = ingestSources(sources, this.ingestionContext());
+
+    this.rawData = result.rows;
+    this.mergeConflicts = result.conflicts;
+    this.mergeSummary =
+      result.duplicateCount > 0 || result.conflicts.length > 0
+        ? `${this.formatCount(result.duplicateCount, "identical duplicate")} dropped, ${this.formatCount(result.conflicts.length, "conflict")} resolved in favour of the earlier source.`
+        : "";
+    this.renderMergeConflicts();
+    this.resetEditHistory();
+    this.saveActiveDataset();
+    this.applyParsedDraws(result);
+    this.applyFilters();
+    this.schedulePredictionEngine(25);
+    if (!presetApplied) this.openColumnMappingWizard();
+  }
 
-      if (ch === '"') {
-        if (inQuotes && next === '"') {
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-        continue;
-      }
+  /**
+   * Merges newly exported draws into the loaded history. The loaded rows are
+   * kept untouched and win every conflict; the model is refreshed rather than
+   * retrained.
+   */
+  private appendSources(sources: ImportSource<LottoResult>[]) {
+    const previousCount = this.rawData.length;
+    const result = ingestSources(sources, this.ingestionContext(), {
+      label: "Loaded history",
+      rows: this.rawData,
+    });
+    const addedCount = result.rows.length - previousCount;
+
+    this.headers = result.headers;
+    this.rawData = result.rows;
+    this.mergeConflicts = result.conflicts;
+    this.mergeSummary = `Appended ${this.formatCount(addedCount, "new draw")}; ${this.formatCount(result.duplicateCount, "duplicate")} skipped; ${this.formatCount(result.conflicts.length, "conflict")} kept the loaded value.`;
+    this.renderMergeConflicts();
+    if (addedCount > 0) this.resetEditHistory();
+    this.saveActiveDataset();
+    this.applyParsedDraws(result);
+    this.applyFilters();
+    if (addedCount > 0) this.refreshAfterAppend();
+  }
 
-      if (!inQuotes && ch === delimiter) fields++;
+  private refreshAfterAppend() {
+    const canRefresh =
+      this.latestPredictionSnapshot !== null &&
+      this.activePredictionAction === "idle" &&
+      this.drawRecords.length >= LottoViewer.MIN_PREDICTION_DRAWS;
+    if (!canRefresh) {
+      this.schedulePredictionEngine(25);
+      return;
     }
-
-    return fields;
+    // Diagnostics must cover the new draws; the trained backtest is reused as-is.
+    // This runs on the page, so the fair-draw simulations wait for the next training.
+    const diagnostics = runFullDiagnostics(this.drawRecords, {
+      ...diagnosticsOptionsFromSettings(this.getModelSettings()),
+      uniformityTrials: 0,
+      calibrationTrials: 0,
+    });
+    void this.handleGenerateCandidates(diagnostics);
   }
 
-  private makeUniqueHeaders(headers: string[]): string[] {
-    const seen = new Map<string, number>();
-    return headers.map((h, i) => {
-      const base = h || `Column${i + 1}`;
-      const count = seen.get(base) || 0;
-      seen.set(base, count + 1);
-      return count === 0 ? base : `${base}_${count + 1}`;
-    });
+  private formatPValue(pValue: number): string {
+    return pValue > 0 && pValue < 0.0001 ? pValue.toExponential(1) : pValue.toFixed(4);
   }
 
-  private parseCsvRows(text: string, delimiter: string): string[][] {
-    const normalized = text.replace(/^\uFEFF/, "");
-    const rows: string[][] = [];
-    let row: string[] = [];
-    let field = "";
-    let inQuotes = false;
+  private formatCount(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+  }
 
-    const pushField = () => {
-      row.push(field);
-      field = "";
-    };
+  private renderMergeConflicts() {
+    if (!this.mergeConflictsPanel || !this.mergeConflictsContent) return;
+    const conflicts = this.mergeConflicts;
+    this.mergeConflictsPanel.classList.toggle(
+      "hidden",
+      conflicts.length === 0 && !this.mergeSummary,
+    );
+    if (this.mergeConflictsSummary) {
+      this.mergeConflictsSummary.textContent = this.mergeSummary;
+    }
 
-    const pushRow = () => {
-      pushField();
-      rows.push(row);
-      row = [];
-    };
+    const ctx = this.ingestionContext();
+    const mainNumberHeaders = getMainNumberHeaders(this.headers, ctx);
+    const describe = (row: LottoResult) =>
+      describeDraw(validateRow(row, mainNumberHeaders, ctx).draw);
+
+    this.mergeConflictsContent.innerHTML = "";
+    conflicts.forEach((conflict, idx) => {
+      const item = document.createElement("div");
+      item.className = "import-issue merge-conflict";
+
+      const head = document.createElement("div");
+      head.className = "import-issue-head";
+      const key = document.createElement("span");
+      key.className = "import-issue-row";
+      key.textContent = conflict.key;
+      const swap = document.createElement("button");
+      swap.className = "btn secondary small-btn";
+      swap.dataset.action = "use-rejected";
+      swap.dataset.conflict = String(idx);
+      swap.textContent = "Use Other";
+      head.append(key, swap);
+
+      const kept = document.createElement("div");
+      kept.className = "import-issue-detail";
+      kept.textContent = `Kept (${conflict.kept.source}): ${describe(conflict.kept.row)}`;
+      const rejected = document.createElement("div");
+      rejected.className = "import-issue-raw";
+      rejected.textContent = `Ignored (${conflict.rejected.source}): ${describe(conflict.rejected.row)}`;
+
+      item.append(head, kept, rejected);
+      this.mergeConflictsContent!.appendChild(item);
+    });
+  }
 
-    for (let i = 0; i < normalized.length; i++) {
-      const ch = normalized[i];
-      const next = normalized[i + 1];
+  private handleMergeConflictClick(event: Event) {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      "button[data-action=use-rejected]",
+    );
+    if (!button) return;
+    const conflict = this.mergeConflicts[Number(button.dataset.conflict)];
+    if (!conflict) return;
 
-      if (ch === '"') {
-        if (inQuotes && next === '"') {
-          field += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-        continue;
-      }
+    const rawIndex = this.rawData.indexOf(conflict.kept.row);
+    if (rawIndex < 0) {
+      alert("The kept row is no longer in the data set.");
+      return;
+    }
+    this.rawData[rawIndex] = conflict.rejected.row;
+    [conflict.kept, conflict.rejected] = [conflict.rejected, conflict.kept];
+    this.renderMergeConflicts();
+    this.saveActiveDataset();
+    this.parseDrawRecords();
+    this.applyFilters();
+    this.schedulePredictionEngine();
+  }
 
-      if (!inQuotes && ch === delimiter) {
-        pushField();
-        continue;
-      }
+  /** Persists the active dataset; rows are rewritten only when `includeRows` is set. */
+  private saveActiveDataset(includeRows = true) {
+    const dataset = this.activeDataset;
+    if (!dataset) return;
+    dataset.columnMapping = this.columnMapping;
+    dataset.dateOrder = this.confirmedDateOrder;
+    saveDataset(dataset, includeRows ? this.rawData : undefined)
+      .then(() => this.renderDatasetSelect())
+      .catch((error) => {
+        console.error("Failed to persist dataset:", error);
+        if (includeRows) alert(`Could not save "${dataset.name}": ${error}`);
+      });
+  }
 
-      if (!inQuotes && (ch === "\n" || ch === "\r")) {
-        if (ch === "\r" && next === "\n") i++;
-        pushRow();
-        continue;
+  private async loadDatasets() {
+    try {
+      this.datasets = await listDatasets();
+      if (this.datasets.length === 0) {
+        this.datasets = [await this.createInitialDataset()];
       }
+      const storedId = localStorage.getItem(this.ACTIVE_DATASET_KEY);
+      await this.activateDataset(
+        this.datasets.find((dataset) => dataset.id === storedId) ?? this.datasets[0],
+      );
+    } catch (error) {
+      console.error("Failed to open the dataset store:", error);
+    }
+  }
 
-      field += ch;
+  // The first dataset adopts whatever earlier versions kept in web storage.
+  private async createInitialDataset(): Promise<DatasetRecord> {
+    const dataset = createDatasetRecord("My Draws");
+    dataset.settings = this.getModelSettings();
+    let rows: LottoResult[] = [];
+    try {
+      rows = JSON.parse(sessionStorage.getItem(this.STORAGE_KEY) ?? "[]");
+      const storedMapping = sessionStorage.getItem(this.COLUMN_MAPPING_KEY);
+      dataset.columnMapping = storedMapping
+        ? (JSON.parse(storedMapping) as ColumnMapping)
+        : null;
+      const storedOrder = sessionStorage.getItem(this.DATE_ORDER_KEY);
+      dataset.dateOrder = DATE_ORDERS.find((order) => order === storedOrder) ?? null;
+      const storedLearning = localStorage.getItem(this.LEARNING_STATE_KEY);
+      dataset.learningState = storedLearning
+        ? this.validateLearningState(JSON.parse(storedLearning))
+        : null;
+    } catch (e) {
+      console.error("Error migrating stored data:", e);
     }
+    await saveDataset(dataset, rows);
+    sessionStorage.removeItem(this.STORAGE_KEY);
+    sessionStorage.removeItem(this.COLUMN_MAPPING_KEY);
+    sessionStorage.removeItem(this.DATE_ORDER_KEY);
+    localStorage.removeItem(this.LEARNING_STATE_KEY);
+    return dataset;
+  }
 
-    if (field.length > 0 || row.length > 0) {
-      pushRow();
+  private async activateDataset(dataset: DatasetRecord) {
+    const rows = await loadDatasetRows(dataset.id);
+    this.resetLoadedData();
+    this.activeDataset = dataset;
+    localStorage.setItem(this.ACTIVE_DATASET_KEY, dataset.id);
+    if (dataset.settings) {
+      this.applyModelSettings(dataset.settings);
+      this.syncControlsForGame();
     }
+    this.renderDatasetSelect();
+    this.renderEditHistoryControls();
+    if (rows.length === 0) {
+      this.setPredictionStatus("Load enough draws to start training.", {
+        showProgress: false,
+      });
+      return;
+    }
+
+    this.rawData = rows;
+    this.headers = Object.keys(rows[0]);
+    this.columnMapping = dataset.columnMapping;
+    if (!this.columnMapping) this.applyStoredColumnPreset();
+    this.confirmedDateOrder = dataset.dateOrder;
+    this.setColumnMappingEnabled(true);
+    this.parseDrawRecords();
+    this.applyFilters();
+    this.runPredictionEngine();
+  }
 
-    while (rows.length > 0 && rows[rows.length - 1].every((c) => c === "")) {
-      rows.pop();
+  private renderDatasetSelect() {
+    const select = this.datasetSelect;
+    if (!select) return;
+    select.innerHTML = "";
+    this.datasets.forEach((dataset) => {
+      const option = document.createElement("option");
+      option.value = dataset.id;
+      option.textContent = `${dataset.name} (${this.formatCount(dataset.rowCount, "row")})`;
+      select.appendChild(option);
+    });
+    if (this.activeDataset) select.value = this.activeDataset.id;
+  }
+
+  private reportDatasetError(action: string, error: unknown) {
+    console.error(`Failed to ${action}:`, error);
+    alert(`Could not ${action}: ${error}`);
+  }
+
+  private async handleDatasetSwitch(id: string) {
+    const dataset = this.datasets.find((entry) => entry.id === id);
+    if (!dataset || dataset === this.activeDataset) return;
+    try {
+      await this.activateDataset(dataset);
+    } catch (error) {
+      this.reportDatasetError(`open "${dataset.name}"`, error);
+      this.renderDatasetSelect();
     }
+  }
 
-    return rows;
+  private async handleNewDataset() {
+    const name = prompt(
+      "Name for the new dataset:",
+      `Dataset ${this.datasets.length + 1}`,
+    )?.trim();
+    if (!name) return;
+    const dataset = createDatasetRecord(name);
+    dataset.settings = this.getModelSettings();
+    try {
+      await saveDataset(dataset, []);
+      this.datasets.push(dataset);
+      await this.activateDataset(dataset);
+    } catch (error) {
+      this.reportDatasetError("create the dataset", error);
+    }
   }
 
-  private sanitizeHeader(header: string, index: number): string {
-    const clean = header.trim();
-    if (!clean) return `Column${index + 1}`;
-    return clean.replace(/^\uFEFF/, "");
+  private handleRenameDataset() {
+    const dataset = this.activeDataset;
+    if (!dataset) return;
+    const name = prompt("Rename dataset:", dataset.name)?.trim();
+    if (!name || name === dataset.name) return;
+    dataset.name = name;
+    this.saveActiveDataset(false);
   }
 
-  private saveToSessionStorage() {
-    sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.rawData));
+  private async handleDuplicateDataset() {
+    const source = this.activeDataset;
+    if (!source) return;
+    const name = prompt("Name for the copy:", `${source.name} (copy)`)?.trim();
+    if (!name) return;
+    try {
+      const copy = await duplicateDataset(source, name);
+      this.datasets.push(copy);
+      await this.activateDataset(copy);
+    } catch (error) {
+      this.reportDatasetError("duplicate the dataset", error);
+    }
   }
 
-  private loadFromSessionStorage() {
-    const stored = sessionStorage.getItem(this.STORAGE_KEY);
-    if (stored) {
-      try {
-        this.rawData = JSON.parse(stored);
-        if (this.rawData.length > 0) {
-          this.headers = Object.keys(this.rawData[0]);
-          this.parseDrawRecords();
-          this.applyFilters();
-          this.runPredictionEngine();
-        }
-      } catch (e) {
-        console.error("Error loading from sessionStorage:", e);
+  private async handleDeleteDataset() {
+    const dataset = this.activeDataset;
+    if (!dataset) return;
+    if (
+      !confirm(
+        `Delete the dataset "${dataset.name}" with its draws, settings and predictions?`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteDataset(dataset.id);
+      this.datasets = this.datasets.filter((entry) => entry !== dataset);
+      if (this.datasets.length === 0) {
+        const fresh = createDatasetRecord("My Draws");
+        fresh.settings = this.getModelSettings();
+        await saveDataset(fresh, []);
+        this.datasets.push(fresh);
       }
+      await this.activateDataset(this.datasets[0]);
+    } catch (error) {
+      this.reportDatasetError("delete the dataset", error);
     }
   }
 
@@ -1026,14 +1769,11 @@ class LottoViewer {
   }
 
   private inferPoolFromDraws(draws: DrawRecord[]): number {
-    let maxBall = 52;
-    for (const draw of draws) {
-      for (const number of draw.numbers) {
-        if (number > maxBall) maxBall = number;
-      }
-      if (draw.bonus > maxBall) maxBall = draw.bonus;
-    }
-    return Math.max(52, Math.min(LottoViewer.MAX_ALLOWED_BALL, maxBall));
+    return detectFormat(
+      draws,
+      this.activeGame,
+      this.eraDeclarations[this.activeGame.id],
+    ).currentN;
   }
 
   private buildDrawSignature(draws: DrawRecord[]): string {
@@ -1072,10 +1812,14 @@ class LottoViewer {
   }
 
   private loadLearningStateFromStorage(): PersistedLearningState | null {
+    const state = this.activeDataset?.learningState;
+    return state ? this.validateLearningState(state) : null;
+  }
+
+  private validateLearningState(
+    parsed: PersistedLearningState,
+  ): PersistedLearningState | null {
     try {
-      const raw = localStorage.getItem(this.LEARNING_STATE_KEY);
-      if (!raw) return null;
-      const parsed = JSON.parse(raw) as PersistedLearningState;
       if (parsed?.version !== 1) return null;
       if (!Number.isFinite(parsed.drawCount) || parsed.drawCount < 0) return null;
       if (!Number.isFinite(parsed.poolSize) || parsed.poolSize < 1) return null;
@@ -1103,6 +1847,7 @@ class LottoViewer {
     const state = this.loadLearningStateFromStorage();
     if (!state) return null;
     if (this.drawRecords.length < LottoViewer.MIN_PREDICTION_DRAWS) return null;
+    if ((state.gameId ?? DEFAULT_GAME_ID) !== this.activeGame.id) return null;
     const currentPool = this.inferPoolFromDraws(this.drawRecords);
     if (state.poolSize !== currentPool) return null;
     return state;
@@ -1125,6 +1870,7 @@ class LottoViewer {
       updatedAt: new Date().toISOString(),
       drawCount: this.drawRecords.length,
       poolSize: this.inferPoolFromDraws(this.drawRecords),
+      gameId: this.activeGame.id,
       dataSignature: this.buildDrawSignature(this.drawRecords),
       score: this.computePredictionLearningScore(prediction),
       bestProfile: normalizedProfile,
@@ -1134,8 +1880,10 @@ class LottoViewer {
     const existing = this.loadLearningStateFromStorage();
     const shouldKeepExisting =
       existing &&
+      (existing.gameId ?? DEFAULT_GAME_ID) === nextState.gameId &&
       existing.poolSize === nextState.poolSize &&
       existing.dataSignature === nextState.dataSignature &&
+      !existing.staleSince &&
       existing.score > nextState.score;
 
     if (shouldKeepExisting) {
@@ -1143,36 +1891,54 @@ class LottoViewer {
       return;
     }
 
-    try {
-      localStorage.setItem(this.LEARNING_STATE_KEY, JSON.stringify(nextState));
-      this.activeWarmLearningState = nextState;
-    } catch (error) {
-      console.error("Failed to persist learning state:", error);
+    this.activeWarmLearningState = nextState;
+    if (this.activeDataset) {
+      this.activeDataset.learningState = nextState;
+      this.saveActiveDataset(false);
     }
   }
 
   private clearLearningStateFromStorage() {
     this.activeWarmLearningState = null;
-    localStorage.removeItem(this.LEARNING_STATE_KEY);
+    if (this.activeDataset) this.activeDataset.learningState = null;
+  }
+
+  private recordPrediction(prediction: PredictionOutput) {
+    const dataset = this.activeDataset;
+    if (!dataset || prediction.sets.length === 0) return;
+    dataset.predictions = [
+      ...dataset.predictions,
+      {
+        createdAt: new Date().toISOString(),
+        drawCount: this.drawRecords.length,
+        lastDrawDate: this.drawRecords[this.drawRecords.length - 1]?.date ?? null,
+        sets: prediction.sets.map(({ numbers, bonus, method }) => ({
+          numbers: [...numbers],
+          ...(bonus !== undefined ? { bonus } : {}),
+          method,
+        })),
+      },
+    ].slice(-MAX_STORED_PREDICTIONS);
+    this.saveActiveDataset(false);
   }
 
   private handleAddManualRecord() {
-    // Auto-generate local date (YYYY-MM-DD)
+    // Defaults to today's local date (YYYY-MM-DD)
     const now = new Date();
     const year = now.getFullYear();
     const month = String(now.getMonth() + 1).padStart(2, "0");
     const day = String(now.getDate()).padStart(2, "0");
-    const date = `${year}-${month}-${day}`;
-
-    const numbers = this.manualNums.map((input) => parseInt(input.value));
-    if (
-      numbers.some(
-        (n) =>
-          isNaN(n) || n < 1 || n > LottoViewer.MAX_ALLOWED_BALL,
-      )
-    ) {
+    const date = this.manualDate?.value || `${year}-${month}-${day}`;
+
+    const game = this.activeGame;
+    const maxMainBall = getMaxMainBall(game);
+    const maxBonusBall = getMaxBonusBall(game);
+    const numbers = this.manualNums
+      .slice(0, game.pickCount)
+      .map((input) => parseInt(input.value));
+    if (numbers.some((n) => isNaN(n) || n < 1 || n > maxMainBall)) {
       alert(
-        `Please enter 6 valid numbers between 1 and ${LottoViewer.MAX_ALLOWED_BALL}.`,
+        `Please enter ${game.pickCount} valid numbers between 1 and ${maxMainBall}.`,
       );
       return;
     }
@@ -1182,19 +1948,14 @@ class LottoViewer {
       return;
     }
 
-    const bonus = parseInt(this.manualBonus.value);
-    if (
-      isNaN(bonus) ||
-      bonus < 1 ||
-      bonus > LottoViewer.MAX_ALLOWED_BALL
-    ) {
-      alert(
-        `Please enter a bonus ball between 1 and ${LottoViewer.MAX_ALLOWED_BALL}.`,
-      );
+    const hasBonus = game.bonusSemantics !== "none";
+    const bonus = hasBonus ? parseInt(this.manualBonus.value) : 0;
+    if (hasBonus && (isNaN(bonus) || bonus < 1 || bonus > maxBonusBall)) {
+      alert(`Please enter a bonus ball between 1 and ${maxBonusBall}.`);
       return;
     }
 
-    if (numbers.includes(bonus)) {
+    if (game.bonusSemantics === "shared-pool" && numbers.includes(bonus)) {
       alert("Bonus ball cannot duplicate one of the main numbers.");
       return;
     }
@@ -1203,28 +1964,24 @@ class LottoViewer {
     if (this.headers.length === 0) {
       this.headers = [
         "Date",
-        "Number1",
-        "Number2",
-        "Number3",
-        "Number4",
-        "Number5",
-        "Number6",
-        "Bonus",
+        ...Array.from({ length: game.pickCount }, (_, i) => `Number${i + 1}`),
+        ...(hasBonus ? ["Bonus"] : []),
       ];
     }
 
     // Map to the existing row structure if possible
     const newRow: LottoResult = {};
     const dateKey =
-      this.headers.find((h) => h.toLowerCase().includes("date")) || "Date";
+      getDateHeader(this.headers, this.columnMapping) ||
+      this.headers.find((h) => h.toLowerCase().includes("date")) ||
+      "Date";
     newRow[dateKey] = date;
 
-    const bonusKey =
-      this.headers.find((h) => this.isBonusHeader(h)) || "Bonus";
-    newRow[bonusKey] = bonus.toString();
+    const bonusKey = getBonusHeader(this.headers, this.columnMapping) || "Bonus";
+    if (hasBonus) newRow[bonusKey] = bonus.toString();
 
     // Map numbers to detected number columns first.
-    const numKeys = this.getMainNumberHeaders(this.headers);
+    const numKeys = getMainNumberHeaders(this.headers, this.ingestionContext());
     numbers
       .sort((a, b) => a - b)
       .forEach((n, i) => {
@@ -1233,110 +1990,600 @@ class LottoViewer {
         if (!this.headers.includes(key)) this.headers.push(key);
       });
 
-    // Handle missing header keys if any
-    if (!this.headers.includes(dateKey)) this.headers.push(dateKey);
-    if (!this.headers.includes(bonusKey)) this.headers.push(bonusKey);
+    // Handle missing header keys if any
+    if (!this.headers.includes(dateKey)) this.headers.push(dateKey);
+    if (hasBonus && !this.headers.includes(bonusKey)) {
+      this.headers.push(bonusKey);
+    }
+
+    const problems = this.rowProblems([...this.rawData, newRow], newRow);
+    if (problems.length > 0) {
+      alert(`This draw cannot be added:\n${problems.join("\n")}`);
+      return;
+    }
+
+    // If this was the first record, we need to ensure headers are set for rendering
+    if (this.rawData.length === 0) {
+      this.headers = Object.keys(newRow);
+    }
+
+    this.commitRowChange({
+      kind: "add",
+      index: this.rawData.length,
+      row: newRow,
+      at: new Date().toISOString(),
+    });
+
+    // Clear inputs
+    this.manualNums.forEach((input) => (input.value = ""));
+    this.manualBonus.value = "";
+    if (this.manualDate) this.manualDate.value = "";
+
+    console.log("Manual record added:", newRow);
+  }
+
+  private handleClearData() {
+    if (
+      confirm("Are you sure you want to clear ALL data? This cannot be undone.")
+    ) {
+      this.resetLoadedData();
+      this.clearLearningStateFromStorage();
+      this.resetEditHistory();
+      if (this.activeDataset) this.activeDataset.predictions = [];
+      this.saveActiveDataset();
+    }
+  }
+
+  // Drops the loaded history and everything derived from it, without persisting.
+  private resetLoadedData() {
+    if (this.predictionTimer !== null) {
+      window.clearTimeout(this.predictionTimer);
+      this.predictionTimer = null;
+    }
+    if (this.predictionWorker) {
+      this.predictionWorker.postMessage({
+        requestId: this.latestPredictionRequestId,
+        type: "cancel",
+      });
+    }
+    this.latestPredictionRequestId = ++this.predictionRequestId;
+    this.activePredictionAction = "idle";
+    this.activeWarmLearningState = null;
+    this.rawData = [];
+    this.filteredData = [];
+    this.drawRecords = [];
+    this.headers = [];
+    this.importIssues = [];
+    this.editingImportRow = null;
+    this.editingTableRow = null;
+    this.selectedPair = null;
+    this.selectedGapNumber = null;
+    this.renderImportReport();
+    this.mergeConflicts = [];
+    this.mergeSummary = "";
+    this.renderMergeConflicts();
+    this.closeSheetPicker();
+    this.columnMapping = null;
+    this.columnMappingPanel?.classList.add("hidden");
+    this.setColumnMappingEnabled(false);
+    this.dateFormat = null;
+    this.confirmedDateOrder = null;
+    this.renderDateFormatPanel();
+    this.latestPredictionSnapshot = null;
+    this.latestDiagnosticsSnapshot = null;
+    this.setDiagnosticsExportEnabled(false);
+    this.setTrainingControls(false);
+    this.renderTable();
+    document.getElementById("predictionPanel")!.classList.add("hidden");
+  }
+
+  private handleDeleteRow(rawDataIndex: number) {
+    const row = this.rawData[rawDataIndex];
+    if (row && confirm("Delete this record?")) {
+      if (this.editingTableRow === row) this.editingTableRow = null;
+      this.commitRowChange({
+        kind: "delete",
+        index: rawDataIndex,
+        row,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private handleEditRow(row: LottoResult) {
+    this.editingTableRow = row;
+    this.renderTable();
+  }
+
+  private handleSaveEditedRow(rawDataIndex: number, tr: HTMLTableRowElement) {
+    const before = this.rawData[rawDataIndex];
+    if (!before) return;
+    const after: LottoResult = { ...before };
+    tr.querySelectorAll<HTMLInputElement>("input[data-header]").forEach((input) => {
+      after[input.dataset.header as string] = input.value.trim();
+    });
+    this.editingTableRow = null;
+    if (Object.keys(after).every((key) => after[key] === (before[key] ?? ""))) {
+      this.renderTable();
+      return;
+    }
+
+    const candidate = [...this.rawData];
+    candidate[rawDataIndex] = after;
+    const problems = this.rowProblems(candidate, after);
+    if (problems.length > 0) {
+      this.editingTableRow = before;
+      alert(`This row cannot be saved:\n${problems.join("\n")}`);
+      return;
+    }
+    this.commitRowChange({
+      kind: "edit",
+      index: rawDataIndex,
+      before,
+      after,
+      at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Import validation run over the whole candidate history, so a changed row
+   * is also rejected when it duplicates another draw.
+   */
+  private rowProblems(candidate: LottoResult[], row: LottoResult): string[] {
+    const known = new Set(this.importIssues.map((issue) => issue.raw));
+    return parseDrawRows(candidate, this.headers, this.ingestionContext())
+      .issues.filter((issue) => issue.raw === row || !known.has(issue.raw))
+      .flatMap((issue) => issue.details);
+  }
+
+  private activeEditHistory(): EditHistory<LottoResult> | null {
+    const dataset = this.activeDataset;
+    if (!dataset) return null;
+    dataset.editHistory ??= createEditHistory();
+    return dataset.editHistory;
+  }
+
+  // Bulk imports renumber rows, which would leave recorded indexes pointing elsewhere.
+  private resetEditHistory() {
+    if (this.activeDataset) this.activeDataset.editHistory = createEditHistory();
+    this.renderEditHistoryControls();
+  }
+
+  /** Applies a manual change through the undo stack, then re-parses and retrains. */
+  private commitRowChange(edit: RowEdit<LottoResult>) {
+    const history = this.activeEditHistory();
+    if (history) commitRowEdit(history, this.rawData, edit);
+    else applyRowEdit(this.rawData, edit);
+    this.afterRowChange();
+  }
+
+  private handleUndoEdit() {
+    const history = this.activeEditHistory();
+    if (!history || !undoRowEdit(history, this.rawData)) return;
+    this.editingTableRow = null;
+    this.afterRowChange();
+  }
+
+  private handleRedoEdit() {
+    const history = this.activeEditHistory();
+    if (!history || !redoRowEdit(history, this.rawData)) return;
+    this.editingTableRow = null;
+    this.afterRowChange();
+  }
+
+  private afterRowChange() {
+    this.markLearningStateStale();
+    this.saveActiveDataset();
+    this.parseDrawRecords();
+    this.applyFilters();
+    this.renderEditHistoryControls();
+    this.schedulePredictionEngine();
+  }
+
+  private renderEditHistoryControls() {
+    const history = this.activeDataset?.editHistory;
+    const describe = (edit: RowEdit<LottoResult> | undefined) =>
+      edit ? `${edit.kind} (${new Date(edit.at).toLocaleString()})` : "";
+    if (this.undoEditBtn) {
+      this.undoEditBtn.disabled = !history?.undo.length;
+      this.undoEditBtn.title = `Undo ${describe(history?.undo[history.undo.length - 1])}`;
+    }
+    if (this.redoEditBtn) {
+      this.redoEditBtn.disabled = !history?.redo.length;
+      this.redoEditBtn.title = `Redo ${describe(history?.redo[history.redo.length - 1])}`;
+    }
+  }
+
+  // The stored state was trained on rows that no longer exist as they were.
+  private markLearningStateStale() {
+    const state = this.activeDataset?.learningState;
+    if (state && !state.staleSince) state.staleSince = new Date().toISOString();
+  }
+
+  private parseDrawRecords() {
+    this.applyParsedDraws(
+      parseDrawRows(this.rawData, this.headers, this.ingestionContext()),
+    );
+  }
+
+  private applyParsedDraws({ draws, issues, dateFormat }: ParsedDraws) {
+    this.drawRecords = draws;
+    this.importIssues = issues;
+    this.dateFormat = dateFormat;
+    this.renderDateFormatPanel();
+    if (
+      this.editingImportRow !== null &&
+      !issues.some((issue) => issue.rowIndex === this.editingImportRow)
+    ) {
+      this.editingImportRow = null;
+    }
+    this.renderImportReport();
+  }
+
+  // Without a confirmed order, each parse infers one from the date column.
+  private ingestionContext(): IngestionContext {
+    return {
+      game: this.activeGame,
+      mapping: this.columnMapping,
+      ...(this.confirmedDateOrder ? { dateOrder: this.confirmedDateOrder } : {}),
+    };
+  }
+
+  // Table rows are read with the same order the draws were parsed with.
+  private parseRowDate(row: LottoResult): Date | null {
+    return rowDate(row, {
+      ...this.ingestionContext(),
+      dateOrder: this.confirmedDateOrder ?? this.dateFormat?.order,
+    });
+  }
+
+  private rowDrawKey(row: LottoResult) {
+    const date = this.parseRowDate(row);
+    return {
+      date: date ? toIsoDate(date) : "",
+      ...readDrawId(row, this.columnMapping),
+    };
+  }
+
+  private renderDateFormatPanel() {
+    if (!this.dateFormatPanel || !this.dateOrderSelect) return;
+    const format = this.dateFormat;
+    const pending =
+      format !== null && format.ambiguous && this.confirmedDateOrder === null;
+    this.dateFormatPanel.classList.toggle("hidden", !pending);
+    if (!format || !pending) return;
+
+    if (this.dateFormatSummary) {
+      const labels = format.candidates.map((order) => DATE_ORDER_LABELS[order]);
+      this.dateFormatSummary.textContent = `All ${format.orderDependentCount} dates fit ${labels.join(" and ")}. They are read as ${DATE_ORDER_LABELS[format.order]} until you confirm.`;
+    }
+    const sample = format.samples[0];
+    this.dateOrderSelect.innerHTML = "";
+    format.candidates.forEach((order) => {
+      const option = document.createElement("option");
+      const reading = parseDateValue(sample, order);
+      option.value = order;
+      option.textContent = reading
+        ? `${DATE_ORDER_LABELS[order]} (${sample} = ${toIsoDate(reading)})`
+        : DATE_ORDER_LABELS[order];
+      this.dateOrderSelect!.appendChild(option);
+    });
+    this.dateOrderSelect.value = format.order;
+  }
+
+  private handleConfirmDateOrder() {
+    const order = DATE_ORDERS.find((entry) => entry === this.dateOrderSelect?.value);
+    if (!order) return;
+    this.confirmedDateOrder = order;
+    this.saveActiveDataset();
+    this.parseDrawRecords();
+    this.applyFilters();
+    this.schedulePredictionEngine(25);
+  }
+
+  private renderImportReport() {
+    if (!this.importReportPanel || !this.importReportContent) return;
+    const issues = this.importIssues;
+    this.importReportPanel.classList.toggle("hidden", issues.length === 0);
+    if (this.exportImportReportBtn) {
+      this.exportImportReportBtn.disabled = issues.length === 0;
+    }
+    if (this.importReportSummary) {
+      const rowLabel = issues.length === 1 ? "row was" : "rows were";
+      this.importReportSummary.textContent = `${issues.length} of ${this.rawData.length} imported ${rowLabel} rejected.`;
+    }
+
+    this.importReportContent.innerHTML = "";
+    issues.forEach((issue) => {
+      const item = document.createElement("div");
+      item.className = "import-issue";
+      item.dataset.row = String(issue.rowIndex);
+
+      const head = document.createElement("div");
+      head.className = "import-issue-head";
+      const rowLabel = document.createElement("span");
+      rowLabel.className = "import-issue-row";
+      rowLabel.textContent = `Row ${issue.rowIndex + 1}`;
+      const reasons = document.createElement("span");
+      reasons.className = "import-issue-reasons";
+      reasons.textContent = issue.reasons
+        .map((reason) => LottoViewer.IMPORT_REASON_LABELS[reason])
+        .join(" · ");
+      head.append(rowLabel, reasons);
+
+      const details = document.createElement("div");
+      details.className = "import-issue-detail";
+      details.textContent = issue.details.join("; ");
+
+      const raw = document.createElement("div");
+      raw.className = "import-issue-raw";
+      raw.textContent = this.headers
+        .map((header) => `${header}: ${issue.raw[header] ?? ""}`)
+        .join(" | ");
+
+      item.append(head, details, raw);
+
+      if (this.editingImportRow === issue.rowIndex) {
+        const editor = document.createElement("div");
+        editor.className = "import-issue-edit";
+        this.headers.forEach((header) => {
+          const label = document.createElement("label");
+          label.textContent = header;
+          const input = document.createElement("input");
+          input.type = "text";
+          input.value = issue.raw[header] ?? "";
+          input.dataset.header = header;
+          label.appendChild(input);
+          editor.appendChild(label);
+        });
+        const actions = document.createElement("div");
+        actions.className = "import-issue-actions";
+        actions.append(
+          this.createImportActionButton("Re-validate", "revalidate", "primary"),
+          this.createImportActionButton("Cancel", "cancel", "secondary"),
+        );
+        editor.appendChild(actions);
+        item.appendChild(editor);
+      } else {
+        head.appendChild(
+          this.createImportActionButton("Fix", "fix", "secondary"),
+        );
+      }
+
+      this.importReportContent!.appendChild(item);
+    });
+  }
+
+  private createImportActionButton(
+    text: string,
+    action: string,
+    variant: "primary" | "secondary",
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = `btn ${variant} small-btn`;
+    button.textContent = text;
+    button.dataset.action = action;
+    return button;
+  }
+
+  private handleImportReportClick(event: Event) {
+    const target = event.target as HTMLElement | null;
+    const button = target?.closest<HTMLButtonElement>("button[data-action]");
+    const item = target?.closest<HTMLElement>(".import-issue");
+    if (!button || !item) return;
+    const rowIndex = Number(item.dataset.row);
+    if (!Number.isInteger(rowIndex) || !this.rawData[rowIndex]) return;
+
+    if (button.dataset.action === "fix") {
+      this.editingImportRow = rowIndex;
+      this.renderImportReport();
+      return;
+    }
+    if (button.dataset.action === "cancel") {
+      this.editingImportRow = null;
+      this.renderImportReport();
+      return;
+    }
+    if (button.dataset.action === "revalidate") {
+      const updated: LottoResult = { ...this.rawData[rowIndex] };
+      item
+        .querySelectorAll<HTMLInputElement>("input[data-header]")
+        .forEach((input) => {
+          updated[input.dataset.header as string] = input.value.trim();
+        });
+      this.commitRowChange({
+        kind: "edit",
+        index: rowIndex,
+        before: this.rawData[rowIndex],
+        after: updated,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private handleExportImportReport() {
+    if (this.importIssues.length === 0) {
+      alert("No rejected rows to export.");
+      return;
+    }
+
+    const csvRows: string[] = [];
+    csvRows.push(
+      ["Row", "Reasons", "Details", ...this.headers]
+        .map((h) => this.escapeCsvField(h))
+        .join(","),
+    );
+    this.importIssues.forEach((issue) => {
+      const cols = [
+        String(issue.rowIndex + 1),
+        issue.reasons
+          .map((reason) => LottoViewer.IMPORT_REASON_LABELS[reason])
+          .join("; "),
+        issue.details.join("; "),
+        ...this.headers.map((header) => String(issue.raw[header] ?? "")),
+      ];
+      csvRows.push(cols.map((c) => this.escapeCsvField(c)).join(","));
+    });
+
+    const csv = csvRows.join("\r\n");
+    const blob = new Blob(["\uFEFF", csv], {
+      type: "text/csv;charset=utf-8;",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `import_report_${this.getLocalDateStamp()}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private loadColumnPresets(): Record<string, ColumnMappingPreset> {
+    try {
+      const raw = localStorage.getItem(this.COLUMN_PRESETS_KEY);
+      return raw ? (JSON.parse(raw) as Record<string, ColumnMappingPreset>) : {};
+    } catch (error) {
+      console.error("Failed to read column mapping presets:", error);
+      return {};
+    }
+  }
+
+  private saveColumnPreset(mapping: ColumnMapping) {
+    const signature = headerSignature(this.headers);
+    const presets = this.loadColumnPresets();
+    presets[signature] = {
+      signature,
+      headers: [...this.headers],
+      mapping,
+      savedAt: new Date().toISOString(),
+    };
+    try {
+      localStorage.setItem(this.COLUMN_PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.error("Failed to persist column mapping preset:", error);
+    }
+  }
+
+  /** Applies the saved preset for the current header row; false when none exists. */
+  private applyStoredColumnPreset(): boolean {
+    const preset = this.loadColumnPresets()[headerSignature(this.headers)];
+    this.columnMapping = preset ? preset.mapping : null;
+    this.setColumnMappingEnabled(this.headers.length > 0);
+    return preset !== undefined;
+  }
+
+  // Canonical dataset columns are known exactly, so no wizard is needed.
+  private applyDatasetColumnMapping(): boolean {
+    const mapping = datasetColumnMapping(this.headers, this.activeGame);
+    if (!mapping) return false;
+    this.columnMapping = mapping;
+    return true;
+  }
 
-    this.rawData.push(newRow);
-    this.saveToSessionStorage();
+  private setColumnMappingEnabled(enabled: boolean) {
+    if (this.openColumnMappingBtn) this.openColumnMappingBtn.disabled = !enabled;
+  }
 
-    // If this was the first record, we need to ensure headers are set for rendering
-    if (this.rawData.length === 1) {
-      this.headers = Object.keys(newRow);
-    }
+  private openColumnMappingWizard() {
+    if (!this.columnMappingPanel || this.headers.length === 0) return;
+    this.renderColumnMappingWizard(
+      this.columnMapping ?? guessColumnMapping(this.headers, this.activeGame),
+    );
+    this.columnMappingPanel.classList.remove("hidden");
+  }
 
-    this.parseDrawRecords();
-    this.applyFilters();
-    this.schedulePredictionEngine();
+  private renderColumnMappingWizard(mapping: ColumnMapping) {
+    if (!this.columnMappingContent) return;
+    const pickCount = this.activeGame.pickCount;
+    const roleOptions: Array<{ value: string; label: string }> = [
+      { value: "date", label: "Date" },
+      ...Array.from({ length: pickCount }, (_, i) => ({
+        value: `ball:${i + 1}`,
+        label: `Ball ${i + 1}`,
+      })),
+      { value: "bonus", label: "Bonus" },
+      { value: "draw-number", label: "Draw Number" },
+      { value: "jackpot", label: "Jackpot" },
+      { value: "rollover", label: "Rollover" },
+      ...Array.from({ length: this.activeGame.prizeDivisions?.length ?? 8 }, (_, i) => [
+        { value: `division-winners:${i + 1}`, label: `Div ${i + 1} Winners` },
+        { value: `division-payout:${i + 1}`, label: `Div ${i + 1} Payout` },
+      ]).flat(),
+      { value: "ignore", label: "Ignore" },
+    ];
 
-    // Clear inputs
-    this.manualNums.forEach((input) => (input.value = ""));
-    this.manualBonus.value = "";
+    const table = document.createElement("table");
+    table.className = "column-mapping-table";
+    const thead = document.createElement("thead");
+    const headerRow = document.createElement("tr");
+    const roleRow = document.createElement("tr");
+    this.headers.forEach((header) => {
+      const th = document.createElement("th");
+      th.textContent = header;
+      headerRow.appendChild(th);
+
+      const td = document.createElement("td");
+      const select = document.createElement("select");
+      select.dataset.header = header;
+      roleOptions.forEach((option) => {
+        const el = document.createElement("option");
+        el.value = option.value;
+        el.textContent = option.label;
+        select.appendChild(el);
+      });
+      const assignment = mapping[header] ?? { role: "ignore" };
+      const encoded = encodeAssignment(assignment);
+      select.value = roleOptions.some((o) => o.value === encoded)
+        ? encoded
+        : "ignore";
+      td.appendChild(select);
+      roleRow.appendChild(td);
+    });
+    thead.append(headerRow, roleRow);
 
-    console.log("Manual record added:", newRow);
-  }
+    const tbody = document.createElement("tbody");
+    this.rawData.slice(0, 5).forEach((row) => {
+      const tr = document.createElement("tr");
+      this.headers.forEach((header) => {
+        const td = document.createElement("td");
+        td.textContent = row[header] ?? "";
+        tr.appendChild(td);
+      });
+      tbody.appendChild(tr);
+    });
+    table.append(thead, tbody);
 
-  private handleClearData() {
-    if (
-      confirm("Are you sure you want to clear ALL data? This cannot be undone.")
-    ) {
-      if (this.predictionWorker) {
-        this.predictionWorker.postMessage({
-          requestId: this.latestPredictionRequestId,
-          type: "cancel",
-        });
-      }
-      this.latestPredictionRequestId = ++this.predictionRequestId;
-      sessionStorage.removeItem(this.STORAGE_KEY);
-      this.clearLearningStateFromStorage();
-      this.rawData = [];
-      this.filteredData = [];
-      this.drawRecords = [];
-      this.headers = [];
-      this.latestPredictionSnapshot = null;
-      this.latestDiagnosticsSnapshot = null;
-      this.setDiagnosticsExportEnabled(false);
-      this.setTrainingControls(false);
-      this.renderTable();
-      document.getElementById("predictionPanel")!.classList.add("hidden");
-    }
+    this.columnMappingContent.innerHTML = "";
+    this.columnMappingContent.appendChild(table);
   }
 
-  private handleDeleteRow(rawDataIndex: number) {
-    if (confirm("Delete this record?")) {
-      this.rawData.splice(rawDataIndex, 1);
-      this.saveToSessionStorage();
-      this.parseDrawRecords();
-      this.applyFilters();
-      this.schedulePredictionEngine();
-    }
+  private readColumnMappingWizard(): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    this.columnMappingContent
+      ?.querySelectorAll<HTMLSelectElement>("select[data-header]")
+      .forEach((select) => {
+        mapping[select.dataset.header as string] = decodeAssignment(select.value);
+      });
+    return mapping;
   }
 
-  private parseDrawRecords() {
-    const mainNumberHeaders = this.getMainNumberHeaders(this.headers);
-    this.drawRecords = this.rawData
-      .map((row) => {
-        const numbers =
-          mainNumberHeaders.length > 0
-            ? this.collectNumbersFromKnownHeaders(row, mainNumberHeaders)
-            : this.collectMainNumbersFromRowFallback(row);
-        if (numbers.length < 6) {
-          const fallback = this.collectMainNumbersFromRowFallback(row).filter(
-            (n) => !numbers.includes(n),
-          );
-          numbers.push(...fallback.slice(0, 6 - numbers.length));
-        }
-        let bonus = 0;
-        const dateVal = this.findDateValue(row) || "";
-
-        for (const [key, rawVal] of Object.entries(row)) {
-          if (this.isBonusHeader(key)) {
-            const parsedBonus = this.parseBallValue(rawVal);
-            bonus = parsedBonus ?? 0;
-            break;
-          }
-        }
+  private handleApplyColumnMapping(savePreset: boolean) {
+    const mapping = this.readColumnMappingWizard();
+    const errors = validateColumnMapping(mapping, this.activeGame.pickCount);
+    if (errors.length > 0) {
+      alert(`Column mapping is incomplete:\n${errors.join("\n")}`);
+      return;
+    }
 
-        const parsedDate = this.parseDateValue(dateVal);
-        const date = parsedDate ? this.toIsoDate(parsedDate) : dateVal;
-        return { date, numbers: [...numbers].sort((a, b) => a - b), bonus };
-      })
-      .filter((d) => {
-        const hasValidDate = this.parseDateValue(d.date) !== null;
-        const hasValidNumbers =
-          d.numbers.length === 6 &&
-          new Set(d.numbers).size === 6 &&
-          d.numbers.every((n) => n >= 1 && n <= LottoViewer.MAX_ALLOWED_BALL);
-        const hasValidBonus =
-          d.bonus === 0 ||
-          (d.bonus >= 1 && d.bonus <= LottoViewer.MAX_ALLOWED_BALL);
-        return hasValidDate && hasValidNumbers && hasValidBonus;
-      })
-      .sort(
-        (a, b) =>
-          (this.parseDateValue(a.date)?.getTime() || 0) -
-          (this.parseDateValue(b.date)?.getTime() || 0),
-      );
+    this.columnMapping = mapping;
+    if (savePreset) this.saveColumnPreset(mapping);
+    this.columnMappingPanel?.classList.add("hidden");
+    this.saveActiveDataset();
+    this.parseDrawRecords();
+    this.applyFilters();
+    this.schedulePredictionEngine(25);
   }
 
   private applyFilters() {
@@ -1350,19 +2597,16 @@ class LottoViewer {
         String(val).toLowerCase().includes(searchTerm),
       );
 
-      const dateVal = this.findDateValue(row);
       let matchesDate = true;
-      if (dateVal) {
-        const drawDate = this.parseDateValue(dateVal);
-        if (drawDate) {
-          if (from) {
-            const fromDate = new Date(`${from}T00:00:00`);
-            if (drawDate < fromDate) matchesDate = false;
-          }
-          if (to) {
-            const toDate = new Date(`${to}T23:59:59`);
-            if (drawDate > toDate) matchesDate = false;
-          }
+      const drawDate = this.parseRowDate(row);
+      if (drawDate) {
+        if (from) {
+          const fromDate = new Date(`${from}T00:00:00`);
+          if (drawDate < fromDate) matchesDate = false;
+        }
+        if (to) {
+          const toDate = new Date(`${to}T23:59:59`);
+          if (drawDate > toDate) matchesDate = false;
         }
       }
 
@@ -1370,161 +2614,21 @@ class LottoViewer {
     });
 
     this.filteredData.sort((a, b) => {
-      const dateA = this.parseDateValue(this.findDateValue(a))?.getTime() || 0;
-      const dateB = this.parseDateValue(this.findDateValue(b))?.getTime() || 0;
-      return sort === "desc" ? dateB - dateA : dateA - dateB;
+      const order = compareDraws(this.rowDrawKey(a), this.rowDrawKey(b));
+      return sort === "desc" ? -order : order;
     });
 
     this.renderTable();
   }
 
-  private findDateValue(row: LottoResult): string | null {
-    const keys = Object.keys(row);
-    const dateKey =
-      keys.find((k) => this.isDateHeader(k)) ||
-      keys.find((k) => k.toLowerCase().includes("drawdate")) ||
-      keys[0];
-    return row[dateKey];
-  }
-
-  private getMainNumberHeaders(headers: string[]): string[] {
-    const candidates = headers
-      .filter((h) => this.isMainNumberHeader(h))
-      .map((header, pos) => ({
-        header,
-        pos,
-        order: this.extractHeaderNumberIndex(header),
-      }))
-      .sort((a, b) => a.order - b.order || a.pos - b.pos)
-      .map((x) => x.header);
-
-    if (candidates.length >= 6) return candidates.slice(0, 6);
-    return candidates;
-  }
-
-  private isMainNumberHeader(header: string): boolean {
-    if (this.isDateHeader(header) || this.isBonusHeader(header)) return false;
-    const normalized = header.toLowerCase().replace(/[^a-z0-9]/g, "");
-    return (
-      /^(number|num|n|ball)\d+$/.test(normalized) ||
-      /^winningnumber\d*$/.test(normalized) ||
-      /^main\d+$/.test(normalized)
-    );
-  }
-
-  private isDateHeader(header: string): boolean {
-    const h = header.toLowerCase();
-    return /\bdate\b/.test(h) || h.includes("drawdate");
-  }
-
-  private isBonusHeader(header: string): boolean {
-    return /\bbonus\b/.test(header.toLowerCase());
-  }
-
-  private extractHeaderNumberIndex(header: string): number {
-    const match = header.match(/\d+/);
-    return match ? parseInt(match[0], 10) : Number.MAX_SAFE_INTEGER;
-  }
-
-  private collectNumbersFromKnownHeaders(
-    row: LottoResult,
-    headers: string[],
-  ): number[] {
-    const values: number[] = [];
-    for (const header of headers) {
-      const parsed = this.parseBallValue(row[header]);
-      if (parsed !== null) values.push(parsed);
-    }
-    return values;
-  }
-
-  private collectMainNumbersFromRowFallback(row: LottoResult): number[] {
-    const values: number[] = [];
-    for (const [key, rawVal] of Object.entries(row)) {
-      if (this.isDateHeader(key) || this.isBonusHeader(key)) continue;
-      if (this.shouldSkipAsMetadataKey(key)) continue;
-      const parsed = this.parseBallValue(rawVal);
-      if (parsed !== null) values.push(parsed);
-    }
-    return values.slice(0, 6);
-  }
-
-  private shouldSkipAsMetadataKey(key: string): boolean {
-    const h = key.toLowerCase();
-    return (
-      /\b(day|jackpot|outcome|prize|payout|id|result|ticket)\b/.test(h) ||
-      /\bdraw(no|number)?\b/.test(h)
-    );
-  }
-
-  private parseBallValue(value: string | undefined): number | null {
-    const n = parseInt(String(value ?? "").trim(), 10);
-    if (!Number.isFinite(n)) return null;
-    if (n < 1 || n > LottoViewer.MAX_ALLOWED_BALL) return null;
-    return n;
-  }
-
-  private parseDateValue(value: string | null | undefined): Date | null {
-    const raw = String(value ?? "").trim();
-    if (!raw) return null;
-
-    const ymd = raw.match(
-      /^(\d{4})[\/.-](\d{1,2})[\/.-](\d{1,2})(?:[ T].*)?$/,
-    );
-    if (ymd) {
-      const parsed = this.makeValidDate(
-        parseInt(ymd[1], 10),
-        parseInt(ymd[2], 10),
-        parseInt(ymd[3], 10),
-      );
-      if (parsed) return parsed;
-    }
-
-    const dmy = raw.match(
-      /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})(?:[ T].*)?$/,
-    );
-    if (dmy) {
-      // Prefer day-first for regional lottery exports, with month-first fallback.
-      const dayFirst = this.makeValidDate(
-        parseInt(dmy[3], 10),
-        parseInt(dmy[2], 10),
-        parseInt(dmy[1], 10),
-      );
-      if (dayFirst) return dayFirst;
-
-      const monthFirst = this.makeValidDate(
-        parseInt(dmy[3], 10),
-        parseInt(dmy[1], 10),
-        parseInt(dmy[2], 10),
-      );
-      if (monthFirst) return monthFirst;
-    }
-
-    return null;
-  }
-
-  private makeValidDate(year: number, month: number, day: number): Date | null {
-    const dt = new Date(year, month - 1, day);
-    if (
-      dt.getFullYear() !== year ||
-      dt.getMonth() !== month - 1 ||
-      dt.getDate() !== day
-    ) {
-      return null;
-    }
-    return dt;
-  }
-
-  private toIsoDate(date: Date): string {
-    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
-      date.getDate(),
-    ).padStart(2, "0")}`;
-  }
-
   private renderTable() {
     this.tableHeader.innerHTML = "";
     this.tableBody.innerHTML = "";
     this.setExportButtonEnabled(this.filteredData.length > 0);
+    if (this.appendDrawsBtn) this.appendDrawsBtn.disabled = this.rawData.length === 0;
+    [this.exportDatasetJsonBtn, this.exportDatasetNdjsonBtn].forEach((btn) => {
+      if (btn) btn.disabled = this.drawRecords.length === 0;
+    });
     this.updateTableStats();
 
     if (this.filteredData.length === 0) {
@@ -1562,28 +2666,48 @@ class LottoViewer {
         tr.classList.add("row-special");
       }
 
+      const editing = row === this.editingTableRow;
+      if (editing) tr.classList.add("row-editing");
+
       visibleHeaders.forEach((header) => {
         const td = document.createElement("td");
         const val = row[header];
-        td.textContent = val;
+        if (editing) {
+          const input = document.createElement("input");
+          input.type = "text";
+          input.value = val ?? "";
+          input.dataset.header = header;
+          input.className = "cell-edit-input";
+          input.addEventListener("keydown", (event) => {
+            if (event.key === "Enter") this.handleSaveEditedRow(rawIndex, tr);
+            if (event.key === "Escape") {
+              this.editingTableRow = null;
+              this.renderTable();
+            }
+          });
+          td.appendChild(input);
+        } else {
+          td.textContent = val;
+        }
 
         if (this.isNumberColumn(header)) td.classList.add("col-number");
         if (header.toLowerCase().includes("date")) td.classList.add("col-date");
 
         if (this.rules.ranges.checked && this.isNumberColumn(header)) {
           const n = parseInt(val);
-          if (!isNaN(n)) {
-            if (n >= 1 && n <= 14) td.classList.add("cell-low-range");
-            else if (n >= 15 && n <= 28) td.classList.add("cell-med-range");
-            else if (n >= 29 && n <= 42)
-              td.classList.add("cell-med-high-range");
-            else if (n >= 43 && n <= 58) td.classList.add("cell-high-range");
+          const rangePool =
+            isBonusColumn(header, this.columnMapping) &&
+            this.activeGame.bonusSemantics === "separate-pool"
+              ? getMaxBonusBall(this.activeGame)
+              : getMaxMainBall(this.activeGame);
+          if (!isNaN(n) && n >= 1 && n <= rangePool) {
+            td.classList.add(LottoViewer.RANGE_CLASS_BY_GROUP[getGroup(n, rangePool)]);
           }
         }
 
         if (
           this.rules.bonus.checked &&
-          header.toLowerCase().includes("bonus")
+          isBonusColumn(header, this.columnMapping)
         ) {
           td.classList.add("cell-bonus");
         }
@@ -1591,9 +2715,32 @@ class LottoViewer {
         tr.appendChild(td);
       });
 
-      // Add delete button
+      // Add edit and delete buttons
       const actionTd = document.createElement("td");
       actionTd.classList.add("col-actions");
+      if (editing) {
+        const saveBtn = document.createElement("button");
+        saveBtn.innerHTML = "✓";
+        saveBtn.className = "edit-btn";
+        saveBtn.title = "Save Row";
+        saveBtn.onclick = () => this.handleSaveEditedRow(rawIndex, tr);
+        const cancelBtn = document.createElement("button");
+        cancelBtn.innerHTML = "↺";
+        cancelBtn.className = "edit-btn";
+        cancelBtn.title = "Cancel Edit";
+        cancelBtn.onclick = () => {
+          this.editingTableRow = null;
+          this.renderTable();
+        };
+        actionTd.append(saveBtn, cancelBtn);
+      } else {
+        const editBtn = document.createElement("button");
+        editBtn.innerHTML = "✎";
+        editBtn.className = "edit-btn";
+        editBtn.title = "Edit Row";
+        editBtn.onclick = () => this.handleEditRow(row);
+        actionTd.appendChild(editBtn);
+      }
       const delBtn = document.createElement("button");
       delBtn.innerHTML = "×";
       delBtn.className = "delete-btn";
@@ -1638,6 +2785,34 @@ class LottoViewer {
     URL.revokeObjectURL(url);
   }
 
+  // Exports every accepted draw (not just the filtered view) in the canonical format.
+  private handleExportDataset(encoding: DatasetEncoding) {
+    if (this.drawRecords.length === 0) {
+      alert("No valid draws available to export.");
+      return;
+    }
+
+    const draws = canonicalDrawsOf(this.rawData, this.headers, this.importIssues, {
+      ...this.ingestionContext(),
+      dateOrder: this.confirmedDateOrder ?? this.dateFormat?.order,
+    });
+    const dataset = createDrawDataset(this.activeGame, draws);
+    const blob = new Blob([serializeDrawDataset(dataset, encoding)], {
+      type:
+        encoding === "json"
+          ? "application/json;charset=utf-8;"
+          : "application/x-ndjson;charset=utf-8;",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${this.activeGame.id}_draws_${this.getLocalDateStamp()}.${encoding}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
   private handleExportDiagnostics() {
     if (!this.latestPredictionSnapshot || !this.latestDiagnosticsSnapshot) {
       this.setDiagnosticsExportEnabled(false);
@@ -1687,6 +2862,7 @@ class LottoViewer {
               poolSize: persistedLearningState.poolSize,
               score: persistedLearningState.score,
               bestProfileName: persistedLearningState.bestProfile.name,
+              staleSince: persistedLearningState.staleSince ?? null,
             }
           : null,
         backtestWarmStartApplied:
@@ -1712,8 +2888,13 @@ class LottoViewer {
     URL.revokeObjectURL(url);
   }
 
+  // The draw number leads the table since it orders the rows.
   private getVisibleHeaders(): string[] {
-    return this.headers.filter((h) => !this.shouldHideTableColumn(h));
+    const drawIdHeader = getDrawNumberHeader(this.headers, this.columnMapping);
+    const visible = this.headers.filter(
+      (h) => h !== drawIdHeader && !this.shouldHideTableColumn(h),
+    );
+    return drawIdHeader ? [drawIdHeader, ...visible] : visible;
   }
 
   private setExportButtonEnabled(enabled: boolean) {
@@ -1762,6 +2943,7 @@ class LottoViewer {
   }
 
   private isNumberColumn(header: string): boolean {
+    if (header === getDrawNumberHeader(this.headers, this.columnMapping)) return false;
     const h = header.toLowerCase();
     return (
       !h.includes("date") &&
@@ -1771,23 +2953,26 @@ class LottoViewer {
     );
   }
 
+  // A won jackpot when the row has division data; otherwise a jackpot amount of R1m+.
   private isJackpotRow(row: LottoResult): boolean {
-    return Object.values(row).some((v) => {
-      const n = String(v).replace(/[^0-9.-]+/g, "");
-      const price = parseFloat(n);
-      return !isNaN(price) && price > 1000000;
-    });
+    const prizes = readDrawPrizes(row, this.columnMapping);
+    if (!prizes) return false;
+    if (prizes.rollover !== null) return !prizes.rollover;
+    return prizes.jackpot !== null && prizes.jackpot >= 1000000;
   }
 
   private isRecentDraw(row: LottoResult): boolean {
-    const dateVal = this.findDateValue(row);
-    if (!dateVal) return false;
-    const drawDate = this.parseDateValue(dateVal);
+    const drawDate = this.parseRowDate(row);
     if (!drawDate) return false;
     const now = new Date();
     return now.getTime() - drawDate.getTime() < 1000 * 60 * 60 * 24 * 30;
   }
 
+  private formatDrawDate(draw: Pick<DrawRecord, "date" | "drawNumber" | "drawLabel">) {
+    const drawId = drawIdOf(draw);
+    return drawId !== null ? `${draw.date} · Draw ${drawId}` : draw.date;
+  }
+
   private showLoader(show: boolean) {
     this.loader.classList.toggle("hidden", !show);
   }
@@ -1814,7 +2999,8 @@ class LottoViewer {
     }
   }
 
-  private async handleGenerateCandidates() {
+  /** Regenerates candidates from the last trained model; `diagnostics` overrides the trained snapshot. */
+  private async handleGenerateCandidates(diagnostics?: DiagnosticsSnapshot) {
     if (this.drawRecords.length < LottoViewer.MIN_PREDICTION_DRAWS) {
       alert(
         `Not enough historical rows loaded. At least ${LottoViewer.MIN_PREDICTION_DRAWS} valid draws are needed.`,
@@ -1830,7 +3016,7 @@ class LottoViewer {
     }
 
     const basePrediction = this.latestPredictionSnapshot;
-    const baseDiagnostics = this.latestDiagnosticsSnapshot;
+    const baseDiagnostics = diagnostics ?? this.latestDiagnosticsSnapshot;
     const modelSettings = this.getModelSettings();
     this.saveModelSettingsToStorage();
 
@@ -1904,6 +3090,8 @@ class LottoViewer {
       "diagContent",
       "backtestContent",
       "hotColdGrid",
+      "gapSurvivalContent",
+      "setShapeContent",
       "topPairsContent",
       "groupPatternsContent",
       "predictedSets",
@@ -1945,7 +3133,12 @@ class LottoViewer {
     window.setTimeout(() => {
       try {
         this.updatePredictionProgress(10, "Running diagnostics on main thread");
-        const diagnostics = runFullDiagnostics(this.drawRecords);
+        // The fair-draw simulations would block the page, so they stay in the worker.
+        const diagnostics = runFullDiagnostics(this.drawRecords, {
+          ...diagnosticsOptionsFromSettings(modelSettings),
+          uniformityTrials: 0,
+          calibrationTrials: 0,
+        });
         const prediction = runPrediction(this.drawRecords, diagnostics, {
           onProgress: (progress, stage) => {
             this.updatePredictionProgress(20 + progress * 75, stage);
@@ -2051,6 +3244,7 @@ class LottoViewer {
     this.latestDiagnosticsSnapshot = diagnostics;
     this.latestPredictionSnapshot = prediction;
     this.saveLearningStateFromPrediction(prediction);
+    if (!options.suppressStatusUpdate) this.recordPrediction(prediction);
     this.setDiagnosticsExportEnabled(true);
     this.poolSize = diagnostics.poolSize;
 
@@ -2070,10 +3264,12 @@ class LottoViewer {
     this.renderHotCold(diagnostics);
 
     // Pairs
+    this.renderGapSurvival(diagnostics);
     this.renderTopPairs(diagnostics);
 
     // Group Patterns
     this.renderGroupPatterns(diagnostics);
+    this.renderSetShape(diagnostics);
 
     // Predicted Sets
     this.renderPredictedSets(prediction);
@@ -2087,15 +3283,147 @@ class LottoViewer {
   }
 
   private renderDiagnostics(diag: ReturnType<typeof runFullDiagnostics>) {
+    const calibration = diag.biasCalibration;
+    const percent = (rate: number) => `${(rate * 100).toFixed(rate < 0.1 ? 1 : 0)}%`;
+    const fairRateOf = (reason: string) => {
+      // Without the fair-draw simulation there is no rate to attach.
+      if (!calibration) {
+        return ' <small title="Enable Simulate Fair-Draw Null to measure how often fair draws raise it">(uncalibrated)</small>';
+      }
+      const rule = calibration.rules.find((entry) => entry.reason === reason);
+      return rule
+        ? ` <small>(fair draws: ${percent(rule.fairTriggerRate)} · null p=${this.formatPValue(rule.nullPValue)})</small>`
+        : "";
+    };
+    const calibrationSummary = calibration
+      ? `
+      <div class="diag-stat">
+        <span class="diag-label">Fair-Draw Alarm Rate (${calibration.trials} sims)</span>
+        <span class="diag-value">${percent(calibration.anyTriggerRate)}</span>
+      </div>`
+      : "";
+    const ballsNote = ` <small>(${LottoViewer.BONUS_POLICY_NOTES[diag.bonusPolicy]})</small>`;
+    const { gTest, ksTest, monteCarlo } = diag.chiSquare;
+    const uniformityRows = [
+      { label: "G-Test p-value", pValue: gTest.pValue },
+      { label: "Kolmogorov–Smirnov p-value", pValue: ksTest.pValue },
+      ...(monteCarlo
+        ? [{ label: `Monte Carlo p-value (${monteCarlo.trials} runs)`, pValue: monteCarlo.pValue }]
+        : []),
+    ]
+      .map(
+        ({ label, pValue }) => `
+      <div class="diag-stat">
+        <span class="diag-label">${label}${ballsNote}</span>
+        <span class="diag-value ${pValue > 0.05 ? "pass" : "fail"}">${this.formatPValue(pValue)}</span>
+      </div>`,
+      )
+      .join("");
+    const featureRows = diag.featureSequences
+      .map((feature) => {
+        const strongest = feature.serial.reduce((best, s) => (s.pValue < best.pValue ? s : best));
+        const flagged = featureTestsOf(feature).some((test) => test.isSignificant);
+        return `
+      <div class="diag-stat">
+        <span class="diag-label">${feature.label} sequence <small>(runs ${feature.runs.runs} vs ${feature.runs.expectedRuns.toFixed(1)} · lag ${strongest.lag} r=${strongest.correlation.toFixed(3)})</small></span>
+        <span class="diag-value ${flagged ? "fail" : "pass"}">p=${this.formatPValue(Math.min(feature.runs.pValue, strongest.pValue))}</span>
+      </div>`;
+      })
+      .join("");
+    const dependentLags = diag.transitionIndependence.filter((t) => !t.isIndependent);
+    const independenceRow = diag.transitionIndependence.length
+      ? `
+      <div class="diag-stat">
+        <span class="diag-label">Draw-to-Draw Independence χ² <small>(${diag.transitionIndependence.map((t) => `lag ${t.lag} p=${this.formatPValue(t.pValue)}`).join(" · ")})</small></span>
+        <span class="diag-value ${dependentLags.length === 0 ? "pass" : "fail"}">${dependentLags.length === 0 ? "Independent ✓" : `Lag ${dependentLags.map((t) => t.lag).join(", ")} ✗`}</span>
+      </div>`
+      : "";
     const container = document.getElementById("diagContent")!;
     const sigAutocorr = diag.autocorrelation.filter(
       (a) => a.isSignificant,
     ).length;
+    const bonusDiag = diag.bonus;
+    const hotBonus = bonusDiag
+      ? bonusDiag.hotCold.filter((h) => h.status === "hot").map((h) => h.number)
+      : [];
+    const overdueBonus = bonusDiag
+      ? bonusDiag.gaps.filter((g) => g.isOverdue).map((g) => g.number)
+      : [];
+    const bonusSummary = bonusDiag
+      ? `
+      <div class="diag-stat">
+        <span class="diag-label">Bonus Drum (analysed separately)</span>
+        <span class="diag-value">1/${bonusDiag.poolSize} · ${bonusDiag.drawCount} draws</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Hot Bonus Balls</span>
+        <span class="diag-value">${hotBonus.length > 0 ? hotBonus.join(", ") : "None"}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Overdue Bonus Balls</span>
+        <span class="diag-value">${overdueBonus.length > 0 ? overdueBonus.join(", ") : "None"}</span>
+      </div>
+    `
+      : "";
+    const prizeSummary = diag.prizes ? this.renderPrizeSummary(diag.prizes) : "";
+
+    const calendar = diag.drawCalendar;
+    const calendarWarning =
+      calendar.holes.length > 0
+        ? `
+      <div class="warning-banner">
+        <div>${this.describeDrawHoles(calendar)}</div>
+        ${calendar.holes
+          .slice(0, 4)
+          .map((hole) => {
+            const parts: string[] = [];
+            if (hole.missingDates.length > 0) {
+              parts.push(this.formatCount(hole.missingDates.length, "scheduled draw"));
+            }
+            if (hole.skippedDrawNumbers) {
+              const { from, to } = hole.skippedDrawNumbers;
+              parts.push(from === to ? `draw ${from}` : `draws ${from}–${to}`);
+            }
+            return `<div class="bias-reason">• ${hole.afterDate} → ${hole.beforeDate}: ${parts.join(", ")} missing</div>`;
+          })
+          .join("")}
+        ${calendar.holes.length > 4 ? `<div class="bias-reason">• …and ${calendar.holes.length - 4} more</div>` : ""}
+        <label>
+          <input id="diagExcludeLagAcrossHoles" type="checkbox" ${diag.excludeLagAcrossHoles ? "checked" : ""} />
+          Exclude gap, autocorrelation and transition analyses across these holes
+        </label>
+      </div>`
+        : "";
+
+    const eraSummary = diag.eras
+      .map((era, idx) => {
+        let basis = "";
+        if (era.source === "declared") {
+          basis = " · declared";
+        } else if (idx > 0) {
+          const earliest =
+            era.earliestStartDate && era.earliestStartDate !== era.startDate
+              ? `, may start from ${era.earliestStartDate}`
+              : "";
+          basis = ` · detected (${(era.confidence * 100).toFixed(0)}% confidence${earliest})`;
+        }
+        return `
+      <div class="diag-stat">
+        <span class="diag-label">Era ${diag.pickCount}/${era.poolSize}</span>
+        <span class="diag-value">${era.startDate} → ${era.endDate} (${era.drawCount} draws${basis})</span>
+      </div>`;
+      })
+      .join("");
 
     container.innerHTML = `
+      ${calendarWarning}
       <div class="diag-stat">
         <span class="diag-label">Game Format</span>
-        <span class="diag-value">6/${diag.poolSize}</span>
+        <span class="diag-value">${diag.game.name} · ${diag.pickCount}/${diag.poolSize}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Bonus Treatment</span>
+        <span class="diag-value">${LottoViewer.BONUS_POLICY_LABELS[diag.bonusPolicy]}</span>
       </div>
       <div class="diag-stat">
         <span class="diag-label">Current Era Draws</span>
@@ -2105,22 +3433,33 @@ class LottoViewer {
         <span class="diag-label">Total Historical Draws</span>
         <span class="diag-value">${diag.totalDraws}</span>
       </div>
+      ${eraSummary}
       <div class="diag-stat">
-        <span class="diag-label">Chi-Square (χ²)</span>
+        <span class="diag-label">Chi-Square (χ²)${ballsNote}</span>
         <span class="diag-value">${diag.chiSquare.chiSquare.toFixed(2)}</span>
       </div>
       <div class="diag-stat">
-        <span class="diag-label">Chi-Square p-value</span>
-        <span class="diag-value ${diag.chiSquare.isUniform ? "pass" : "fail"}">${diag.chiSquare.pValue.toFixed(4)}</span>
+        <span class="diag-label">Chi-Square p-value${ballsNote}</span>
+        <span class="diag-value ${diag.chiSquare.isUniform ? "pass" : "fail"}">${this.formatPValue(diag.chiSquare.pValue)}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Cramér's V${ballsNote}</span>
+        <span class="diag-value">${diag.chiSquare.cramersV.toFixed(4)}</span>
       </div>
+      ${uniformityRows}
       <div class="diag-stat">
         <span class="diag-label">Uniform Distribution?</span>
         <span class="diag-value ${diag.chiSquare.isUniform ? "pass" : "fail"}">${diag.chiSquare.isUniform ? "Yes ✓" : "No ✗"}</span>
       </div>
       <div class="diag-stat">
-        <span class="diag-label">Sig. Autocorrelations</span>
+        <span class="diag-label">Sig. Autocorrelations (Holm)${ballsNote}</span>
         <span class="diag-value ${sigAutocorr === 0 ? "pass" : "fail"}">${sigAutocorr} / ${diag.poolSize}</span>
       </div>
+      ${featureRows}
+      ${independenceRow}
+      ${bonusSummary}
+      ${prizeSummary}
+      ${calibrationSummary}
       <div class="diag-stat">
         <span class="diag-label">Bias Detected?</span>
         <span class="diag-value ${diag.biasDetected ? "fail" : "pass"}">${diag.biasDetected ? "Yes ⚠" : "No ✓"}</span>
@@ -2128,7 +3467,7 @@ class LottoViewer {
       ${
         diag.biasDetected
           ? `<div class="bias-reasons">
-              ${diag.biasReasons.map((r) => `<div class="bias-reason">• ${r}</div>`).join("")}
+              ${diag.biasReasons.map((r) => `<div class="bias-reason">• ${r}${fairRateOf(r)}</div>`).join("")}
             </div>`
           : ""
       }
@@ -2138,11 +3477,83 @@ class LottoViewer {
       </div>
     `;
 
+    container
+      .querySelector<HTMLInputElement>("#diagExcludeLagAcrossHoles")
+      ?.addEventListener("change", (event) =>
+        this.handleExcludeLagAcrossHolesChange(
+          (event.target as HTMLInputElement).checked,
+        ),
+      );
+
     const btContainer = document.getElementById("backtestContent")!;
     btContainer.innerHTML =
       '<div class="diag-stat"><span class="diag-label">Running...</span></div>';
   }
 
+  private renderPrizeSummary(prizes: PrizeAnalysis): string {
+    const money = (amount: number | null) =>
+      amount === null ? "—" : `R${amount.toLocaleString("en-ZA", { maximumFractionDigits: 2 })}`;
+    const streaks = prizes.rolloverStreaks;
+    const relation = prizes.jackpotVsWinners;
+    const buckets = relation.buckets
+      .map(
+        (bucket) =>
+          `<div class="bias-reason">• ${money(bucket.minJackpot)}–${money(bucket.maxJackpot)}: ${bucket.avgWinners.toFixed(0)} winners/draw (${bucket.draws} draws)</div>`,
+      )
+      .join("");
+    const divisions = prizes.divisions
+      .filter((d) => d.avgPayout !== null)
+      .map(
+        (d) =>
+          `<div class="bias-reason">• Div ${d.division}: avg ${money(d.avgPayout)}${d.probability !== null ? ` · 1 in ${Math.round(1 / d.probability).toLocaleString("en-ZA")}` : ""}${d.expectedValue !== null ? ` · EV ${money(d.expectedValue)}` : ""}</div>`,
+      )
+      .join("");
+    return `
+      <div class="diag-stat">
+        <span class="diag-label">Draws With Prize Data</span>
+        <span class="diag-value">${prizes.drawsWithPrizes}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Rollover Streaks</span>
+        <span class="diag-value">current ${streaks.current} · longest ${streaks.longest} · avg ${streaks.average.toFixed(1)}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Jackpot vs Winners (r)</span>
+        <span class="diag-value">${relation.correlation !== null ? relation.correlation.toFixed(2) : "—"} · ${relation.samples} draws</span>
+      </div>
+      ${buckets ? `<div class="bias-reasons">${buckets}</div>` : ""}
+      <div class="diag-stat">
+        <span class="diag-label">Expected Value per Ticket</span>
+        <span class="diag-value">${money(prizes.expectedValuePerTicket)}</span>
+      </div>
+      ${divisions ? `<div class="bias-reasons">${divisions}</div>` : ""}
+    `;
+  }
+
+  private describeDrawHoles(calendar: DrawCalendarReport): string {
+    const missing: string[] = [];
+    if (calendar.missingDateCount > 0) {
+      const days = calendar.drawDays.map((day) => WEEKDAY_NAMES[day]).join("/");
+      missing.push(
+        `${this.formatCount(calendar.missingDateCount, "scheduled draw")} (${days}) with no result`,
+      );
+    }
+    if (calendar.skippedDrawNumberCount > 0) {
+      missing.push(
+        `${this.formatCount(calendar.skippedDrawNumberCount, "skipped draw number")}`,
+      );
+    }
+    return `History has ${this.formatCount(calendar.holes.length, "hole")}: ${missing.join(" and ")}.`;
+  }
+
+  // Mirrors the model setting so the next run uses it.
+  private handleExcludeLagAcrossHolesChange(exclude: boolean) {
+    if (this.settingExcludeLagAcrossHoles) {
+      this.settingExcludeLagAcrossHoles.checked = exclude;
+    }
+    void this.handleRerun();
+  }
+
   private renderHotCold(diag: ReturnType<typeof runFullDiagnostics>) {
     const grid = document.getElementById("hotColdGrid")!;
     grid.innerHTML = "";
@@ -2156,15 +3567,186 @@ class LottoViewer {
     }
   }
 
+  private renderGapSurvival(diag: ReturnType<typeof runFullDiagnostics>) {
+    const container = this.gapSurvivalContent;
+    if (!container) return;
+    if (diag.gaps.length === 0) {
+      container.innerHTML = "";
+      return;
+    }
+    const p = Math.min(
+      1,
+      layoutBallCount(layoutForGame(diag.game, diag.bonusPolicy)) / diag.poolSize,
+    );
+    const longest = [...diag.gaps]
+      .sort((a, b) => a.currentGapTail - b.currentGapTail)
+      .slice(0, 8);
+    const gap =
+      diag.gaps.find((g) => g.number === this.selectedGapNumber) ?? longest[0];
+    const fit = gap.geometricFit;
+    const completed = gap.histogram.reduce((sum, count) => sum + count, 0);
+
+    container.innerHTML = `
+      <div class="gap-list">
+        ${longest
+          .map(
+            (g) =>
+              `<button type="button" class="gap-chip${g === gap ? " selected" : ""}${g.isOverdue ? " overdue" : ""}" data-number="${g.number}">${g.number} <small>gap ${g.currentGap} · P=${this.formatPValue(g.currentGapTail)}</small></button>`,
+          )
+          .join("")}
+        <select class="gap-select" aria-label="Number">
+          ${diag.gaps
+            .map(
+              (g) =>
+                `<option value="${g.number}"${g === gap ? " selected" : ""}>${g.number}</option>`,
+            )
+            .join("")}
+        </select>
+      </div>
+      ${this.renderSurvivalChart(gap, p)}
+      <div class="diag-stat">
+        <span class="diag-label">Current gap ${gap.currentGap} · P(at least this long)</span>
+        <span class="diag-value ${gap.isOverdue ? "fail" : "pass"}">${this.formatPValue(gap.currentGapTail)} <small>(Holm ${this.formatPValue(gap.currentGapAdjusted.holm)})</small></span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Completed gaps · avg ${gap.avgGap.toFixed(1)} (fair ${(1 / p).toFixed(1)}) · max ${gap.maxGap}</span>
+        <span class="diag-value">${completed}</span>
+      </div>
+      <div class="diag-stat">
+        <span class="diag-label">Geometric fit${fit ? ` χ²(${fit.degreesOfFreedom}) = ${fit.chiSquare.toFixed(2)}` : ""}</span>
+        <span class="diag-value ${fit && fit.adjusted.holm < FAMILY_SIGNIFICANCE ? "fail" : "pass"}">${fit ? `p=${this.formatPValue(fit.pValue)}` : "Too few gaps"}</span>
+      </div>
+    `;
+  }
+
+  /** Kaplan–Meier survival of one number's gaps against the fair geometric curve. */
+  private renderSurvivalChart(gap: GapResult, p: number): string {
+    const width = 300;
+    const height = 110;
+    // Show the curve out to where a fair gap survives with 1% probability.
+    const fairHorizon = p > 0 && p < 1 ? Math.ceil(Math.log(0.01) / Math.log(1 - p)) : 1;
+    const horizon = Math.max(1, gap.survival.length - 1, gap.currentGap, fairHorizon);
+    const x = (g: number) => ((g / horizon) * width).toFixed(1);
+    const y = (s: number) => ((1 - s) * height).toFixed(1);
+
+    let observed = `M ${x(0)} ${y(gap.survival[0] ?? 1)}`;
+    for (let g = 1; g < gap.survival.length; g++) {
+      observed += ` H ${x(g)} V ${y(gap.survival[g])}`;
+    }
+    const fair = Array.from({ length: horizon + 1 }, (_, g) => `${x(g)},${y((1 - p) ** g)}`).join(" ");
+
+    return `
+      <svg class="survival-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" role="img" aria-label="Gap survival for ${gap.number}">
+        <polyline class="survival-fair" points="${fair}" />
+        <path class="survival-observed" d="${observed}" />
+        <line class="survival-current" x1="${x(gap.currentGap)}" x2="${x(gap.currentGap)}" y1="0" y2="${height}" />
+      </svg>
+      <div class="pair-heatmap-legend">
+        <span>Solid: observed P(gap &gt; g) · Dashed: fair geometric</span>
+        <span>Marker: current gap</span>
+      </div>`;
+  }
+
+  private handleGapSelect(event: Event) {
+    const target = event.target as HTMLElement | null;
+    const diag = this.latestDiagnosticsSnapshot;
+    if (!target || !diag) return;
+    if (event.type === "change" && target instanceof HTMLSelectElement) {
+      this.selectedGapNumber = Number(target.value);
+    } else if (event.type === "click") {
+      const chip = target.closest<HTMLElement>("[data-number]");
+      if (!chip) return;
+      this.selectedGapNumber = Number(chip.dataset.number);
+    } else {
+      return;
+    }
+    this.renderGapSurvival(diag);
+  }
+
   private renderTopPairs(diag: ReturnType<typeof runFullDiagnostics>) {
-    const container = document.getElementById("topPairsContent")!;
+    const container = this.topPairsContent;
+    if (!container) return;
     const top15 = diag.topPairs.slice(0, 15);
+    const matrix = diag.pairMatrix;
+    const N = matrix.poolSize;
+    const selected = this.selectedPair;
+
+    const cells: string[] = [];
+    for (let i = 1; i <= N; i++) {
+      for (let j = 1; j <= N; j++) {
+        if (i === j) {
+          cells.push('<span class="pair-cell diagonal"></span>');
+          continue;
+        }
+        const idx = pairIndex(i, j, N);
+        const count = matrix.counts[idx];
+        const expected = matrix.expected[idx];
+        // Red = drawn together more often than chance, blue = less often.
+        const lift = Math.log2((count + 0.5) / (expected + 0.5));
+        const alpha = Math.min(1, Math.abs(lift)).toFixed(2);
+        const color =
+          lift >= 0 ? `rgba(224, 108, 117, ${alpha})` : `rgba(97, 175, 239, ${alpha})`;
+        const classes = [
+          "pair-cell",
+          matrix.adjusted[idx].holm < FAMILY_SIGNIFICANCE ? "significant" : "",
+          selected && Math.min(i, j) === selected.i && Math.max(i, j) === selected.j
+            ? "selected"
+            : "",
+        ].join(" ");
+        cells.push(
+          `<span class="${classes}" data-i="${i}" data-j="${j}" style="background: ${color}" title="${i} & ${j}: ${count}× (expected ${expected.toFixed(1)}) · p=${this.formatPValue(matrix.pValues[idx])} · Holm p=${this.formatPValue(matrix.adjusted[idx].holm)}"></span>`,
+        );
+      }
+    }
+
     container.innerHTML = `<div class="pair-list">${top15
       .map(
         (p) =>
-          `<span class="pair-chip">${p.i} & ${p.j} <small>(${p.count}×, z=${p.zScore.toFixed(1)})</small></span>`,
+          `<span class="pair-chip" data-i="${p.i}" data-j="${p.j}">${p.i} & ${p.j} <small>(${p.count}×, z=${p.zScore.toFixed(1)}, adj. p=${this.formatPValue(p.adjusted.holm)})</small></span>`,
       )
-      .join("")}</div>`;
+      .join("")}</div>
+      <div class="pair-heatmap" style="grid-template-columns: repeat(${N}, 1fr)">${cells.join("")}</div>
+      <div class="pair-heatmap-legend">
+        <span>Blue: together less often than chance · Red: more often</span>
+        <span>Outlined: Holm p &lt; ${FAMILY_SIGNIFICANCE}</span>
+        <span>Balls: ${LottoViewer.BONUS_POLICY_NOTES[diag.bonusPolicy]}</span>
+      </div>
+      <div class="pair-draws">${this.renderPairDraws(diag)}</div>`;
+  }
+
+  private renderPairDraws(diag: ReturnType<typeof runFullDiagnostics>): string {
+    const pair = this.selectedPair;
+    const N = diag.pairMatrix.poolSize;
+    if (!pair || pair.j > N) return "Click a cell or pair to list the draws it appeared in.";
+    const layout = layoutForGame(diag.game, diag.bonusPolicy);
+    // The matrix covers the current era, which is the tail of the loaded draws.
+    const draws = this.drawRecords
+      .slice(-diag.eraDrawCount)
+      .filter((draw) => {
+        const balls = drawBalls(draw, layout);
+        return balls.includes(pair.i) && balls.includes(pair.j);
+      })
+      .reverse();
+    const idx = pairIndex(pair.i, pair.j, N);
+    return `<div class="pair-draws-title">${pair.i} & ${pair.j}: ${this.formatCount(draws.length, "draw")} (expected ${diag.pairMatrix.expected[idx].toFixed(1)})</div>
+      ${draws
+        .map(
+          (draw) =>
+            `<div class="pair-draw-row">${this.formatDrawDate(draw)} · ${draw.numbers.join(", ")}${draw.bonus > 0 ? ` + ${draw.bonus}` : ""}</div>`,
+        )
+        .join("")}`;
+  }
+
+  private handlePairSelect(event: Event) {
+    const target = (event.target as HTMLElement | null)?.closest<HTMLElement>("[data-i]");
+    const diag = this.latestDiagnosticsSnapshot;
+    if (!target || !diag) return;
+    const a = Number(target.dataset.i);
+    const b = Number(target.dataset.j);
+    const pair = { i: Math.min(a, b), j: Math.max(a, b) };
+    const current = this.selectedPair;
+    this.selectedPair = current && current.i === pair.i && current.j === pair.j ? null : pair;
+    this.renderTopPairs(diag);
   }
 
   private renderGroupPatterns(diag: ReturnType<typeof runFullDiagnostics>) {
@@ -2187,9 +3769,55 @@ class LottoViewer {
       .join("");
   }
 
+  private renderSetShape(diag: ReturnType<typeof runFullDiagnostics>) {
+    const container = document.getElementById("setShapeContent")!;
+    const width = 300;
+    const height = 60;
+
+    container.innerHTML = diag.setShape
+      .map((result) => {
+        const total = result.observed.reduce((sum, count) => sum + count, 0) || 1;
+        const shares = result.observed.map((count) => count / total);
+        const top = Math.max(...shares, ...result.expected, 1e-9);
+        const step = width / result.expected.length;
+        const y = (share: number) => (height - (share / top) * height).toFixed(1);
+        const bars = shares
+          .map((share, idx) =>
+            share > 0
+              ? `<rect class="shape-observed" x="${(idx * step).toFixed(1)}" y="${y(share)}" width="${Math.max(step - 0.5, 0.5).toFixed(1)}" height="${(height - Number(y(share))).toFixed(1)}" />`
+              : "",
+          )
+          .join("");
+        const expected = result.expected
+          .map((p, idx) => `${((idx + 0.5) * step).toFixed(1)},${y(p)}`)
+          .join(" ");
+        const failed = result.adjusted.holm < FAMILY_SIGNIFICANCE;
+        return `
+      <div class="diag-stat">
+        <span class="diag-label">${result.label} <small>(mean ${result.observedMean.toFixed(1)} vs ${result.expectedMean.toFixed(1)}${result.degreesOfFreedom > 0 ? ` · χ²(${result.degreesOfFreedom}) = ${result.chiSquare.toFixed(2)}` : ""})</small></span>
+        <span class="diag-value ${failed ? "fail" : "pass"}">p=${this.formatPValue(result.pValue)}</span>
+      </div>
+      <svg class="shape-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" role="img" aria-label="${result.label} distribution">
+        ${bars}
+        <polyline class="shape-expected" points="${expected}" />
+      </svg>
+      <div class="pair-heatmap-legend">
+        <span>${result.min}</span>
+        <span>${result.min + result.expected.length - 1}</span>
+      </div>`;
+      })
+      .join("");
+    container.insertAdjacentHTML(
+      "beforeend",
+      '<div class="pair-heatmap-legend"><span>Bars: observed draws · Line: exact fair distribution</span></div>',
+    );
+  }
+
   private renderPredictedSets(prediction: PredictionOutput) {
     const container = document.getElementById("predictedSets")!;
     const N = this.poolSize;
+    const ballsNote =
+      LottoViewer.BONUS_POLICY_NOTES[prediction.backtest.finalDiagnostics.bonusPolicy];
 
     container.innerHTML = prediction.sets
       .map(
@@ -2209,11 +3837,17 @@ class LottoViewer {
               return `<div class="pred-ball" style="background: ${colorMap[g] || "var(--primary)"}; color: white;">${n}</div>`;
             })
             .join("")}
+          ${
+            s.bonus !== undefined
+              ? `<span class="plus-sign">+</span><div class="pred-ball" style="background: var(--highlight-bonus); color: white;" title="Bonus drum prediction">${s.bonus}</div>`
+              : ""
+          }
         </div>
         <div class="set-meta">
           <span class="label"><b>${s.method}</b></span>
           <span class="label">Groups: ${s.groupBreakdown}</span>
-          <span class="label">Score: ${(s.relativeLift * 100).toFixed(1)}%</span>
+          <span class="label" title="Percentile among fair draws">Shape: Σ ${s.shapePercentiles.sum.toFixed(0)} · range ${s.shapePercentiles.range.toFixed(0)} · odd ${s.shapePercentiles.odd.toFixed(0)} · consec. ${s.shapePercentiles.consecutive.toFixed(0)} pct</span>
+          <span class="label">Score: ${(s.relativeLift * 100).toFixed(1)}% <small>(${ballsNote})</small></span>
         </div>
       </div>
     `,
@@ -2222,6 +3856,11 @@ class LottoViewer {
 
     // Backtest results
     const bt = prediction.backtest;
+    const pickCount = this.activeGame.pickCount;
+    const targetBallCount = this.getTargetBallCount(
+      bt.finalDiagnostics.bonusPolicy,
+    );
+    const fullHitLabel = `${pickCount}-of-${targetBallCount}`;
     const totalBacktestRows = bt.trainSize + bt.testSize;
     const trainPct = totalBacktestRows > 0
       ? ((bt.trainSize / totalBacktestRows) * 100).toFixed(0)
@@ -2247,7 +3886,7 @@ class LottoViewer {
       bt.forwardOnlyTop6Overlap ??
       (forwardSampleSize > 0 ? forwardOverlapTotal / forwardSampleSize : 0);
     const forwardModelHitRate =
-      bt.forwardOnlyModelHitRate ?? forwardTop6Overlap / 6;
+      bt.forwardOnlyModelHitRate ?? forwardTop6Overlap / pickCount;
     const forwardFourPlusHits =
       bt.forwardOnlyFourPlusHits ??
       (forwardRowsWithAttempt.length > 0
@@ -2262,7 +3901,7 @@ class LottoViewer {
       bt.forwardOnlySixMatchHits ??
       (forwardRowsWithAttempt.length > 0
         ? forwardRowsWithAttempt.filter(
-            (row) => (row.firstAttemptOverlap ?? 0) >= 6,
+            (row) => (row.firstAttemptOverlap ?? 0) >= pickCount,
           ).length
         : bt.sixMatchHits);
     const forwardSixMatchRate =
@@ -2284,17 +3923,17 @@ class LottoViewer {
       <div class="mastery-compare-grid">
         <div class="mastery-compare-card">
           <div class="mastery-compare-title">Forward-Only (Attempt #1)</div>
-          <div class="mastery-compare-line"><span>Avg Matches</span><b>${forwardTop6Overlap.toFixed(2)} / 6</b></div>
+          <div class="mastery-compare-line"><span>Avg Matches</span><b>${forwardTop6Overlap.toFixed(2)} / ${pickCount}</b></div>
           <div class="mastery-compare-line"><span>Hit Rate</span><b>${(forwardModelHitRate * 100).toFixed(1)}%</b></div>
           <div class="mastery-compare-line"><span>4+ Matches</span><b>${forwardFourPlusHits} (${(forwardFourPlusRate * 100).toFixed(1)}%)</b></div>
-          <div class="mastery-compare-line"><span>6-of-7 Hits</span><b>${forwardSixMatchHits} (${(forwardSixMatchRate * 100).toFixed(2)}%)</b></div>
+          <div class="mastery-compare-line"><span>${fullHitLabel} Hits</span><b>${forwardSixMatchHits} (${(forwardSixMatchRate * 100).toFixed(2)}%)</b></div>
         </div>
         <div class="mastery-compare-card">
           <div class="mastery-compare-title">Sequence Mastery (Final)</div>
-          <div class="mastery-compare-line"><span>Avg Matches</span><b>${bt.top6Overlap.toFixed(2)} / 6</b></div>
+          <div class="mastery-compare-line"><span>Avg Matches</span><b>${bt.top6Overlap.toFixed(2)} / ${pickCount}</b></div>
           <div class="mastery-compare-line"><span>Hit Rate</span><b>${(bt.modelHitRate * 100).toFixed(1)}%</b></div>
           <div class="mastery-compare-line"><span>4+ Matches</span><b>${bt.fourPlusHits} (${(bt.fourPlusRate * 100).toFixed(1)}%)</b></div>
-          <div class="mastery-compare-line"><span>6-of-7 Hits</span><b>${bt.sixMatchHits} (${(bt.sixMatchRate * 100).toFixed(2)}%)</b></div>
+          <div class="mastery-compare-line"><span>${fullHitLabel} Hits</span><b>${bt.sixMatchHits} (${(bt.sixMatchRate * 100).toFixed(2)}%)</b></div>
         </div>
       </div>
     `
@@ -2308,7 +3947,7 @@ class LottoViewer {
       </div>
       <div class="diag-stat">
         <span class="diag-label">Mastery Target</span>
-        <span class="diag-value">${bt.masteryTargetMatch ?? 6}/6</span>
+        <span class="diag-value">${bt.masteryTargetMatch ?? pickCount}/${pickCount}</span>
       </div>
       <div class="diag-stat">
         <span class="diag-label">Mastered Sequences</span>
@@ -2354,7 +3993,7 @@ class LottoViewer {
       </div>
       ${warmStartSummary}
       <div class="diag-stat">
-        <span class="diag-label">Sequence (Top 6 vs 7-ball target) Hit Rate</span>
+        <span class="diag-label">Sequence (Top ${pickCount} vs ${targetBallCount}-ball target) Hit Rate</span>
         <span class="diag-value">${(bt.modelHitRate * 100).toFixed(1)}%</span>
       </div>
       <div class="diag-stat">
@@ -2362,19 +4001,27 @@ class LottoViewer {
         <span class="diag-value">${(bt.baselineHitRate * 100).toFixed(1)}%</span>
       </div>
       <div class="diag-stat">
-        <span class="diag-label">Avg Matches per Draw (6/7 target)</span>
-        <span class="diag-value">${bt.top6Overlap.toFixed(2)} / 6</span>
+        <span class="diag-label">Avg Matches per Draw (${pickCount}/${targetBallCount} target)</span>
+        <span class="diag-value">${bt.top6Overlap.toFixed(2)} / ${pickCount}</span>
       </div>
+      ${
+        bt.bonusHitRate !== undefined
+          ? `<div class="diag-stat">
+        <span class="diag-label">Bonus Drum Hit Rate</span>
+        <span class="diag-value ${bt.bonusHitRate > (bt.bonusBaselineRate ?? 0) ? "pass" : "fail"}">${(bt.bonusHitRate * 100).toFixed(1)}% (${bt.bonusHits ?? 0} hits, baseline ${((bt.bonusBaselineRate ?? 0) * 100).toFixed(1)}%)</span>
+      </div>`
+          : ""
+      }
       <div class="diag-stat">
         <span class="diag-label">4+ Matches Frequency</span>
         <span class="diag-value ${bt.fourPlusRate > 0 ? "pass" : "fail"}">${(bt.fourPlusRate * 100).toFixed(1)}% (${bt.fourPlusHits}/${bt.testSize})</span>
       </div>
       <div class="diag-stat">
-        <span class="diag-label">Max 6-of-7 Sequence Match</span>
-        <span class="diag-value ${bt.maxObservedOverlap >= 6 ? "pass" : ""}">${bt.maxObservedOverlap}/6</span>
+        <span class="diag-label">Max ${fullHitLabel} Sequence Match</span>
+        <span class="diag-value ${bt.maxObservedOverlap >= pickCount ? "pass" : ""}">${bt.maxObservedOverlap}/${pickCount}</span>
       </div>
       <div class="diag-stat">
-        <span class="diag-label">6-of-7 Full Hits</span>
+        <span class="diag-label">${fullHitLabel} Full Hits</span>
         <span class="diag-value ${bt.sixMatchHits > 0 ? "pass" : "fail"}">${bt.sixMatchHits} (${(bt.sixMatchRate * 100).toFixed(2)}%)</span>
       </div>
       ${masteryComparisonSummary}
@@ -2395,7 +4042,7 @@ class LottoViewer {
         </span>
       </div>
       <div style="margin-top: 1rem; font-size: 0.75rem; color: var(--text-muted); font-style: italic;">
-        * Backtest overlap is scored against all 7 winning balls (6 main + bonus).
+        * Backtest overlap is scored against all ${targetBallCount} winning balls (${pickCount} main${targetBallCount > pickCount ? " + bonus" : ""}).
       </div>
     `;
   }
@@ -2487,18 +4134,22 @@ class LottoViewer {
 
     // 2. Step-by-Step Validation
     const rowsContainer = document.getElementById("backtestRowsContent")!;
+    const bonusPolicy = bt.finalDiagnostics.bonusPolicy;
+    const sharedBonus = bonusPolicy === "include";
+    const actualLabel = this.getActualDrawLabel();
+    const targetBallCount = this.getTargetBallCount(bonusPolicy);
     rowsContainer.innerHTML = bt.rowDetails
       .slice()
       .reverse()
       .map((row) => {
         const actualSet = new Set(row.actual);
-        if (row.bonus > 0) actualSet.add(row.bonus);
+        if (sharedBonus && row.bonus > 0) actualSet.add(row.bonus);
         return `
         <div class="backtest-row">
-          <div class="row-date">${row.date}</div>
+          <div class="row-date">${this.formatDrawDate(row)}</div>
           <div class="comparison-grid">
             <div class="comparison-col">
-              <h5>Actual (6 + Bonus)</h5>
+              <h5>Actual (${actualLabel})</h5>
               <div class="mini-ball-row">
                 ${row.actual.map((n) => `<div class="mini-ball">${n}</div>`).join("")}
                 ${
@@ -2509,7 +4160,7 @@ class LottoViewer {
               </div>
             </div>
             <div class="comparison-col">
-              <h5>Model Top-6</h5>
+              <h5>Model Top-${this.activeGame.pickCount}</h5>
               <div class="mini-ball-row">
                 ${row.predictedTop6
                   .map(
@@ -2518,12 +4169,17 @@ class LottoViewer {
                 `,
                   )
                   .join("")}
+                ${
+                  row.predictedBonus !== undefined
+                    ? `<div class="mini-ball ${row.bonusHit ? "match" : ""}" style="border-color: rgba(223,190,135,0.6); color: var(--highlight-bonus);">B${row.predictedBonus}</div>`
+                    : ""
+                }
               </div>
             </div>
           </div>
           ${
             row.overlap > 0
-              ? `<div style="color: var(--primary); font-size: 0.65rem; margin-top: 4px; font-weight: 700;">✓ ${row.overlap} hits matched (7-ball target)</div>`
+              ? `<div style="color: var(--primary); font-size: 0.65rem; margin-top: 4px; font-weight: 700;">✓ ${row.overlap} hits matched (${targetBallCount}-ball target)</div>`
               : ""
           }
           ${
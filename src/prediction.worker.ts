@@ -1,5 +1,7 @@
 import { runFullDiagnostics } from "./analysis";
+import { getGameDefinition } from "./games";
 import {
+  diagnosticsOptionsFromSettings,
   refreshPredictionCandidates,
   runPrediction,
   type PredictionLiveTrace,
@@ -111,8 +113,9 @@ function buildRoundSettings(
   const monteCarloMaxTrials = base.monteCarloMaxTrials;
   const geneticGenerations = base.geneticGenerations;
   const geneticPopulation = base.geneticPopulation;
+  const pickCount = getGameDefinition(base.gameId).pickCount;
   const deepMatchMode =
-    (base.targetSequenceMatch ?? DEFAULT_TARGET_SEQUENCE_MATCH) >= 6 &&
+    (base.targetSequenceMatch ?? DEFAULT_TARGET_SEQUENCE_MATCH) >= pickCount &&
     !(base.fastMode ?? false);
   const adjustedTrainRatio = clampNumber(baseTrainRatio + ratioOffset, 0.5, 0.95);
 
@@ -229,7 +232,10 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
       const diagnostics =
         request.diagnostics ??
         request.basePrediction.backtest.finalDiagnostics ??
-        runFullDiagnostics(request.draws);
+        runFullDiagnostics(
+          request.draws,
+          diagnosticsOptionsFromSettings(request.settings),
+        );
       const prediction = refreshPredictionCandidates(request.draws, diagnostics, {
         onProgress: (progress, stage) => {
           reportProgress(8 + progress * 88, stage);
@@ -253,13 +259,21 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
     const { draws, settings } = request;
     reportProgress(3, "Loading training data");
     reportProgress(10, "Running diagnostics");
-    const diagnostics = runFullDiagnostics(draws);
+    const diagnostics = runFullDiagnostics(
+      draws,
+      diagnosticsOptionsFromSettings(settings),
+    );
     reportProgress(28, "Diagnostics complete");
+    const pickCount = diagnostics.pickCount;
 
     const continuousTraining = settings?.continuousTraining === true;
     const masteryBacktestMode = settings?.masteryBacktestMode === true;
     const targetSequenceMatch = Math.round(
-      clampNumber(settings?.targetSequenceMatch ?? DEFAULT_TARGET_SEQUENCE_MATCH, 1, 6),
+      clampNumber(
+        settings?.targetSequenceMatch ?? DEFAULT_TARGET_SEQUENCE_MATCH,
+        1,
+        pickCount,
+      ),
     );
     const maxOptimizationRoundsRaw = settings?.maxOptimizationRounds;
     const maxOptimizationRounds =
@@ -325,12 +339,12 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
     const baseAttempts = settings?.fastMode
       ? 1
       : masteryBacktestMode
-        ? targetSequenceMatch >= 6
+        ? targetSequenceMatch >= pickCount
           ? 5
           : 4
-        : targetSequenceMatch >= 6
+        : targetSequenceMatch >= pickCount
           ? 4
-          : targetSequenceMatch >= 5
+          : targetSequenceMatch >= pickCount - 1
             ? 3
             : 2;
     const latencyBonusAttempts =
@@ -432,8 +446,8 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
         bestPrediction?.backtest.top6Overlap ??
         0;
       const roundStatus = masteryBacktestMode
-        ? `Round ${roundNumber} complete | first-attempt ${roundForwardOverlap.toFixed(2)}/6 | best ${bestForwardOverlap.toFixed(2)}/6`
-        : `Round ${roundNumber} complete | current ${roundBestOverlap}/6 | best ${Math.max(0, bestOverlap)}/6`;
+        ? `Round ${roundNumber} complete | first-attempt ${roundForwardOverlap.toFixed(2)}/${pickCount} | best ${bestForwardOverlap.toFixed(2)}/${pickCount}`
+        : `Round ${roundNumber} complete | current ${roundBestOverlap}/${pickCount} | best ${Math.max(0, bestOverlap)}/${pickCount}`;
       workerScope.postMessage({
         requestId,
         type: "round_result",
@@ -450,7 +464,7 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
       );
 
       if (bestOverlap >= targetSequenceMatch && bestPrediction) {
-        reportProgress(99, `Target reached (${bestOverlap}/6). Publishing.`);
+        reportProgress(99, `Target reached (${bestOverlap}/${pickCount}). Publishing.`);
         workerScope.postMessage({
           requestId,
           type: "result",
@@ -465,7 +479,7 @@ workerScope.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
         Number.isFinite(maxOptimizationRounds)
           ? Math.min(97, 24 + (round / maxOptimizationRounds) * 68)
           : 30,
-        `Continuing optimization... best overlap ${Math.max(0, bestOverlap)}/6`,
+        `Continuing optimization... best overlap ${Math.max(0, bestOverlap)}/${pickCount}`,
       );
       await yieldToEventLoop();
     }
@@ -5,15 +5,41 @@
  */
 
 import {
-  K,
+  BONUS_ONLY_LAYOUT,
+  DEFAULT_CALIBRATION_TRIALS,
+  DEFAULT_DRAW_LAYOUT,
+  DEFAULT_UNIFORMITY_TRIALS,
   DrawRecord,
+  compareDraws,
+  drawBalls,
   getGroup,
+  layoutBallCount,
+  layoutForGame,
+  resolveBonusPolicy,
+  type BonusPolicy,
+  type DiagnosticsOptions,
+  type DrawLayout,
+  diagnosticsOptionsOf,
   type FullDiagnostics,
   getOddEvenSplit,
-  getSum,
-  checkConsecutiveness,
+  pairIndex,
   runFullDiagnostics,
+  toBonusDraws,
 } from "./analysis";
+import {
+  DEFAULT_GAME,
+  getGameDefinition,
+  type GameDefinition,
+  type GameEra,
+} from "./games";
+import {
+  exactShapeDistributions,
+  setShapeOf,
+  setShapePercentiles,
+  shapeTailProbability,
+  type SetShape,
+} from "./setShape";
+import { createSeededRandom, hashStringToSeed } from "./statistics";
 
 const BASE_MONTE_CARLO_MIN_TRIALS = 2000;
 const BASE_MONTE_CARLO_MAX_TRIALS = 10000;
@@ -126,59 +152,59 @@ function drawStateSignature(draws: DrawRecord[]): string {
 }
 
 export interface DiagnosticsCache {
+  game: GameDefinition;
+  bonusPolicy: BonusPolicy;
   get: (draws: DrawRecord[]) => FullDiagnostics;
+  /** Adopts diagnostics computed elsewhere (e.g. with Monte Carlo tests) for `draws`. */
+  prime: (draws: DrawRecord[], diagnostics: FullDiagnostics) => void;
   clear: () => void;
 }
 
-export function createDiagnosticsCache(maxEntries = 128): DiagnosticsCache {
+export function createDiagnosticsCache(
+  maxEntries = 128,
+  options: DiagnosticsOptions = {},
+): DiagnosticsCache {
   const limit = Math.max(8, maxEntries);
+  const game = options.game ?? DEFAULT_GAME;
+  const bonusPolicy = resolveBonusPolicy(game, options.bonusPolicy);
   const store = new Map<string, FullDiagnostics>();
   const order: string[] = [];
 
-  const get = (draws: DrawRecord[]): FullDiagnostics => {
-    const key = drawStateSignature(draws);
-    const cached = store.get(key);
-    if (cached) return cached;
-
-    const diagnostics = runFullDiagnostics(draws);
+  const remember = (key: string, diagnostics: FullDiagnostics) => {
+    if (!store.has(key)) order.push(key);
     store.set(key, diagnostics);
-    order.push(key);
 
     while (order.length > limit) {
       const oldest = order.shift();
       if (!oldest) break;
       store.delete(oldest);
     }
+  };
+
+  const get = (draws: DrawRecord[]): FullDiagnostics => {
+    const key = drawStateSignature(draws);
+    const cached = store.get(key);
+    if (cached) return cached;
 
+    const diagnostics = runFullDiagnostics(draws, {
+      ...options,
+      game,
+      bonusPolicy,
+    });
+    remember(key, diagnostics);
     return diagnostics;
   };
 
+  const prime = (draws: DrawRecord[], diagnostics: FullDiagnostics) => {
+    remember(drawStateSignature(draws), diagnostics);
+  };
+
   const clear = () => {
     store.clear();
     order.length = 0;
   };
 
-  return { get, clear };
-}
-
-function hashStringToSeed(value: string): number {
-  let hash = 2166136261;
-  for (let i = 0; i < value.length; i++) {
-    hash ^= value.charCodeAt(i);
-    hash = Math.imul(hash, 16777619);
-  }
-  return hash >>> 0;
-}
-
-function createSeededRandom(seed: number): () => number {
-  let state = seed || 1;
-  return () => {
-    state += 0x6d2b79f5;
-    let t = state;
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+  return { game, bonusPolicy, get, prime, clear };
 }
 
 type TransitionEntry = FullDiagnostics["transitions"][number];
@@ -195,8 +221,8 @@ interface TransitionLookup {
 
 const LAG1_MIN_SUPPORT = 2;
 const LAG1_MAX_CONFIDENCE_TARGETS = 3;
-const LAG1_CONFIDENCE_FLOOR = 0.02;
-const LAG1_CONFIDENCE_RELATIVE = 0.75;
+const LAG1_MIN_LIFT = 1.5;
+const LAG1_MAX_FALSE_DISCOVERY = 0.1; // Benjamini–Hochberg across all transition cells
 
 function buildTransitionLookup(transitions: TransitionEntry[]): TransitionLookup {
   const transitionByLagFrom = new Map<string, TransitionEntry>();
@@ -211,12 +237,7 @@ function buildTransitionLookup(transitions: TransitionEntry[]): TransitionLookup
     if (transition.lag === 1) {
       lag1TransitionByFrom.set(transition.fromNumber, transition);
       const sortedTargets = [...transition.toNumbers].sort(
-        (a, b) => b.probability - a.probability || b.count - a.count,
-      );
-      const maxProbability = sortedTargets[0]?.probability ?? 0;
-      const confidenceThreshold = Math.max(
-        LAG1_CONFIDENCE_FLOOR,
-        maxProbability * LAG1_CONFIDENCE_RELATIVE,
+        (a, b) => b.lift - a.lift || b.count - a.count,
       );
       lag1HighConfidenceTargetsByFrom.set(
         transition.fromNumber,
@@ -225,7 +246,8 @@ function buildTransitionLookup(transitions: TransitionEntry[]): TransitionLookup
             .filter(
               (to) =>
                 to.count >= LAG1_MIN_SUPPORT &&
-                to.probability >= confidenceThreshold,
+                to.lift >= LAG1_MIN_LIFT &&
+                to.adjusted.benjaminiHochberg < LAG1_MAX_FALSE_DISCOVERY,
             )
             .slice(0, LAG1_MAX_CONFIDENCE_TARGETS)
             .map((to) => to.number),
@@ -254,6 +276,7 @@ export function bayesianSmoothed(
   N: number,
   alpha0 = 1,
   lambda = 0.005,
+  layout: DrawLayout = DEFAULT_DRAW_LAYOUT,
 ): BayesianResult[] {
   const T = draws.length;
   const weightedCounts = new Array(N + 1).fill(0);
@@ -263,16 +286,17 @@ export function bayesianSmoothed(
     const w = Math.exp(-lambda * (T - 1 - t));
     if (isNaN(w) || !isFinite(w)) continue;
     totalWeight += w;
-    for (const n of draws[t].numbers) {
+    for (const n of drawBalls(draws[t], layout)) {
       if (n <= N) weightedCounts[n] += w;
     }
   }
 
   const rawCounts = new Array(N + 1).fill(0);
-  for (const d of draws) for (const n of d.numbers) if (n <= N) rawCounts[n]++;
+  for (const d of draws)
+    for (const n of drawBalls(d, layout)) if (n <= N) rawCounts[n]++;
 
   const totalAlpha = N * alpha0;
-  const denominator = totalAlpha + totalWeight * K;
+  const denominator = totalAlpha + totalWeight * layoutBallCount(layout);
 
   const results: BayesianResult[] = [];
   for (let i = 1; i <= N; i++) {
@@ -470,13 +494,22 @@ function deriveAdaptiveSignalScale(
   };
 }
 
+// Slots expecting fewer draws than this give lifts too noisy to score.
+const POSITIONAL_MIN_EXPECTED = 5;
+
 export function compositeScoring(
   diagnostics: FullDiagnostics,
   draws: DrawRecord[],
   profile: WeightProfile = WEIGHT_PROFILES[0],
 ): NumberScore[] {
   const N = diagnostics.poolSize;
-  const bayesian = bayesianSmoothed(draws, N);
+  const bayesian = bayesianSmoothed(
+    draws,
+    N,
+    undefined,
+    undefined,
+    layoutForGame(diagnostics.game, diagnostics.bonusPolicy),
+  );
   const bayesMax = Math.max(...bayesian.map((b) => b.posterior));
   const bayesMin = Math.min(...bayesian.map((b) => b.posterior));
   const bayesianPosteriorByNumber = new Array(N + 1).fill(0);
@@ -499,12 +532,16 @@ export function compositeScoring(
     return arr.map((v) => (v - min) / (max - min));
   };
 
-  // Pair affinity: sum of z-scores for pairs containing this number
+  // Pair affinity: sum of positive z-scores over every pair containing this number
   let pairAffinity = new Array(N + 1).fill(0);
-  for (const p of diagnostics.topPairs) {
-    if (p.zScore > 0) {
-      pairAffinity[p.i] += p.zScore;
-      pairAffinity[p.j] += p.zScore;
+  const { zScores } = diagnostics.pairMatrix;
+  for (let i = 1; i < N; i++) {
+    for (let j = i + 1; j <= N; j++) {
+      const z = zScores[pairIndex(i, j, N)];
+      if (z > 0) {
+        pairAffinity[i] += z;
+        pairAffinity[j] += z;
+      }
     }
   }
   pairAffinity = normalizeValues(pairAffinity);
@@ -574,15 +611,16 @@ export function compositeScoring(
     const pairAffinityScore = pairAffinity[i];
     const tripleAffinityScore = tripleAffinity[i];
 
-    // Positional Score: likelihood of number i being in any of the 6 slots
-    let positionalScoreRaw = 0;
+    // Positional Score: best order-statistic lift over the slots with enough
+    // expected draws to trust; lift 1 (as a fair draw would place it) maps to 0.5.
+    let bestLift = 1;
     for (const pf of diagnostics.positionalFreq) {
-      if (pf.numberFreqs[i]) {
-        positionalScoreRaw += pf.numberFreqs[i];
+      const cell = pf.cells.find((c) => c.number === i);
+      if (cell && cell.expected >= POSITIONAL_MIN_EXPECTED) {
+        bestLift = Math.max(bestLift, cell.lift);
       }
     }
-    // Base normalization on history (max possible positional sum across slots)
-    const positionalScore = Math.min(positionalScoreRaw / 60, 1.0);
+    const positionalScore = Math.min(bestLift / 2, 1.0);
 
     // ─── Repeat Number Score: numbers from the immediate previous draw
     const lastDraw = draws[draws.length - 1];
@@ -624,13 +662,88 @@ export function compositeScoring(
   return scores;
 }
 
+// ─── Separate Bonus Scoring ─────────────────────────────────────────
+export interface BonusScore {
+  number: number;
+  posterior: number;
+  hotColdScore: number;
+  gapScore: number;
+  compositeScore: number;
+}
+
+/**
+ * Ranks the bonus drum on its own: recency-weighted Bayesian posterior,
+ * recent heat and gap pressure. Empty unless the bonus policy is "separate".
+ */
+export function bonusScoring(
+  diagnostics: FullDiagnostics,
+  draws: DrawRecord[],
+): BonusScore[] {
+  const bonusDiag = diagnostics.bonus;
+  if (!bonusDiag) return [];
+
+  const pool = bonusDiag.poolSize;
+  const bayesian = bayesianSmoothed(
+    toBonusDraws(draws),
+    pool,
+    1,
+    0.005,
+    BONUS_ONLY_LAYOUT,
+  );
+  const posteriorMax = Math.max(...bayesian.map((b) => b.posterior));
+  const posteriorMin = Math.min(...bayesian.map((b) => b.posterior));
+  const posteriorRange = Math.max(1e-12, posteriorMax - posteriorMin);
+
+  return bayesian
+    .map((b) => {
+      const hc = bonusDiag.hotCold.find((h) => h.number === b.number);
+      const gap = bonusDiag.gaps.find((g) => g.number === b.number);
+      const posteriorNorm = (b.posterior - posteriorMin) / posteriorRange;
+      const hotColdScore = hc
+        ? Math.max(0, Math.min(1, (hc.delta + 3) / 6))
+        : 0.5;
+      const gapScore =
+        gap && gap.avgGap > 0
+          ? Math.max(0, Math.min(1, gap.currentGap / (gap.avgGap * 2)))
+          : 0;
+      return {
+        number: b.number,
+        posterior: b.posterior,
+        hotColdScore,
+        gapScore,
+        compositeScore:
+          posteriorNorm * 0.6 + hotColdScore * 0.25 + gapScore * 0.15,
+      };
+    })
+    .sort((a, b) => b.compositeScore - a.compositeScore || a.number - b.number);
+}
+
+// Each ranked set takes the next-best bonus so the slate covers several drum values.
+// A shared-drum bonus can never repeat one of the set's main numbers.
+function attachBonusPredictions(
+  sets: PredictedSet[],
+  bonusScores: BonusScore[],
+  sharedDrum: boolean,
+): PredictedSet[] {
+  if (bonusScores.length === 0) return sets;
+  return sets.map((set, idx) => {
+    const eligible = sharedDrum
+      ? bonusScores.filter((score) => !set.numbers.includes(score.number))
+      : bonusScores;
+    if (eligible.length === 0) return set;
+    return { ...set, bonus: eligible[idx % eligible.length].number };
+  });
+}
+
 // ─── Candidate Set Generation (10 methods) ──────────────────────────
 export interface PredictedSet {
   numbers: number[];
+  bonus?: number; // "separate" bonus policy only
   totalScore: number;
   groupBreakdown: string;
   relativeLift: number;
   method: string;
+  shapePercentiles: SetShape; // fair-draw percentile (0–100) of sum, range, odd and consecutive count
 }
 
 export interface GenerateCandidateOptions {
@@ -653,36 +766,27 @@ function computeGroupBalanceScore(nums: number[], N: number): number {
   const g = { Low: 0, Medium: 0, MedHigh: 0, High: 0 };
   for (const n of nums) g[getGroup(n, N)]++;
   const counts = Object.values(g);
+  const K = nums.length;
   const ideal = K / 4;
   const deviation = counts.reduce((sum, c) => sum + Math.pow(c - ideal, 2), 0);
   const maxDeviation = K * K;
   return 1 - deviation / maxDeviation;
 }
 
+// Two-sided tail probabilities under the exact fair distributions (see setShape).
+const BALANCE_TAIL_SEVERE = 0.05;
+const BALANCE_TAIL_MILD = 0.25;
+
 function computeBalancePenalty(nums: number[], N: number): number {
-  // 1. Odd/Even Penalty
-  const { odd } = getOddEvenSplit(nums);
-  // Penalize 0/6 or 6/0 splits heavily, 1/5 or 5/1 moderately
-  let oePenalty = 0;
-  if (odd === 0 || odd === 6) oePenalty = 1.0;
-  else if (odd === 1 || odd === 5) oePenalty = 0.5;
-
-  // 2. Sum Penalty
-  const sum = getSum(nums);
-  // Expected sum approx K * N / 2. For N=52 -> 156. Range 100-220 is healthy
-  const minSum = K * (N / 4); // rough lower bound
-  const maxSum = K * (N * 0.75); // rough upper bound
-  let sumPenalty = 0;
-  if (sum < minSum || sum > maxSum) sumPenalty = 1.0;
-
-  // 3. Consecutive Penalty
-  const cons = checkConsecutiveness(nums);
-  // More than 2 consecutive pairs (e.g. 1-2-3-4) is very rare
-  let consPenalty = 0;
-  if (cons > 2) consPenalty = 1.0;
-  if (cons === 2) consPenalty = 0.4;
-
-  return (oePenalty + sumPenalty + consPenalty) / 3;
+  const distributions = exactShapeDistributions(N, nums.length);
+  const shape = setShapeOf(nums);
+  const tailPenalty = (feature: "odd" | "sum" | "consecutive") => {
+    const tail = shapeTailProbability(distributions[feature], shape[feature]);
+    if (tail < BALANCE_TAIL_SEVERE) return 1.0;
+    if (tail < BALANCE_TAIL_MILD) return 0.5;
+    return 0;
+  };
+  return (tailPenalty("odd") + tailPenalty("sum") + tailPenalty("consecutive")) / 3;
 }
 
 interface ScoringLookup extends TransitionLookup {
@@ -897,6 +1001,7 @@ export function generateCandidateSets(
   options: GenerateCandidateOptions = {},
 ): PredictedSet[] {
   const N = diagnostics.poolSize;
+  const K = diagnostics.pickCount;
   const candidates: PredictedSet[] = [];
   const scoringLookup = createScoringLookup(scores, diagnostics);
   const setScoreCache = new Map<string, number>();
@@ -923,6 +1028,7 @@ export function generateCandidateSets(
       groupBreakdown: getGroupBreakdown(sorted, N),
       relativeLift: 0,
       method,
+      shapePercentiles: setShapePercentiles(sorted, N),
     });
   };
 
@@ -961,7 +1067,7 @@ export function generateCandidateSets(
       .map((h) => h.number);
     const overdueNumbers = diagnostics.gaps
       .filter((g) => g.isOverdue)
-      .sort((a, b) => b.currentGap / b.avgGap - a.currentGap / a.avgGap)
+      .sort((a, b) => a.currentGapTail - b.currentGapTail)
       .map((g) => g.number);
 
     const result: number[] = [];
@@ -1053,7 +1159,7 @@ export function generateCandidateSets(
 
       // Skip sets with extreme features before scoring
       const { odd } = getOddEvenSplit(set);
-      if (odd === 0 || odd === 6) continue;
+      if (odd === 0 || odd === K) continue;
 
       const setKey = set.join(",");
       let score = setScoreCache.get(setKey);
@@ -1324,10 +1430,14 @@ export function generateCandidateSets(
 // ─── Backtesting ────────────────────────────────────────────────────
 export interface BacktestRowDetail {
   date: string;
+  drawNumber?: number;
+  drawLabel?: string;
   actual: number[];
   bonus: number;
   predictedTop6: number[];
   overlap: number;
+  predictedBonus?: number; // "separate" bonus policy only
+  bonusHit?: boolean;
   firstAttemptTop6?: number[];
   firstAttemptOverlap?: number;
   attemptsUsed?: number;
@@ -1339,6 +1449,8 @@ export interface PredictionLiveTrace {
   sequenceIndex: number;
   sequenceTotal: number;
   date: string;
+  drawNumber?: number;
+  drawLabel?: string;
   actual: number[];
   bonus: number;
   predicted: number[];
@@ -1398,6 +1510,9 @@ export interface BacktestResult {
   masteryFirstAttemptSolved?: number;
   masteryAverageAttempts?: number;
   masteryGlobalCapReached?: boolean;
+  bonusHits?: number; // separate-pool bonus scored on its own drum
+  bonusHitRate?: number;
+  bonusBaselineRate?: number;
 }
 
 function clampUnit(value: number): number {
@@ -1407,28 +1522,29 @@ function clampUnit(value: number): number {
   return value;
 }
 
-function matchUtility(overlap: number): number {
-  if (overlap >= 6) return overlap + 26;
-  if (overlap >= 5) return overlap + 11;
-  if (overlap >= 4) return overlap + 5;
-  if (overlap === 3) return overlap + 1;
+function matchUtility(overlap: number, pickCount: number): number {
+  // Tiers are relative to a full match so 5- and 7-ball games reward alike.
+  if (overlap >= pickCount) return overlap + 26;
+  if (overlap >= pickCount - 1) return overlap + 11;
+  if (overlap >= pickCount - 2) return overlap + 5;
+  if (overlap === pickCount - 3) return overlap + 1;
   return overlap;
 }
 
-function buildSevenTargetSet(draw: DrawRecord): Set<number> {
-  const target = new Set<number>();
-  for (const n of draw.numbers) {
-    if (n > 0) target.add(n);
-  }
-  if (draw.bonus > 0) {
-    target.add(draw.bonus);
-  }
-  return target;
+function buildSevenTargetSet(
+  draw: DrawRecord,
+  bonusPolicy: BonusPolicy,
+): Set<number> {
+  // Under "include" the bonus counts as a main-drum ball a prediction can hit.
+  return new Set(
+    drawBalls(draw, { pickCount: draw.numbers.length, bonusPolicy }),
+  );
 }
 
 function selectSequenceFocusedTopSet(
   candidates: PredictedSet[],
   scores: NumberScore[],
+  K: number,
 ): number[] {
   const fallback = scores
     .slice(0, K)
@@ -1489,7 +1605,7 @@ function prependConsensusSet(
 ): PredictedSet[] {
   if (sets.length === 0) return sets;
 
-  const consensus = selectSequenceFocusedTopSet(sets, scores);
+  const consensus = selectSequenceFocusedTopSet(sets, scores, diag.pickCount);
   const consensusKey = consensus.join(",");
   const existing = sets.find((set) => set.numbers.join(",") === consensusKey);
   const ordered = existing
@@ -1502,6 +1618,7 @@ function prependConsensusSet(
           groupBreakdown: getGroupBreakdown(consensus, N),
           relativeLift: 0,
           method: "Sequence Consensus",
+          shapePercentiles: setShapePercentiles(consensus, N),
         },
         ...sets,
       ].slice(0, sets.length);
@@ -1558,7 +1675,8 @@ function rerankSetsWithMethodPerformance(
   }
 
   const supportScores = sets.map((set) =>
-    set.numbers.reduce((sum, n) => sum + (numberSupport.get(n) || 0), 0) / K,
+    set.numbers.reduce((sum, n) => sum + (numberSupport.get(n) || 0), 0) /
+    Math.max(1, set.numbers.length),
   );
   const minSupport = Math.min(...supportScores);
   const maxSupport = Math.max(...supportScores);
@@ -1618,7 +1736,11 @@ export function backtest(
 
   const masteryBacktestMode = settings.masteryBacktestMode === true;
   const masteryTargetMatch = Math.round(
-    clampNumber(settings.targetSequenceMatch ?? 6, 1, 6),
+    clampNumber(
+      settings.targetSequenceMatch ?? diagnosticsCache.game.pickCount,
+      1,
+      diagnosticsCache.game.pickCount,
+    ),
   );
   const masteryMaxAttemptsPerSequenceRaw = settings.masteryMaxAttemptsPerSequence;
   const masteryMaxAttemptsPerSequence =
@@ -1652,6 +1774,11 @@ export function backtest(
       : null;
   const warmProfileOverlaps = settings.warmProfileOverlaps || {};
 
+  const { game, bonusPolicy } = diagnosticsCache;
+  const K = game.pickCount;
+  // An included bonus extends the target set (e.g. the 7-ball SA Lotto target).
+  const targetBallCount = K + (bonusPolicy === "include" ? 1 : 0);
+
   emitProgress(0.02, "Initializing backtest");
 
   if (draws.length < 2) {
@@ -1662,7 +1789,7 @@ export function backtest(
       trainSize: draws.length,
       testSize: 0,
       modelHits: 0,
-      baselineHitRate: (K + 1) / N,
+      baselineHitRate: targetBallCount / N,
       modelHitRate: 0,
       improvement: 0,
       top6Overlap: 0,
@@ -1796,11 +1923,11 @@ export function backtest(
           seededValRng,
           fastCandidateOptions,
         );
-        const valSet = selectSequenceFocusedTopSet(valCandidates, s);
+        const valSet = selectSequenceFocusedTopSet(valCandidates, s, K);
         const t6 = new Set(valSet);
-        const targetSet = buildSevenTargetSet(d);
+        const targetSet = buildSevenTargetSet(d, bonusPolicy);
         const overlap = Array.from(t6).filter((n) => targetSet.has(n)).length;
-        o += matchUtility(overlap);
+        o += matchUtility(overlap, K);
 
         profileValHistory.push(d);
         const shouldRefresh =
@@ -1840,6 +1967,11 @@ export function backtest(
   let forwardOnlyFourPlusHits = 0;
   let forwardOnlySixMatchHits = 0;
   let forwardOnlyTop6TotalOverlap = 0;
+  let bonusHits = 0;
+  let bonusScoredRows = 0;
+  const scoresSeparateBonus = bonusPolicy === "separate";
+  const bonusDrumSize =
+    game.bonusSemantics === "separate-pool" ? game.bonusPool : N;
   const rowDetails: BacktestRowDetail[] = [];
   const methodPerformanceMap = new Map<
     string,
@@ -1886,7 +2018,7 @@ export function backtest(
 
     const testDraw = testDraws[testIdx];
     const actualMain = [...testDraw.numbers].filter((n) => n > 0);
-    const actualTargetSet = buildSevenTargetSet(testDraw);
+    const actualTargetSet = buildSevenTargetSet(testDraw, bonusPolicy);
     let selectedTop6: number[] = [];
     let t6Overlap = 0;
     let firstAttemptTop6: number[] | undefined = undefined;
@@ -1963,6 +2095,7 @@ export function backtest(
         const consensusSet = selectSequenceFocusedTopSet(
           attemptCandidates,
           adjustedScores,
+          K,
         );
         const candidateSetPool: number[][] = [
           consensusSet,
@@ -2042,6 +2175,8 @@ export function backtest(
             sequenceIndex: testIdx + 1,
             sequenceTotal: testDraws.length,
             date: testDraw.date,
+            drawNumber: testDraw.drawNumber,
+            drawLabel: testDraw.drawLabel,
             actual: [...actualMain].sort((a, b) => a - b),
             bonus: testDraw.bonus,
             predicted: [...attemptSet].sort((a, b) => a - b),
@@ -2120,7 +2255,11 @@ export function backtest(
         drawRng,
         fastCandidateOptions,
       );
-      selectedTop6 = selectSequenceFocusedTopSet(bestCandidates, currentScores);
+      selectedTop6 = selectSequenceFocusedTopSet(
+        bestCandidates,
+        currentScores,
+        K,
+      );
       t6Overlap = selectedTop6.filter((n) => actualTargetSet.has(n)).length;
       for (const candidate of bestCandidates.slice(0, 10)) {
         const overlap = candidate.numbers.filter((n) => actualTargetSet.has(n)).length;
@@ -2133,7 +2272,7 @@ export function backtest(
 
     if (t6Overlap > 0) hits++;
     if (t6Overlap >= 4) fourPlusHits++;
-    if (t6Overlap >= 6) sixMatchHits++;
+    if (t6Overlap >= K) sixMatchHits++;
     top6TotalOverlap += t6Overlap;
 
     if (masteryBacktestMode) {
@@ -2141,15 +2280,30 @@ export function backtest(
       forwardOnlyTop6TotalOverlap += firstOverlap;
       if (firstOverlap > 0) forwardOnlyHits++;
       if (firstOverlap >= 4) forwardOnlyFourPlusHits++;
-      if (firstOverlap >= 6) forwardOnlySixMatchHits++;
+      if (firstOverlap >= K) forwardOnlySixMatchHits++;
+    }
+
+    let predictedBonus: number | undefined = undefined;
+    let bonusHit: boolean | undefined = undefined;
+    if (scoresSeparateBonus && testDraw.bonus > 0) {
+      predictedBonus = bonusScoring(currentDiagnostics, history)[0]?.number;
+      if (predictedBonus !== undefined) {
+        bonusHit = predictedBonus === testDraw.bonus;
+        bonusScoredRows++;
+        if (bonusHit) bonusHits++;
+      }
     }
 
     rowDetails.push({
       date: testDraw.date,
+      drawNumber: testDraw.drawNumber,
+      drawLabel: testDraw.drawLabel,
       actual: actualMain.sort((a, b) => a - b),
       bonus: testDraw.bonus,
       predictedTop6: Array.from(top6).sort((a, b) => a - b),
       overlap: t6Overlap,
+      predictedBonus,
+      bonusHit,
       firstAttemptTop6: masteryBacktestMode
         ? [...(firstAttemptTop6 || selectedTop6)].sort((a, b) => a - b)
         : undefined,
@@ -2165,6 +2319,8 @@ export function backtest(
       sequenceIndex: testIdx + 1,
       sequenceTotal: testDraws.length,
       date: testDraw.date,
+      drawNumber: testDraw.drawNumber,
+      drawLabel: testDraw.drawLabel,
       actual: [...actualMain].sort((a, b) => a - b),
       bonus: testDraw.bonus,
       predicted: [...selectedTop6].sort((a, b) => a - b),
@@ -2192,13 +2348,13 @@ export function backtest(
         profileRng,
         fastCandidateOptions,
       );
-      const profileSet = selectSequenceFocusedTopSet(profileCandidates, ps);
+      const profileSet = selectSequenceFocusedTopSet(profileCandidates, ps, K);
       const pt6 = new Set(profileSet);
       const po = Array.from(pt6).filter((n) => actualTargetSet.has(n)).length;
 
       // Update rolling overlap (we store per-draw result and sum the last 50)
       const rh = profilePerformance[idx].rollingHistory!;
-      rh.push(matchUtility(po));
+      rh.push(matchUtility(po, K));
       if (rh.length > rollingWindow) rh.shift();
       profilePerformance[idx].overlap = rh.reduce((a, b) => a + b, 0);
     });
@@ -2271,9 +2427,11 @@ export function backtest(
     processedTestSize > 0 ? forwardOnlyTop6TotalOverlap / processedTestSize : 0;
   const modelHitRate = avgTop6Overlap / K; // Hits per prediction slot
   const forwardOnlyModelHitRate = forwardOnlyAvgTop6Overlap / K;
-  const baselinePercentage = (K + 1) / N; // Random baseline against a 7-ball target
+  const baselinePercentage = targetBallCount / N; // Random baseline against the full target
   const overlapPrior =
-    processedTestSize > 0 ? top6TotalOverlap / processedTestSize : (K + 1) / N;
+    processedTestSize > 0
+      ? top6TotalOverlap / processedTestSize
+      : targetBallCount / N;
   const methodShrinkage = Math.max(
     8,
     Math.min(32, Math.round(processedTestSize * 0.12)),
@@ -2366,6 +2524,14 @@ export function backtest(
     masteryGlobalCapReached: masteryBacktestMode
       ? masteryGlobalCapReached
       : undefined,
+    bonusHits: scoresSeparateBonus ? bonusHits : undefined,
+    bonusHitRate: scoresSeparateBonus
+      ? bonusScoredRows > 0
+        ? bonusHits / bonusScoredRows
+        : 0
+      : undefined,
+    bonusBaselineRate:
+      scoresSeparateBonus && bonusDrumSize ? 1 / bonusDrumSize : undefined,
   };
 
   // PHASE 6: Calculate Learning Trend (Recent 50 vs First 50 test rows)
@@ -2399,6 +2565,7 @@ export interface PredictionOutput {
   backtest: BacktestResult;
   scores: NumberScore[];
   bayesian: BayesianResult[];
+  bonusScores: BonusScore[]; // empty unless the bonus has its own drum
   warning: string;
 }
 
@@ -2432,6 +2599,25 @@ export interface ModelSettings {
   warmStartProfile?: WeightProfile;
   warmProfileOverlaps?: Record<string, number>;
   randomSeedSalt?: string;
+  gameId?: string;
+  bonusPolicy?: BonusPolicy; // unset = the game's natural bonus treatment
+  eraDeclarations?: Record<string, GameEra[]>; // declared pool changes by game id
+  excludeLagAcrossHoles?: boolean; // see DiagnosticsOptions
+  simulateNull?: boolean; // Monte Carlo χ² and bias-rule calibration; slow, worker runs only
+}
+
+export function diagnosticsOptionsFromSettings(
+  settings: ModelSettings = {},
+): DiagnosticsOptions {
+  const game = getGameDefinition(settings.gameId);
+  return {
+    game,
+    bonusPolicy: resolveBonusPolicy(game, settings.bonusPolicy),
+    declaredEras: settings.eraDeclarations?.[game.id],
+    excludeLagAcrossHoles: settings.excludeLagAcrossHoles,
+    uniformityTrials: settings.simulateNull ? DEFAULT_UNIFORMITY_TRIALS : 0,
+    calibrationTrials: settings.simulateNull ? DEFAULT_CALIBRATION_TRIALS : 0,
+  };
 }
 
 interface WeightedProfile {
@@ -2443,6 +2629,7 @@ interface FinalPredictionArtifacts {
   sets: PredictedSet[];
   scores: NumberScore[];
   bayesian: BayesianResult[];
+  bonusScores: BonusScore[];
   warning: string;
 }
 
@@ -2698,12 +2885,23 @@ function buildFinalPredictionArtifacts(
     options.diagnostics.poolSize,
     learnedDiagnostics,
   );
-  const finalizedSets = rerankSetsWithMethodPerformance(
-    rankedSets,
-    options.backtest.methodPerformance,
-  ).slice(0, 10);
+  const bonusScores = bonusScoring(learnedDiagnostics, options.draws);
+  const finalizedSets = attachBonusPredictions(
+    rerankSetsWithMethodPerformance(
+      rankedSets,
+      options.backtest.methodPerformance,
+    ).slice(0, 10),
+    bonusScores,
+    learnedDiagnostics.game.bonusSemantics === "shared-pool",
+  );
   emitProgress(0.84, "Computing Bayesian summary");
-  const bays = bayesianSmoothed(options.draws, options.diagnostics.poolSize);
+  const bays = bayesianSmoothed(
+    options.draws,
+    options.diagnostics.poolSize,
+    undefined,
+    undefined,
+    layoutForGame(options.diagnostics.game, options.diagnostics.bonusPolicy),
+  );
 
   let warning: string;
   if (!learnedDiagnostics.biasDetected) {
@@ -2729,6 +2927,7 @@ function buildFinalPredictionArtifacts(
     sets: finalizedSets,
     scores: finalScores,
     bayesian: bays,
+    bonusScores,
     warning,
   };
 }
@@ -2755,7 +2954,7 @@ export function runPrediction(
       : 0.8;
 
   // Use the full uploaded history in chronological order for training/prediction.
-  const eraDraws = [...draws].sort((a, b) => a.date.localeCompare(b.date));
+  const eraDraws = [...draws].sort(compareDraws);
   const calibratedBudgets = calibrateRuntimeBudgets(eraDraws.length, {
     fastMode: modelSettings.fastMode,
     targetLatencyMs: modelSettings.targetLatencyMs,
@@ -2764,7 +2963,14 @@ export function runPrediction(
     calibratedBudgets,
     modelSettings,
   );
-  const diagnosticsCache = createDiagnosticsCache(220);
+  const diagnosticsCache = createDiagnosticsCache(
+    220,
+    diagnosticsOptionsOf(diagnostics),
+  );
+  // The backtest ends on the full history; keep the caller's richer diagnostics for it.
+  if (draws.every((draw, idx) => draw === eraDraws[idx])) {
+    diagnosticsCache.prime(eraDraws, diagnostics);
+  }
 
   // PHASE 5: Run backtest FIRST to "warm up" the model through online learning
   emitProgress(0.08, "Running adaptive backtest");
@@ -2799,6 +3005,7 @@ export function runPrediction(
     backtest: bt,
     scores: finalArtifacts.scores,
     bayesian: finalArtifacts.bayesian,
+    bonusScores: finalArtifacts.bonusScores,
     warning: finalArtifacts.warning,
   };
 }
@@ -2824,7 +3031,7 @@ export function refreshPredictionCandidates(
     modelSettings.randomSeedSalt !== undefined
       ? String(modelSettings.randomSeedSalt)
       : "";
-  const eraDraws = [...draws].sort((a, b) => a.date.localeCompare(b.date));
+  const eraDraws = [...draws].sort(compareDraws);
   const calibratedBudgets = calibrateRuntimeBudgets(eraDraws.length, {
     fastMode: modelSettings.fastMode,
     targetLatencyMs: modelSettings.targetLatencyMs,
@@ -2833,11 +3040,24 @@ export function refreshPredictionCandidates(
     calibratedBudgets,
     modelSettings,
   );
-  const diagnosticsCache = createDiagnosticsCache(120);
+  const diagnosticsCache = createDiagnosticsCache(
+    120,
+    diagnosticsOptionsOf(diagnostics),
+  );
+  if (draws.every((draw, idx) => draw === eraDraws[idx])) {
+    diagnosticsCache.prime(eraDraws, diagnostics);
+  }
   const baseBacktest = options.basePrediction.backtest;
 
   const reusedDiagnostics =
-    baseBacktest.finalDiagnostics.poolSize === diagnostics.poolSize
+    baseBacktest.finalDiagnostics.poolSize === diagnostics.poolSize &&
+    baseBacktest.finalDiagnostics.totalDraws === diagnostics.totalDraws &&
+    baseBacktest.finalDiagnostics.game.id === diagnostics.game.id &&
+    baseBacktest.finalDiagnostics.bonusPolicy === diagnostics.bonusPolicy &&
+    baseBacktest.finalDiagnostics.excludeLagAcrossHoles ===
+      diagnostics.excludeLagAcrossHoles &&
+    JSON.stringify(baseBacktest.finalDiagnostics.declaredEras) ===
+      JSON.stringify(diagnostics.declaredEras)
       ? baseBacktest.finalDiagnostics
       : diagnostics;
   const refreshedBacktest: BacktestResult = {
@@ -2864,6 +3084,7 @@ export function refreshPredictionCandidates(
     backtest: refreshedBacktest,
     scores: finalArtifacts.scores,
     bayesian: finalArtifacts.bayesian,
+    bonusScores: finalArtifacts.bonusScores,
     warning: finalArtifacts.warning,
   };
 }
@@ -2879,6 +3100,7 @@ function runGeneticOptimization(
   scoringLookup: ScoringLookup = createScoringLookup(scores, diag),
 ): number[] {
   const N = diag.poolSize;
+  const K = diag.pickCount;
   const topN = 24; // Compress search space to top 24 numbers
   const numPool = scores.slice(0, topN).map((s) => s.number);
   const scoreSet = (set: number[]): number => {
@@ -2980,7 +3202,10 @@ function findHistoricalEchoes(
   diag: FullDiagnostics,
   draws: DrawRecord[],
   runtimeBudgets: RuntimeBudgets = calibrateRuntimeBudgets(draws.length),
-  diagnosticsCache: DiagnosticsCache = createDiagnosticsCache(96),
+  diagnosticsCache: DiagnosticsCache = createDiagnosticsCache(
+    96,
+    diagnosticsOptionsOf(diag),
+  ),
 ): number[] {
   const currentProfile = {
     chi: diag.chiSquare.chiSquare,
@@ -0,0 +1,306 @@
+/**
+ * Prize Data
+ * Division payouts, winner counts, rollovers and jackpots read from result
+ * exports, and the analyses built on them: rollover streaks, jackpot size vs
+ * winner count and per-division payout averages for expected value.
+ */
+
+import type { DrawRecord } from "./analysis";
+import type { ColumnAssignment, ColumnMapping } from "./columnMapping";
+import type { GameDefinition } from "./games";
+import { logChoose } from "./statistics";
+
+export interface PrizeDivision {
+  division: number; // 1 = jackpot
+  winners: number | null;
+  payout: number | null; // amount paid to each winner
+}
+
+export interface DrawPrizes {
+  jackpot: number | null; // jackpot amount on offer for the draw
+  rollover: boolean | null; // true when division 1 was not won; null when unknown
+  divisions: PrizeDivision[]; // ascending division
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────
+
+/** Reads "R 2 000 000,00", "R2,000,000.00" or "2000000"; null when no amount. */
+export function parseMoney(value: string | null | undefined): number | null {
+  const text = String(value ?? "").replace(/[^\d.,]/g, "");
+  if (!/\d/.test(text)) return null;
+  // The last separator is the decimal point when one or two digits follow it.
+  const decimalAt = Math.max(text.lastIndexOf(","), text.lastIndexOf("."));
+  const hasFraction = decimalAt >= 0 && /^\d{1,2}$/.test(text.slice(decimalAt + 1));
+  const whole = (hasFraction ? text.slice(0, decimalAt) : text).replace(/[.,]/g, "");
+  const fraction = hasFraction ? text.slice(decimalAt + 1) : "0";
+  const amount = parseFloat(`${whole || "0"}.${fraction}`);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+export function parseWinnerCount(value: string | null | undefined): number | null {
+  const text = String(value ?? "").trim();
+  if (/^\d+(\.0+)?$/.test(text)) return parseInt(text, 10);
+  const digits = text.replace(/[\s,]/g, "");
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) : null;
+}
+
+export function parseRolloverFlag(value: string | null | undefined): boolean | null {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (/^(yes|y|true|1|rollover|roll|rolled over|ja)$/.test(text)) return true;
+  if (/^(no|n|false|0|won|nee)$/.test(text)) return false;
+  return null;
+}
+
+/** Prize role implied by a header ("Div 1 Winners", "Division 3 Payout", "Jackpot", ...). */
+export function prizeColumnAssignment(header: string): ColumnAssignment | null {
+  const h = header.toLowerCase();
+  const division = h.match(/\bdiv(?:ision)?\s*\.?\s*(\d+)/);
+  if (division) {
+    return {
+      role: /winner/.test(h) ? "division-winners" : "division-payout",
+      division: parseInt(division[1], 10),
+    };
+  }
+  if (/\bjackpot\s*winners?\b/.test(h)) return { role: "division-winners", division: 1 };
+  if (/roll\s*-?\s*over/.test(h)) return { role: "rollover" };
+  if (/\bjackpot\b/.test(h)) return { role: "jackpot" };
+  return null;
+}
+
+/**
+ * Prize data of one row, or undefined when it has none. Without an explicit
+ * rollover column, a division 1 winner count decides it.
+ */
+export function readDrawPrizes(
+  row: Record<string, string>,
+  mapping: ColumnMapping | null,
+): DrawPrizes | undefined {
+  let jackpot: number | null = null;
+  let rollover: boolean | null = null;
+  const divisions = new Map<number, PrizeDivision>();
+  const divisionOf = (division: number) => {
+    const entry = divisions.get(division) ?? { division, winners: null, payout: null };
+    divisions.set(division, entry);
+    return entry;
+  };
+
+  for (const [header, value] of Object.entries(row)) {
+    const assignment = mapping ? mapping[header] : prizeColumnAssignment(header);
+    if (!assignment) continue;
+    if (assignment.role === "jackpot") {
+      jackpot = parseMoney(value) ?? jackpot;
+    } else if (assignment.role === "rollover") {
+      rollover = parseRolloverFlag(value) ?? rollover;
+    } else if (assignment.role === "division-winners") {
+      const winners = parseWinnerCount(value);
+      if (winners !== null) divisionOf(assignment.division ?? 1).winners = winners;
+    } else if (assignment.role === "division-payout") {
+      const payout = parseMoney(value);
+      if (payout !== null) divisionOf(assignment.division ?? 1).payout = payout;
+    }
+  }
+
+  if (jackpot === null && rollover === null && divisions.size === 0) return undefined;
+  const firstDivisionWinners = divisions.get(1)?.winners ?? null;
+  return {
+    jackpot,
+    rollover: rollover ?? (firstDivisionWinners !== null ? firstDivisionWinners === 0 : null),
+    divisions: Array.from(divisions.values()).sort((a, b) => a.division - b.division),
+  };
+}
+
+// ─── Analysis ───────────────────────────────────────────────────────
+
+export interface RolloverStreaks {
+  lengths: number[]; // completed streaks, oldest first
+  longest: number;
+  average: number;
+  current: number; // rollovers since the jackpot was last won
+}
+
+export interface JackpotWinnerBucket {
+  minJackpot: number;
+  maxJackpot: number;
+  draws: number;
+  avgWinners: number; // total winners across divisions
+}
+
+export interface JackpotWinnerRelation {
+  samples: number;
+  correlation: number | null; // Pearson, jackpot vs total winners
+  buckets: JackpotWinnerBucket[]; // jackpot quartiles, smallest first
+}
+
+export interface DivisionPayoutSummary {
+  division: number;
+  draws: number; // draws with a payout for this division
+  avgPayout: number | null; // over draws where the division was won
+  avgWinners: number | null;
+  probability: number | null; // per-ticket chance, from the game's division rules
+  expectedValue: number | null; // probability × average payout
+}
+
+export interface PrizeAnalysis {
+  drawsWithPrizes: number;
+  rolloverStreaks: RolloverStreaks;
+  jackpotVsWinners: JackpotWinnerRelation;
+  divisions: DivisionPayoutSummary[];
+  expectedValuePerTicket: number | null; // sum over divisions with payout data
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  if (mx === null || my === null || xs.length < 3) return null;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+export function rolloverStreaks(draws: DrawRecord[]): RolloverStreaks {
+  const lengths: number[] = [];
+  let current = 0;
+  for (const draw of draws) {
+    const rollover = draw.prizes?.rollover ?? null;
+    if (rollover === true) {
+      current++;
+    } else if (rollover === false) {
+      if (current > 0) lengths.push(current);
+      current = 0;
+    }
+  }
+  return {
+    lengths,
+    longest: Math.max(0, current, ...lengths),
+    average: mean(lengths) ?? 0,
+    current,
+  };
+}
+
+export function jackpotVsWinners(draws: DrawRecord[]): JackpotWinnerRelation {
+  const samples = draws
+    .map((draw) => {
+      const prizes = draw.prizes;
+      const counts = prizes?.divisions.map((d) => d.winners) ?? [];
+      if (!prizes || prizes.jackpot === null || counts.length === 0) return null;
+      if (counts.some((count) => count === null)) return null;
+      return {
+        jackpot: prizes.jackpot,
+        winners: (counts as number[]).reduce((a, b) => a + b, 0),
+      };
+    })
+    .filter((sample): sample is { jackpot: number; winners: number } => sample !== null)
+    .sort((a, b) => a.jackpot - b.jackpot);
+
+  const bucketCount = Math.min(4, samples.length);
+  const buckets: JackpotWinnerBucket[] = [];
+  for (let b = 0; b < bucketCount; b++) {
+    const slice = samples.slice(
+      Math.floor((b * samples.length) / bucketCount),
+      Math.floor(((b + 1) * samples.length) / bucketCount),
+    );
+    buckets.push({
+      minJackpot: slice[0].jackpot,
+      maxJackpot: slice[slice.length - 1].jackpot,
+      draws: slice.length,
+      avgWinners: mean(slice.map((s) => s.winners)) ?? 0,
+    });
+  }
+
+  return {
+    samples: samples.length,
+    correlation: pearson(
+      samples.map((s) => s.jackpot),
+      samples.map((s) => s.winners),
+    ),
+    buckets,
+  };
+}
+
+/** Per-ticket chance of each prize division on a `poolSize` drum, or null without rules. */
+export function divisionProbabilities(
+  game: GameDefinition,
+  poolSize: number,
+): number[] | null {
+  if (!game.prizeDivisions) return null;
+  const K = game.pickCount;
+  const total = logChoose(poolSize, K);
+  return game.prizeDivisions.map(({ main, bonus }) => {
+    const pMain = Math.exp(logChoose(K, main) + logChoose(poolSize - K, K - main) - total);
+    if (game.bonusSemantics === "none") return bonus ? 0 : pMain;
+    // A shared-drum bonus is one of the drawn-but-unmatched balls the ticket may hold.
+    const pBonus =
+      game.bonusSemantics === "separate-pool"
+        ? 1 / (game.bonusPool ?? 1)
+        : (K - main) / (poolSize - K);
+    return pMain * (bonus ? pBonus : 1 - pBonus);
+  });
+}
+
+export function divisionPayoutSummaries(
+  draws: DrawRecord[],
+  game: GameDefinition,
+  poolSize: number,
+): DivisionPayoutSummary[] {
+  const probabilities = divisionProbabilities(game, poolSize) ?? [];
+  const seen = draws.flatMap((draw) => draw.prizes?.divisions ?? []);
+  const divisionCount = Math.max(
+    probabilities.length,
+    ...seen.map((entry) => entry.division),
+  );
+
+  return Array.from({ length: divisionCount }, (_, idx) => {
+    const division = idx + 1;
+    const entries = seen.filter((entry) => entry.division === division);
+    // Unwon divisions pay nothing that draw; they would drag the average to zero.
+    const payouts = entries
+      .filter((entry) => entry.payout !== null && entry.payout > 0 && entry.winners !== 0)
+      .map((entry) => entry.payout as number);
+    const winners = entries
+      .filter((entry) => entry.winners !== null)
+      .map((entry) => entry.winners as number);
+    const avgPayout = mean(payouts);
+    const probability = probabilities[idx] ?? null;
+    return {
+      division,
+      draws: payouts.length,
+      avgPayout,
+      avgWinners: mean(winners),
+      probability,
+      expectedValue:
+        probability !== null && avgPayout !== null ? probability * avgPayout : null,
+    };
+  });
+}
+
+/** Prize analyses over `draws`, or null when none of them carry prize data. */
+export function prizeAnalysis(
+  draws: DrawRecord[],
+  game: GameDefinition,
+  poolSize: number,
+): PrizeAnalysis | null {
+  const drawsWithPrizes = draws.filter((draw) => draw.prizes).length;
+  if (drawsWithPrizes === 0) return null;
+  const divisions = divisionPayoutSummaries(draws, game, poolSize);
+  const priced = divisions.filter((d) => d.expectedValue !== null);
+  return {
+    drawsWithPrizes,
+    rolloverStreaks: rolloverStreaks(draws),
+    jackpotVsWinners: jackpotVsWinners(draws),
+    divisions,
+    expectedValuePerTicket:
+      priced.length > 0
+        ? priced.reduce((sum, d) => sum + (d.expectedValue as number), 0)
+        : null,
+  };
+}
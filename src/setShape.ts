@@ -0,0 +1,229 @@
+/**
+ * Set Shape
+ * Exact distributions of a fair K-of-N draw's sum, range (max − min), odd
+ * count and consecutive-pair count, the observed-vs-expected comparison for a
+ * draw history, and where any one set falls in each distribution.
+ */
+
+import type { DrawRecord } from "./analysis";
+import {
+  adjustPValues,
+  chiSquareSurvival,
+  logChoose,
+  type AdjustedPValues,
+} from "./statistics";
+
+export type SetShapeFeature = "sum" | "range" | "odd" | "consecutive";
+
+export const SET_SHAPE_FEATURES: SetShapeFeature[] = ["sum", "range", "odd", "consecutive"];
+
+export const SET_SHAPE_LABELS: Record<SetShapeFeature, string> = {
+  sum: "Sum",
+  range: "Range (max − min)",
+  odd: "Odd count",
+  consecutive: "Consecutive pairs",
+};
+
+export interface ShapeDistribution {
+  min: number; // value of probabilities[0]
+  probabilities: number[]; // [v − min] = P(feature = v) for a fair draw
+}
+
+export type SetShape = Record<SetShapeFeature, number>;
+
+// ─── Exact Distributions ────────────────────────────────────────────
+
+// Every K-subset of 1..N is equally likely, so each distribution is a count
+// of subsets over C(N, K).
+
+function sumDistribution(N: number, K: number): ShapeDistribution {
+  const min = (K * (K + 1)) / 2;
+  const max = K * N - (K * (K - 1)) / 2;
+  // ways[k][s] = k-subsets of the numbers seen so far summing to s
+  const ways = Array.from({ length: K + 1 }, () => new Float64Array(max + 1));
+  ways[0][0] = 1;
+  for (let n = 1; n <= N; n++) {
+    for (let k = Math.min(K, n); k >= 1; k--) {
+      const from = ways[k - 1];
+      const to = ways[k];
+      for (let s = max; s >= n; s--) to[s] += from[s - n];
+    }
+  }
+  const total = Math.exp(logChoose(N, K));
+  return { min, probabilities: Array.from(ways[K].slice(min), (count) => count / total) };
+}
+
+function rangeDistribution(N: number, K: number): ShapeDistribution {
+  if (K < 2) return { min: 0, probabilities: [1] };
+  // Range r: N − r placements of the extremes, C(r − 1, K − 2) fillings between.
+  const logTotal = logChoose(N, K);
+  const probabilities: number[] = [];
+  for (let r = K - 1; r <= N - 1; r++) {
+    probabilities.push((N - r) * Math.exp(logChoose(r - 1, K - 2) - logTotal));
+  }
+  return { min: K - 1, probabilities };
+}
+
+function oddDistribution(N: number, K: number): ShapeDistribution {
+  const odd = Math.ceil(N / 2);
+  const logTotal = logChoose(N, K);
+  const probabilities: number[] = [];
+  for (let k = 0; k <= K; k++) {
+    probabilities.push(Math.exp(logChoose(odd, k) + logChoose(N - odd, K - k) - logTotal));
+  }
+  return { min: 0, probabilities };
+}
+
+function consecutiveDistribution(N: number, K: number): ShapeDistribution {
+  // c adjacent pairs leave K − c blocks: choose the joined gaps, then place
+  // the blocks with at least one number between them.
+  const logTotal = logChoose(N, K);
+  const probabilities: number[] = [];
+  for (let c = 0; c <= Math.max(0, K - 1); c++) {
+    probabilities.push(Math.exp(logChoose(K - 1, c) + logChoose(N - K + 1, K - c) - logTotal));
+  }
+  return { min: 0, probabilities };
+}
+
+const distributionCache = new Map<string, Record<SetShapeFeature, ShapeDistribution>>();
+
+export function exactShapeDistributions(
+  N: number,
+  K: number,
+): Record<SetShapeFeature, ShapeDistribution> {
+  const key = `${N}:${K}`;
+  let cached = distributionCache.get(key);
+  if (!cached) {
+    cached = {
+      sum: sumDistribution(N, K),
+      range: rangeDistribution(N, K),
+      odd: oddDistribution(N, K),
+      consecutive: consecutiveDistribution(N, K),
+    };
+    distributionCache.set(key, cached);
+  }
+  return cached;
+}
+
+// ─── Set Placement ──────────────────────────────────────────────────
+
+/** Shape of a sorted set. */
+export function setShapeOf(numbers: number[]): SetShape {
+  let sum = 0;
+  let odd = 0;
+  let consecutive = 0;
+  numbers.forEach((n, idx) => {
+    sum += n;
+    if (n % 2 !== 0) odd++;
+    if (idx > 0 && n === numbers[idx - 1] + 1) consecutive++;
+  });
+  const range = numbers.length > 0 ? numbers[numbers.length - 1] - numbers[0] : 0;
+  return { sum, range, odd, consecutive };
+}
+
+function cumulative(dist: ShapeDistribution, value: number): { below: number; at: number } {
+  const idx = value - dist.min;
+  let below = 0;
+  for (let i = 0; i < Math.min(idx, dist.probabilities.length); i++) below += dist.probabilities[i];
+  return { below, at: dist.probabilities[idx] ?? 0 };
+}
+
+/** Mid-percentile (0–100): P(X < x) + ½·P(X = x), so ties sit in the middle. */
+export function shapePercentile(dist: ShapeDistribution, value: number): number {
+  const { below, at } = cumulative(dist, value);
+  return Math.min(100, Math.max(0, (below + at / 2) * 100));
+}
+
+/** Two-sided tail: twice the smaller of P(X ≤ x) and P(X ≥ x), capped at 1. */
+export function shapeTailProbability(dist: ShapeDistribution, value: number): number {
+  const { below, at } = cumulative(dist, value);
+  return Math.min(1, 2 * Math.min(below + at, 1 - below));
+}
+
+/** Where a sorted set falls in each exact distribution of its pool. */
+export function setShapePercentiles(numbers: number[], N: number): SetShape {
+  const distributions = exactShapeDistributions(N, numbers.length);
+  const shape = setShapeOf(numbers);
+  return {
+    sum: shapePercentile(distributions.sum, shape.sum),
+    range: shapePercentile(distributions.range, shape.range),
+    odd: shapePercentile(distributions.odd, shape.odd),
+    consecutive: shapePercentile(distributions.consecutive, shape.consecutive),
+  };
+}
+
+// ─── Observed vs Expected ───────────────────────────────────────────
+
+export interface SetShapeResult {
+  feature: SetShapeFeature;
+  label: string;
+  min: number; // value of expected[0] and observed[0]
+  expected: number[]; // exact probabilities
+  observed: number[]; // draw counts
+  observedMean: number;
+  expectedMean: number;
+  chiSquare: number; // adjacent values pooled until each bin expects MIN_EXPECTED_PER_BIN
+  degreesOfFreedom: number;
+  pValue: number;
+  adjusted: AdjustedPValues; // across the four features
+}
+
+const MIN_EXPECTED_PER_BIN = 5;
+
+function pooledChiSquare(
+  observed: number[],
+  probabilities: number[],
+  total: number,
+): { chiSquare: number; degreesOfFreedom: number; pValue: number } {
+  const bins: Array<{ observed: number; expected: number }> = [];
+  let bin = { observed: 0, expected: 0 };
+  probabilities.forEach((p, idx) => {
+    bin.observed += observed[idx];
+    bin.expected += p * total;
+    if (bin.expected >= MIN_EXPECTED_PER_BIN) {
+      bins.push(bin);
+      bin = { observed: 0, expected: 0 };
+    }
+  });
+  if (bins.length > 0) {
+    const last = bins[bins.length - 1];
+    last.observed += bin.observed;
+    last.expected += bin.expected;
+  }
+  if (bins.length < 2) return { chiSquare: 0, degreesOfFreedom: 0, pValue: 1 };
+  const chiSquare = bins.reduce(
+    (sum, b) => sum + (b.observed - b.expected) ** 2 / b.expected,
+    0,
+  );
+  const degreesOfFreedom = bins.length - 1;
+  return { chiSquare, degreesOfFreedom, pValue: chiSquareSurvival(chiSquare, degreesOfFreedom) };
+}
+
+/** Main-number shape of every K-ball draw against the exact fair distributions. */
+export function setShapeAnalysis(draws: DrawRecord[], N: number, K: number): SetShapeResult[] {
+  const distributions = exactShapeDistributions(N, K);
+  const shapes = draws
+    .filter((d) => d.numbers.length === K && d.numbers.every((n) => n >= 1 && n <= N))
+    .map((d) => setShapeOf(d.numbers));
+  const results = SET_SHAPE_FEATURES.map((feature) => {
+    const { min, probabilities } = distributions[feature];
+    const observed = new Array<number>(probabilities.length).fill(0);
+    let observedSum = 0;
+    for (const shape of shapes) {
+      observed[shape[feature] - min]++;
+      observedSum += shape[feature];
+    }
+    return {
+      feature,
+      label: SET_SHAPE_LABELS[feature],
+      min,
+      expected: probabilities,
+      observed,
+      observedMean: shapes.length > 0 ? observedSum / shapes.length : 0,
+      expectedMean: probabilities.reduce((sum, p, idx) => sum + p * (idx + min), 0),
+      ...pooledChiSquare(observed, probabilities, shapes.length),
+    };
+  });
+  const adjusted = adjustPValues(results.map((result) => result.pValue));
+  return results.map((result, idx) => ({ ...result, adjusted: adjusted[idx] }));
+}
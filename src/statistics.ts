@@ -0,0 +1,262 @@
+/**
+ * Statistics
+ * Distribution functions and seeded sampling shared by the diagnostics:
+ * exact chi-square tails via the regularised incomplete gamma function, the
+ * normal and Kolmogorov distributions, a deterministic PRNG and p-value
+ * adjustment for families of tests.
+ */
+
+// ─── Gamma Functions ────────────────────────────────────────────────
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection keeps the Lanczos series in its accurate range.
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+const GAMMA_EPSILON = 1e-15;
+const GAMMA_MAX_ITERATIONS = 1000;
+
+// Series for P(a, x); converges quickly when x < a + 1.
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+// Continued fraction for Q(a, x) (modified Lentz); used when x >= a + 1.
+function gammaContinuedFraction(a: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < GAMMA_EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/** Regularised lower incomplete gamma P(a, x). */
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+}
+
+/** Regularised upper incomplete gamma Q(a, x) = 1 − P(a, x), accurate in the far tail. */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+}
+
+// ─── Distributions ──────────────────────────────────────────────────
+
+/** P(X ≥ x) for X ~ χ²(df). */
+export function chiSquareSurvival(x: number, df: number): number {
+  if (!Number.isFinite(x) || df <= 0) return Number.NaN;
+  return regularizedGammaQ(df / 2, x / 2);
+}
+
+/** Standard normal CDF, via erfc(t) = Q(½, t²). */
+export function normalCdf(z: number): number {
+  const tail = 0.5 * regularizedGammaQ(0.5, (z * z) / 2);
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export function logChoose(n: number, k: number): number {
+  if (k < 0 || k > n) return -Infinity;
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+/** Exact P(X ≥ k) for X ~ Binomial(n, p), summed outward from k until the terms vanish. */
+export function binomialUpperTail(k: number, n: number, p: number): number {
+  if (k <= 0) return 1;
+  if (k > n || p <= 0) return 0;
+  if (p >= 1) return 1;
+  const logP = Math.log(p);
+  const logQ = Math.log(1 - p);
+  const pmf = (i: number) => Math.exp(logChoose(n, i) + i * logP + (n - i) * logQ);
+  const ratio = p / (1 - p);
+
+  if (k > n * p) {
+    let term = pmf(k);
+    let sum = 0;
+    for (let i = k; i <= n && term > 0; i++) {
+      sum += term;
+      if (term < sum * 1e-16) break;
+      term *= ((n - i) / (i + 1)) * ratio;
+    }
+    return Math.min(1, sum);
+  }
+  let term = pmf(k - 1);
+  let lower = 0;
+  for (let i = k - 1; i >= 0 && term > 0; i--) {
+    lower += term;
+    if (term < lower * 1e-16) break;
+    term *= (i / (n - i + 1)) / ratio;
+  }
+  return Math.max(0, 1 - lower);
+}
+
+/**
+ * Exact P(X ≥ k) for X ~ Hypergeometric: `sample` items taken without
+ * replacement from `population`, of which `successes` are marked.
+ */
+export function hypergeometricUpperTail(
+  k: number,
+  population: number,
+  successes: number,
+  sample: number,
+): number {
+  const lo = Math.max(0, sample - (population - successes));
+  const hi = Math.min(successes, sample);
+  if (k <= lo) return 1;
+  if (k > hi) return 0;
+  const logTotal = logChoose(population, sample);
+  const pmf = (x: number) =>
+    Math.exp(
+      logChoose(successes, x) + logChoose(population - successes, sample - x) - logTotal,
+    );
+  // pmf(x + 1) / pmf(x)
+  const step = (x: number) =>
+    ((successes - x) * (sample - x)) / ((x + 1) * (population - successes - sample + x + 1));
+
+  if (k > (sample * successes) / population) {
+    let term = pmf(k);
+    let sum = 0;
+    for (let x = k; x <= hi && term > 0; x++) {
+      sum += term;
+      if (term < sum * 1e-16) break;
+      term *= step(x);
+    }
+    return Math.min(1, sum);
+  }
+  let term = pmf(k - 1);
+  let lower = 0;
+  for (let x = k - 1; x >= lo && term > 0; x--) {
+    lower += term;
+    if (term < lower * 1e-16) break;
+    term /= step(x - 1);
+  }
+  return Math.max(0, 1 - lower);
+}
+
+/** Kolmogorov distribution upper tail, P(K > λ). */
+export function kolmogorovSurvival(lambda: number): number {
+  if (lambda <= 0) return 1;
+  let sum = 0;
+  for (let j = 1; j <= 100; j++) {
+    const term = Math.exp(-2 * j * j * lambda * lambda);
+    sum += (j % 2 === 1 ? 1 : -1) * term;
+    if (term < 1e-16) break;
+  }
+  return Math.min(1, Math.max(0, 2 * sum));
+}
+
+// ─── Seeded Sampling ────────────────────────────────────────────────
+
+export function hashStringToSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function createSeededRandom(seed: number): () => number {
+  let state = seed || 1;
+  return () => {
+    state += 0x6d2b79f5;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** `count` distinct balls from 1..`pool`, as a fair draw would produce them. */
+export function sampleDistinctBalls(
+  pool: number,
+  count: number,
+  rng: () => number,
+  scratch: number[] = [],
+): number[] {
+  if (scratch.length !== pool) {
+    scratch.length = 0;
+    for (let n = 1; n <= pool; n++) scratch.push(n);
+  }
+  const picked: number[] = [];
+  for (let i = 0; i < count && i < pool; i++) {
+    const j = i + Math.floor(rng() * (pool - i));
+    [scratch[i], scratch[j]] = [scratch[j], scratch[i]];
+    picked.push(scratch[i]);
+  }
+  return picked;
+}
+
+// ─── Multiple Testing ───────────────────────────────────────────────
+
+export interface AdjustedPValues {
+  bonferroni: number; // family-wise, any dependence
+  holm: number; // family-wise, uniformly stronger than Bonferroni
+  benjaminiHochberg: number; // false discovery rate
+}
+
+/**
+ * Adjusts `pValues` for a family of `familySize` tests. Tests left out of
+ * `pValues` (e.g. pairs never drawn together) count as p = 1.
+ */
+export function adjustPValues(
+  pValues: number[],
+  familySize = pValues.length,
+): AdjustedPValues[] {
+  const m = Math.max(familySize, pValues.length);
+  const order = pValues.map((_, idx) => idx).sort((a, b) => pValues[a] - pValues[b]);
+  const holm = new Array<number>(pValues.length);
+  const bh = new Array<number>(pValues.length);
+
+  let running = 0;
+  order.forEach((idx, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * pValues[idx]));
+    holm[idx] = running;
+  });
+  running = 1;
+  for (let rank = order.length - 1; rank >= 0; rank--) {
+    const idx = order[rank];
+    running = Math.min(running, (m * pValues[idx]) / (rank + 1));
+    bh[idx] = running;
+  }
+
+  return pValues.map((p, idx) => ({
+    bonferroni: Math.min(1, p * m),
+    holm: holm[idx],
+    benjaminiHochberg: bh[idx],
+  }));
+}
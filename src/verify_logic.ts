@@ -1,11 +1,88 @@
 import {
   runPrediction,
   bayesianSmoothed,
+  bonusScoring,
   compositeScoring,
   createDiagnosticsCache,
+  diagnosticsOptionsFromSettings,
   WEIGHT_PROFILES,
 } from "./predictor";
-import { K, runFullDiagnostics, DrawRecord } from "./analysis";
+import {
+  runFullDiagnostics,
+  chiSquareTest,
+  detectFormat,
+  featureSequenceAnalysis,
+  featureTestsOf,
+  gapAnalysis,
+  layoutForGame,
+  MAX_FEATURE_LAG,
+  orderStatisticProbability,
+  pairIndex,
+  pairMatrix,
+  positionalFrequencyAnalysis,
+  transitionAnalysis,
+  DrawRecord,
+} from "./analysis";
+import { inferDateFormat, parseDateValue, toIsoDate } from "./dateFormat";
+import { findDrawHoles } from "./drawCalendar";
+import {
+  DatasetFormatError,
+  createDrawDataset,
+  datasetColumnMapping,
+  parseDrawDataset,
+  serializeDrawDataset,
+  toCanonicalDraw,
+  toDrawRecord,
+} from "./drawDataset";
+import { DEFAULT_GAME, getGameDefinition } from "./games";
+import {
+  commitRowEdit,
+  createEditHistory,
+  redoRowEdit,
+  undoRowEdit,
+} from "./editHistory";
+import { mergeImportSources } from "./importMerge";
+import {
+  canonicalDrawsOf,
+  collectSourceHeaders,
+  ingestSources,
+  parseDrawRows,
+  readFileSources,
+  readUploadedFiles,
+} from "./ingestion";
+import {
+  divisionProbabilities,
+  parseMoney,
+  readDrawPrizes,
+  rolloverStreaks,
+} from "./prizeData";
+import { exactShapeDistributions, setShapeOf, setShapePercentiles } from "./setShape";
+import {
+  adjustPValues,
+  binomialUpperTail,
+  chiSquareSurvival,
+  createSeededRandom,
+  hypergeometricUpperTail,
+  normalCdf,
+  sampleDistinctBalls,
+} from "./statistics";
+
+declare function require(id: "fs"): {
+  readFileSync(path: string): Uint8Array;
+  readFileSync(path: string, encoding: "utf8"): string;
+  mkdtempSync(prefix: string): string;
+  rmSync(path: string, options: { recursive: boolean; force: boolean }): void;
+};
+declare function require(id: "os"): { tmpdir(): string };
+declare function require(id: "child_process"): {
+  execFileSync(file: string, args: string[], options: { stdio: "ignore" }): unknown;
+};
+declare const __dirname: string;
+declare const process: { execPath: string; exitCode?: number };
+
+// Compiled into .tmp-verify/, so fixtures sit one level up under src/.
+const FIXTURE_DIR = `${__dirname}/../src/fixtures`;
+const FIXTURE_FILES = ["sa-lotto-sample.csv", "sa-lotto-sample.xlsx"];
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) {
@@ -13,7 +90,11 @@ function assert(condition: unknown, message: string): asserts condition {
   }
 }
 
-function buildSyntheticDraws(totalDraws: number, N = 52): DrawRecord[] {
+function buildSyntheticDraws(
+  totalDraws: number,
+  N = 52,
+  pickCount = DEFAULT_GAME.pickCount,
+): DrawRecord[] {
   let seed = 0x7f4a7c15;
   const nextInt = (maxExclusive: number): number => {
     seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
@@ -26,7 +107,7 @@ function buildSyntheticDraws(totalDraws: number, N = 52): DrawRecord[] {
 
   for (let i = 0; i < totalDraws; i++) {
     const mainSet = new Set<number>();
-    while (mainSet.size < K) {
+    while (mainSet.size < pickCount) {
       mainSet.add(nextInt(N) + 1);
     }
     const numbers = Array.from(mainSet).sort((a, b) => a - b);
@@ -43,6 +124,15 @@ function buildSyntheticDraws(totalDraws: number, N = 52): DrawRecord[] {
   return draws;
 }
 
+// The LCG fixture's low bits repeat pairs, so fair draws come from the seeded sampler.
+function fairDraws(count: number, pool: number, pick: number, seed: number): DrawRecord[] {
+  const rng = createSeededRandom(seed);
+  return buildSyntheticDraws(count, pool, pick).map((draw) => {
+    const [bonus, ...numbers] = sampleDistinctBalls(pool, pick + 1, rng);
+    return { ...draw, numbers: numbers.sort((a, b) => a - b), bonus };
+  });
+}
+
 function testBayesianRecencyWeighting() {
   const N = 49;
   const recencyDraws: DrawRecord[] = [
@@ -141,17 +231,1007 @@ function testDiagnosticsCacheKeyUniqueness() {
   );
 }
 
-function runVerificationSuite() {
+function testGameDefinitionDiagnostics() {
+  const game = getGameDefinition("sa-daily-lotto");
+  const draws = buildSyntheticDraws(60, game.mainPool, game.pickCount).map(
+    (draw) => ({ ...draw, bonus: 0 }),
+  );
+  const diag = runFullDiagnostics(draws, { game });
+  const scores = compositeScoring(diag, draws, WEIGHT_PROFILES[0]);
+
+  assert(
+    diag.pickCount === game.pickCount,
+    `Expected pick count ${game.pickCount}, got ${diag.pickCount}.`,
+  );
+  assert(
+    diag.poolSize === game.mainPool,
+    `Expected pool size ${game.mainPool}, got ${diag.poolSize}.`,
+  );
+  assert(
+    scores.length === game.mainPool,
+    `Expected ${game.mainPool} scores, got ${scores.length}.`,
+  );
+}
+
+function testSeparatePoolBonusDiagnostics() {
+  const game = getGameDefinition("sa-powerball");
+  const bonusPool = game.bonusPool ?? 0;
+  const draws = buildSyntheticDraws(60, game.mainPool, game.pickCount).map(
+    (draw, idx) => ({ ...draw, bonus: (idx % bonusPool) + 1 }),
+  );
+  const diag = runFullDiagnostics(draws, { game });
+
+  assert(diag.bonus, "Separate-pool game is missing bonus diagnostics.");
+  assert(
+    diag.bonus.frequency.length === bonusPool,
+    `Expected ${bonusPool} bonus frequencies, got ${diag.bonus.frequency.length}.`,
+  );
+  assert(
+    diag.frequency.every((f) => f.expected === diag.frequency[0].expected) &&
+      Math.abs(
+        diag.frequency.reduce((sum, f) => sum + f.count, 0) -
+          draws.length * game.pickCount,
+      ) < 1e-9,
+    "Main-number frequency should exclude the separate-pool bonus.",
+  );
+
+  const bonusScores = bonusScoring(diag, draws);
+  assert(
+    bonusScores.length === bonusPool &&
+      bonusScores.every((b) => b.number >= 1 && b.number <= bonusPool),
+    "Bonus scoring must rank exactly the bonus drum.",
+  );
+}
+
+function testBonusPolicyDiagnostics() {
+  const draws = buildSyntheticDraws(160, 52);
+  const countTotal = (diag: ReturnType<typeof runFullDiagnostics>) =>
+    diag.frequency.reduce((sum, f) => sum + f.count, 0);
+
+  const included = runFullDiagnostics(draws, { bonusPolicy: "include" });
+  const excluded = runFullDiagnostics(draws, { bonusPolicy: "exclude" });
+  const separate = runFullDiagnostics(draws, { bonusPolicy: "separate" });
+
+  assert(
+    included.bonusPolicy === "include" &&
+      excluded.bonusPolicy === "exclude" &&
+      separate.bonusPolicy === "separate",
+    "Diagnostics must record the bonus policy that produced them.",
+  );
+  assert(
+    countTotal(included) - countTotal(excluded) === included.eraDrawCount,
+    "Including the bonus should add exactly one counted ball per draw.",
+  );
+  assert(
+    included.chiSquare.chiSquare !== excluded.chiSquare.chiSquare,
+    "Chi-square should respond to the bonus policy.",
+  );
+  assert(
+    excluded.bonus === null && separate.bonus?.poolSize === separate.poolSize,
+    "Only the separate policy should analyse a shared-drum bonus on its own.",
+  );
+
+  const powerball = getGameDefinition("sa-powerball");
+  const forced = runFullDiagnostics(
+    buildSyntheticDraws(40, powerball.mainPool, powerball.pickCount),
+    { game: powerball, bonusPolicy: "include" },
+  );
+  assert(
+    forced.bonusPolicy === "separate",
+    "A separate-drum bonus must never be folded into the main numbers.",
+  );
+}
+
+function testFormatEraDetection() {
+  // 6/49 draws up to index 120, 6/52 draws afterwards.
+  const changeIndex = 120;
+  const draws = [
+    ...buildSyntheticDraws(240, 49).slice(0, changeIndex),
+    ...buildSyntheticDraws(240, 52).slice(changeIndex),
+  ];
+  const firstLargeBall = draws.findIndex(
+    (draw) => Math.max(...draw.numbers, draw.bonus) > 49,
+  );
+
+  const detected = detectFormat(draws, DEFAULT_GAME);
+  assert(detected.eras.length === 2, "Expected a 49 era and a 52 era.");
+  const [early, late] = detected.eras;
+  assert(
+    early.poolSize === 49 &&
+      late.poolSize === 52 &&
+      late.startIndex >= changeIndex &&
+      late.startIndex <= firstLargeBall,
+    `Detected change point ${late.startIndex} outside [${changeIndex}, ${firstLargeBall}].`,
+  );
+  assert(
+    late.source === "detected" &&
+      late.confidence > 0 &&
+      late.confidence <= 1 &&
+      late.startDate === draws[late.startIndex].date &&
+      early.endDate === draws[late.startIndex - 1].date &&
+      (late.earliestStartDate ?? late.startDate) <= late.startDate,
+    "Detected era must report dates, a confidence and its credible window.",
+  );
+
+  const declared = detectFormat(draws, DEFAULT_GAME, [
+    { poolSize: 52, startDate: draws[changeIndex].date },
+  ]);
+  assert(
+    declared.eras.length === 2 &&
+      declared.eras[1].startIndex === changeIndex &&
+      declared.eras[1].source === "declared" &&
+      declared.eras[1].confidence === 1 &&
+      declared.currentDraws.length === draws.length - changeIndex,
+    "Declared era dates must override detection.",
+  );
+}
+
+function testImportMerge() {
+  const identify = (draw: DrawRecord) => ({
+    keys: [draw.date],
+    fingerprint: `${draw.numbers.join("-")}+${draw.bonus}`,
+    time: Date.parse(draw.date),
+  });
+  const a = { date: "2020-01-08", numbers: [1, 2, 3, 4, 5, 6], bonus: 7 };
+  const b = { date: "2020-01-01", numbers: [8, 9, 10, 11, 12, 13], bonus: 14 };
+  const bConflict = { ...b, bonus: 15 };
+  const c = { date: "2020-01-04", numbers: [20, 21, 22, 23, 24, 25], bonus: 26 };
+
+  const merged = mergeImportSources(
+    [
+      { label: "first", rows: [a, b] },
+      { label: "second", rows: [{ ...a }, bConflict, c] },
+    ],
+    identify,
+  );
+  assert(
+    merged.rows.map((draw) => draw.date).join(",") ===
+      "2020-01-01,2020-01-04,2020-01-08",
+    "Merged rows must be de-duplicated and chronological.",
+  );
+  assert(
+    merged.duplicateCount === 1 &&
+      merged.conflicts.length === 1 &&
+      merged.conflicts[0].kept.row === b &&
+      merged.conflicts[0].rejected.source === "second",
+    "Disagreeing sources must be reported with the earlier source kept.",
+  );
+
+  // Appending keeps the loaded history untouched, even its own repeats.
+  const appended = mergeImportSources(
+    [{ label: "latest", rows: [bConflict, c] }],
+    identify,
+    { label: "history", rows: [a, b, { ...b }] },
+  );
+  assert(
+    appended.rows.length === 4 &&
+      appended.conflicts.length === 1 &&
+      appended.conflicts[0].kept.source === "history",
+    "Appended rows must not displace the loaded history.",
+  );
+}
+
+function testDrawDatasetRoundTrip() {
+  const draws = buildSyntheticDraws(40, 52).map((draw, idx) => ({
+    ...draw,
+    drawNumber: idx + 1,
+    drawLabel: `D${idx + 1}`,
+    prizes: { jackpot: 1, rollover: null, divisions: [] },
+  }));
+  const dataset = createDrawDataset(
+    DEFAULT_GAME,
+    draws.map((draw) => toCanonicalDraw(draw, { jackpot: "R1" })),
+  );
+  for (const encoding of ["json", "ndjson"] as const) {
+    const parsed = parseDrawDataset(serializeDrawDataset(dataset, encoding), encoding);
+    assert(
+      JSON.stringify(parsed.draws.map(toDrawRecord)) === JSON.stringify(draws) &&
+        parsed.draws[3].drawId === "D4" &&
+        parsed.draws[3].metadata?.jackpot === "R1",
+      `Dataset must round-trip through ${encoding}.`,
+    );
+  }
+
+  let versionError: unknown = null;
+  try {
+    parseDrawDataset(JSON.stringify({ ...dataset, version: 99 }), "json");
+  } catch (error) {
+    versionError = error;
+  }
+  assert(
+    versionError instanceof DatasetFormatError &&
+      /Unsupported dataset version 99/.test(versionError.message),
+    "Unsupported dataset versions must be rejected by name.",
+  );
+}
+
+function testIngestionFixtures() {
+  const readFixture = (name: string) =>
+    require("fs").readFileSync(`${FIXTURE_DIR}/${name}`);
+  const expected = new TextDecoder().decode(
+    readFixture("sa-lotto-sample.expected.json"),
+  );
+  const ctx = { game: DEFAULT_GAME, mapping: null };
+
+  for (const name of FIXTURE_FILES) {
+    const cliResult = ingestSources(readFileSources(name, readFixture(name)), ctx);
+    // Only the CSV export has a jackpot column; the ball data must match across both.
+    const withoutPrizes = cliResult.draws.map(({ prizes: _prizes, ...draw }) => draw);
+    assert(
+      JSON.stringify(withoutPrizes) === JSON.stringify(JSON.parse(expected)),
+      `${name} must ingest to the expected draws.`,
+    );
+    if (name.endsWith(".csv")) {
+      assert(
+        cliResult.issues.length === 1 &&
+          cliResult.issues[0].reasons.includes("duplicate-ball"),
+        "The invalid CSV row must be reported, not ingested.",
+      );
+      assert(
+        cliResult.draws.every((draw) => draw.prizes?.jackpot === 2000000),
+        "The CSV jackpot column must be read as prize data.",
+      );
+    } else {
+      assert(
+        cliResult.duplicateCount === 2 && cliResult.conflicts.length === 0,
+        "Overlapping workbook sheets must merge without conflicts.",
+      );
+    }
+  }
+}
+
+// The upload's File -> import -> dataset export against the CLI's --export-dataset.
+async function testUploadMatchesCli() {
+  const fs = require("fs");
+  const outDir = fs.mkdtempSync(`${require("os").tmpdir()}/lotto-verify-`);
+  try {
+    for (const name of FIXTURE_FILES) {
+      const path = `${FIXTURE_DIR}/${name}`;
+      const { sources } = await readUploadedFiles([
+        new File([new Uint8Array(fs.readFileSync(path))], name),
+      ]);
+      const game = DEFAULT_GAME;
+      const mapping = datasetColumnMapping(collectSourceHeaders(sources), game);
+      const result = ingestSources(sources, { game, mapping });
+      const uploaded = createDrawDataset(
+        game,
+        canonicalDrawsOf(result.rows, result.headers, result.issues, {
+          game,
+          mapping,
+          dateOrder: result.dateFormat.order,
+        }),
+      );
+
+      const outPath = `${outDir}/${name}.json`;
+      require("child_process").execFileSync(
+        process.execPath,
+        [`${__dirname}/evaluate_model.js`, path, `--export-dataset=${outPath}`],
+        { stdio: "ignore" },
+      );
+      const exported = parseDrawDataset(fs.readFileSync(outPath, "utf8"), "json");
+      assert(
+        exported.gameId === uploaded.gameId &&
+          exported.draws.length > 0 &&
+          JSON.stringify(exported.draws) === JSON.stringify(uploaded.draws),
+        `${name} must export the same dataset from the upload and the CLI.`,
+      );
+    }
+  } finally {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+function testDrawNumberOrdering() {
+  const row = (draw: string, date: string, balls: number[]) => {
+    const record: Record<string, string> = { "Draw Number": draw, "Draw Date": date };
+    balls.forEach((n, idx) => (record[`Ball ${idx + 1}`] = String(n)));
+    return record;
+  };
+  const ctx = { game: DEFAULT_GAME, mapping: null };
+  const result = ingestSources(
+    [
+      {
+        label: "a",
+        rows: [
+          row("2452", "2024-10-12", [7, 8, 9, 10, 11, 12]),
+          row("2451", "2024-10-12", [1, 2, 3, 4, 5, 6]),
+          row("2450", "2024-10-09", [13, 14, 15, 16, 17, 18]),
+        ],
+      },
+      { label: "b", rows: [row("2451", "2024-10-12", [1, 2, 3, 4, 5, 7])] },
+    ],
+    ctx,
+  );
+  assert(
+    result.draws.map((draw) => draw.drawNumber).join(",") === "2450,2451,2452" &&
+      result.issues.length === 0,
+    "Draws sharing a date must all be kept and ordered by draw number.",
+  );
+  assert(
+    result.conflicts.length === 1 && result.conflicts[0].key === "Draw #2451",
+    "Sources disagreeing on one draw number must be reported as a conflict.",
+  );
+
+  // An unnumbered export of a numbered draw matches it by date.
+  const unnumbered = (date: string, balls: number[]) => {
+    const { "Draw Number": _drawNumber, ...rest } = row("", date, balls);
+    return rest;
+  };
+  const history = {
+    label: "history",
+    rows: [
+      row("2450", "2024-10-09", [13, 14, 15, 16, 17, 18]),
+      row("2451", "2024-10-12", [1, 2, 3, 4, 5, 6]),
+    ],
+  };
+  const appended = ingestSources(
+    [{ label: "latest", rows: [unnumbered("2024-10-12", [1, 2, 3, 4, 5, 6])] }],
+    ctx,
+    history,
+  );
+  assert(
+    appended.draws.length === 2 &&
+      appended.duplicateCount === 1 &&
+      appended.conflicts.length === 0 &&
+      appended.issues.length === 0,
+    "An unnumbered copy of a numbered draw must be a duplicate, not a new draw.",
+  );
+  const disagreeing = ingestSources(
+    [{ label: "latest", rows: [unnumbered("2024-10-12", [1, 2, 3, 4, 5, 9])] }],
+    ctx,
+    history,
+  );
+  assert(
+    disagreeing.draws.length === 2 &&
+      disagreeing.conflicts.length === 1 &&
+      disagreeing.conflicts[0].kept.source === "history",
+    "An unnumbered row disagreeing with a numbered draw on its date must conflict.",
+  );
+  const parsed = parseDrawRows(
+    [...history.rows, unnumbered("2024-10-12", [1, 2, 3, 4, 5, 6])],
+    Object.keys(history.rows[0]),
+    ctx,
+  );
+  assert(
+    parsed.draws.length === 2 &&
+      parsed.issues.length === 1 &&
+      parsed.issues[0].reasons.includes("duplicate-date"),
+    "Within one file an unnumbered row repeating a numbered draw's date must be rejected.",
+  );
+}
+
+function testDrawCalendarHoles() {
+  // Synthetic draws fall weekly on Wednesdays.
+  const weekly = { ...getGameDefinition("sa-daily-lotto"), drawDays: [3] };
+  const full = buildSyntheticDraws(60, 36, 5).map((draw, idx) => ({
+    ...draw,
+    drawNumber: 1000 + idx,
+  }));
+  // Draws 20-29 (ten weeks) are missing from the history.
+  const draws = [...full.slice(0, 20), ...full.slice(30)];
+  const report = findDrawHoles(draws, weekly);
+  assert(
+    report.holes.length === 1 &&
+      report.holes[0].index === 20 &&
+      report.missingDateCount === 10 &&
+      report.skippedDrawNumberCount === 10,
+    "A missing stretch must be reported once, by date and by draw number.",
+  );
+
+  // Consecutive draw numbers mark an empty scheduled day as cancelled, not missing.
+  const renumbered = draws.map((draw, idx) => ({ ...draw, drawNumber: 1000 + idx }));
+  assert(
+    findDrawHoles(renumbered, weekly).holes.length === 0,
+    "Consecutive draw numbers must not be reported as a hole.",
+  );
+
+  const pairTotal = (holeIndexes?: number[]) =>
+    transitionAnalysis(
+      draws,
+      36,
+      1,
+      36,
+      layoutForGame(weekly, "exclude"),
+      holeIndexes,
+    ).reduce(
+      (sum, row) => sum + row.toNumbers.reduce((acc, t) => acc + t.count, 0),
+      0,
+    );
+  assert(
+    pairTotal() - pairTotal([20]) === 25,
+    "Lag pairs spanning a hole must be skipped when exclusion is on.",
+  );
+  const diag = runFullDiagnostics(draws, { game: weekly, excludeLagAcrossHoles: true });
+  assert(
+    diag.excludeLagAcrossHoles && diag.drawCalendar.holes.length === 1,
+    "Diagnostics must carry the calendar report and the exclusion flag.",
+  );
+}
+
+function testPrizeData() {
+  assert(
+    parseMoney("R 2 000 000,00") === 2000000 &&
+      parseMoney("R2,000,000.50") === 2000000.5 &&
+      parseMoney("-") === null,
+    "Money amounts must read with either decimal separator.",
+  );
+
+  const row = {
+    "Draw No": "2451",
+    Jackpot: "R 12 500 000",
+    "Div 1 Winners": "0",
+    "Div 1 Payout": "R0.00",
+    "Div 2 Winners": "3",
+    "Div 2 Payout": "R 150 000,00",
+  };
+  const prizes = readDrawPrizes(row, null);
+  assert(
+    prizes !== undefined &&
+      prizes.jackpot === 12500000 &&
+      prizes.rollover === true &&
+      prizes.divisions.length === 2 &&
+      prizes.divisions[1].winners === 3 &&
+      prizes.divisions[1].payout === 150000,
+    "Division columns must be read and a winnerless division 1 must mean a rollover.",
+  );
+  assert(
+    readDrawPrizes({ "Draw No": "2451", "Ball 1": "5" }, null) === undefined,
+    "Rows without prize columns must carry no prize data.",
+  );
+
+  const streakDraws = [true, true, false, true, true, true, false, true].map(
+    (rollover, idx) => ({
+      date: `2024-01-${String(idx + 1).padStart(2, "0")}`,
+      numbers: [1, 2, 3, 4, 5, 6],
+      bonus: 7,
+      prizes: { jackpot: null, rollover, divisions: [] },
+    }),
+  );
+  const streaks = rolloverStreaks(streakDraws);
+  assert(
+    streaks.lengths.join(",") === "2,3" &&
+      streaks.longest === 3 &&
+      streaks.current === 1,
+    "Rollover streaks must end when the jackpot is won.",
+  );
+
+  const probabilities = divisionProbabilities(getGameDefinition("sa-lotto"), 58) ?? [];
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  assert(
+    probabilities.length === 8 &&
+      Math.abs(probabilities[0] * 40475358 - 1) < 1e-9 &&
+      total > 0 &&
+      total < 1,
+    "Division odds must follow the hypergeometric draw.",
+  );
+}
+
+function testRowEditHistory() {
+  const at = "2024-01-01T00:00:00.000Z";
+  const rows = ["a", "b", "c"];
+  const history = createEditHistory<string>();
+  commitRowEdit(history, rows, { kind: "edit", index: 1, before: "b", after: "B", at });
+  commitRowEdit(history, rows, { kind: "delete", index: 0, row: "a", at });
+  commitRowEdit(history, rows, { kind: "add", index: 2, row: "d", at });
+  assert(rows.join("") === "Bcd", "Edits must apply in order.");
+
+  undoRowEdit(history, rows);
+  undoRowEdit(history, rows);
+  assert(rows.join("") === "aBc", "Undo must revert adds and deletes in place.");
+  redoRowEdit(history, rows);
+  assert(
+    rows.join("") === "Bc" && history.undo.length === 2 && history.redo.length === 1,
+    "Redo must replay the last undone change.",
+  );
+
+  const restored = JSON.parse(JSON.stringify(history)) as typeof history;
+  commitRowEdit(restored, rows, { kind: "edit", index: 1, before: "c", after: "C", at });
+  assert(
+    restored.redo.length === 0 && undoRowEdit(restored, rows)?.kind === "edit",
+    "A persisted history must keep working and drop redo entries on a new change.",
+  );
+  while (undoRowEdit(restored, rows)) {
+    // unwind to the original rows
+  }
+  assert(rows.join("") === "abc", "Undoing everything must restore the original rows.");
+}
+
+function testUniformityTests() {
+  const close = (actual: number, expected: number, tolerance: number) =>
+    Math.abs(actual - expected) < tolerance;
+  assert(close(chiSquareSurvival(3.841459, 1), 0.05, 1e-6), "χ²(1) 95th percentile is 3.8415.");
+  assert(close(chiSquareSurvival(67.5048, 48), 0.0330908, 1e-6), "χ²(48) tail must be exact.");
+  assert(close(normalCdf(1.959964), 0.975, 1e-6), "Φ(1.96) must be 0.975.");
+
+  const draws = buildSyntheticDraws(120);
+  const fair = chiSquareTest(draws, 52, undefined, 200);
+  assert(
+    fair.monteCarlo !== null &&
+      fair.monteCarlo.trials === 200 &&
+      fair.pValue > 0.01 &&
+      fair.gTest.pValue > 0.01 &&
+      fair.ksTest.pValue > 0.01,
+    `Seeded fair draws should look uniform, got ${JSON.stringify(fair)}.`,
+  );
+  assert(
+    chiSquareTest(draws, 52, undefined, 200).monteCarlo?.pValue === fair.monteCarlo.pValue,
+    "The Monte Carlo test must be deterministic.",
+  );
+  // Scaled for sampling without replacement, the χ² tail tracks the simulated null.
+  assert(
+    Math.abs(fair.pValue - fair.monteCarlo.pValue) < 0.1,
+    `χ² and Monte Carlo p-values must agree, got ${fair.pValue} and ${fair.monteCarlo.pValue}.`,
+  );
+
+  const skewed = draws.map((draw, idx) =>
+    idx % 2 === 0 ? { ...draw, numbers: [1, 2, 3, 4, 5, 6] } : draw,
+  );
+  const biased = chiSquareTest(skewed, 52, undefined, 200);
+  assert(
+    !biased.isUniform &&
+      biased.gTest.pValue < 0.001 &&
+      biased.ksTest.pValue < 0.001 &&
+      biased.monteCarlo!.pValue < 0.01 &&
+      biased.cramersV > fair.cramersV,
+    "Repeated numbers must fail every uniformity test.",
+  );
+}
+
+function testMultipleTestingCorrection() {
+  const adjusted = adjustPValues([0.01, 0.04, 0.03, 0.005]);
+  const column = (key: keyof (typeof adjusted)[number]) =>
+    adjusted.map((entry) => Number(entry[key].toFixed(6))).join(",");
+  assert(column("bonferroni") === "0.04,0.16,0.12,0.02", "Bonferroni must scale by m.");
+  assert(column("holm") === "0.03,0.06,0.06,0.02", "Holm must step down monotonically.");
+  assert(column("benjaminiHochberg") === "0.02,0.04,0.04,0.02", "BH must step up monotonically.");
+  assert(
+    Math.abs(binomialUpperTail(10, 300, 30 / (52 * 51)) - 0.002501005) < 1e-8 &&
+      Math.abs(binomialUpperTail(2, 300, 30 / (52 * 51)) - 0.853984665) < 1e-8 &&
+      Math.abs(binomialUpperTail(40, 100, 0.3) - 0.020988576) < 1e-8,
+    "Binomial tails must be exact.",
+  );
+  assert(
+    adjustPValues([0.001], 100)[0].holm === 0.1,
+    "Untested members of the family must still count.",
+  );
+
+  const draws = fairDraws(300, 52, 6, 20240101);
+  const diag = runFullDiagnostics(draws);
+  const rawFlags = diag.autocorrelation.filter((a) => a.pValue < 0.05).length;
+  assert(
+    diag.autocorrelation.every((a) => !a.isSignificant) &&
+      !diag.biasReasons.some((reason) => /Sequential|Pair|transitions/.test(reason)),
+    `Fair draws must not raise corrected dependency flags (${rawFlags} raw, ${diag.biasReasons.join("; ")}).`,
+  );
+}
+
+function testBiasCalibration() {
+  const draws = buildSyntheticDraws(120);
+  const diag = runFullDiagnostics(draws, { calibrationTrials: 40 });
+  const calibration = diag.biasCalibration;
+  assert(calibration && calibration.trials === 40, "Calibration must run when trials are requested.");
+  assert(
+    calibration.rules.map((rule) => rule.id).join() ===
+      "frequency,sequential,pairs,transitions,overdue,gap-law,feature-sequence,cold-cycle,entropy" &&
+      calibration.rules.every(
+        (rule) =>
+          rule.fairTriggerRate >= 0 &&
+          rule.fairTriggerRate <= 1 &&
+          rule.nullPValue > 0 &&
+          rule.nullPValue <= 1,
+      ),
+    "Every bias rule needs a fair trigger rate and a null p-value.",
+  );
+  assert(
+    calibration.rules
+      .map((rule) => rule.reason)
+      .filter((reason) => reason !== null)
+      .join("|") === diag.biasReasons.join("|"),
+    "Calibrated rules must match the reported bias reasons.",
+  );
+  assert(
+    calibration.anyTriggerRate >=
+      Math.max(...calibration.rules.map((rule) => rule.fairTriggerRate)),
+    "Any-rule trigger rate must cover every single rule's rate.",
+  );
+  const again = runFullDiagnostics(draws, { calibrationTrials: 40 }).biasCalibration;
+  assert(
+    JSON.stringify(again) === JSON.stringify(calibration),
+    "Calibration must be deterministic.",
+  );
+  assert(runFullDiagnostics(draws).biasCalibration === null, "Calibration is opt-in.");
+  const quick = diagnosticsOptionsFromSettings({});
+  const simulated = diagnosticsOptionsFromSettings({ simulateNull: true });
+  assert(
+    !quick.uniformityTrials &&
+      !quick.calibrationTrials &&
+      simulated.uniformityTrials! > 0 &&
+      simulated.calibrationTrials! > 0,
+    "Fair-draw simulations must run only when the setting asks for them.",
+  );
+}
+
+function testPairMatrix() {
+  assert(
+    Math.abs(hypergeometricUpperTail(12, 300, 35, 40) - 0.0005656469) < 1e-9 &&
+      Math.abs(hypergeometricUpperTail(3, 300, 35, 40) - 0.8789003547) < 1e-9 &&
+      Math.abs(hypergeometricUpperTail(20, 120, 40, 45) - 0.0365345557) < 1e-9,
+    "Hypergeometric tails must be exact.",
+  );
+  const N = 52;
+  const seen = new Set<number>();
+  for (let i = 1; i < N; i++) {
+    for (let j = i + 1; j <= N; j++) seen.add(pairIndex(j, i, N));
+  }
+  assert(
+    seen.size === (N * (N - 1)) / 2 && Math.max(...seen) === seen.size - 1,
+    "pairIndex must number every pair exactly once.",
+  );
+
+  // Every fourth draw carries 7 and 19 together.
+  const draws = buildSyntheticDraws(200).map((draw, idx) => {
+    if (idx % 4 !== 0) return draw;
+    const others = draw.numbers.filter((n) => n !== 7 && n !== 19).slice(0, 4);
+    return { ...draw, numbers: [7, 19, ...others].sort((a, b) => a - b) };
+  });
+  const diag = runFullDiagnostics(draws, { bonusPolicy: "exclude" });
+  const matrix = diag.pairMatrix;
+  const totalPairs = matrix.counts.reduce((sum, count) => sum + count, 0);
+  assert(totalPairs === diag.eraDrawCount * 15, "Every draw contributes 15 pairs.");
+  const injected = matrix.adjusted[pairIndex(7, 19, N)];
+  assert(
+    injected.holm < 0.05 && diag.topPairs[0].i === 7 && diag.topPairs[0].j === 19,
+    "An injected pair must top the matrix and survive Holm.",
+  );
+  const direct = pairMatrix(
+    draws.slice(-diag.eraDrawCount),
+    N,
+    layoutForGame(diag.game, "exclude"),
+  );
+  assert(
+    direct.counts.join() === matrix.counts.join(),
+    "The diagnostics matrix must match a direct computation.",
+  );
+
+  // Every other draw is one of eight fixed blocks: 8 × 15 = 120 affine pairs.
+  const blocks = fairDraws(320, 52, 6, 20240303).map((draw, idx) => {
+    if (idx % 2 === 0) return draw;
+    const start = 6 * ((idx >> 1) % 8);
+    return { ...draw, numbers: [1, 2, 3, 4, 5, 6].map((n) => start + n) };
+  });
+  const reason = runFullDiagnostics(blocks, { bonusPolicy: "exclude" }).biasReasons.find(
+    (text) => text.startsWith("Pair affinity"),
+  );
+  const affine = Number(/\((\d+) pairs/.exec(reason ?? "")?.[1]);
+  assert(
+    affine >= 120,
+    `Pair affinity must count the whole matrix, not the top 30 (got ${reason}).`,
+  );
+}
+
+function testGapDistribution() {
+  const draws = fairDraws(400, 52, 6, 20240607);
+  const diag = runFullDiagnostics(draws, { bonusPolicy: "exclude" });
+  assert(
+    diag.gaps.every(
+      (g) =>
+        g.survival[0] === 1 &&
+        g.survival.every((s, idx) => s >= 0 && (idx === 0 || s <= g.survival[idx - 1])) &&
+        g.geometricFit !== null &&
+        g.geometricFit.pValue > 0 &&
+        g.geometricFit.pValue <= 1,
+    ),
+    "Survival curves must fall from 1 and every number needs a geometric fit.",
+  );
+  assert(
+    diag.gaps.every((g) => !g.isOverdue) &&
+      !diag.biasReasons.some((reason) => /gap/i.test(reason)),
+    `Fair draws must not raise gap flags (${diag.biasReasons.join("; ")}).`,
+  );
+
+  // Number 5 sits out the last 80 draws.
+  const absent = draws.map((draw, idx) => {
+    if (idx < draws.length - 80 || !draw.numbers.includes(5)) return draw;
+    const spare = Array.from({ length: 52 }, (_, n) => n + 1).find(
+      (n) => n !== 5 && n !== draw.bonus && !draw.numbers.includes(n),
+    )!;
+    const numbers = draw.numbers.map((n) => (n === 5 ? spare : n));
+    return { ...draw, numbers: numbers.sort((a, b) => a - b) };
+  });
+  const gaps = gapAnalysis(absent, 52, layoutForGame(diag.game, "exclude"));
+  const five = gaps.find((g) => g.number === 5)!;
+  assert(
+    five.currentGap >= 80 &&
+      five.isOverdue &&
+      Math.abs(five.currentGapTail - (1 - 6 / 52) ** five.currentGap) < 1e-12,
+    "A long absence must be flagged overdue from the geometric tail.",
+  );
+  assert(
+    five.survival[five.currentGap] > 0,
+    "The censored current gap must keep the survival curve above zero.",
+  );
+}
+
+function testFeatureSequences() {
+  const draws = fairDraws(300, 52, 6, 20240815);
+  const rng = createSeededRandom(20240816);
+  const fair = runFullDiagnostics(draws, { bonusPolicy: "exclude" }).featureSequences;
+  assert(
+    fair.map((f) => f.feature).join() === "odd,low,group" &&
+      fair.every((f) => f.serial.length === MAX_FEATURE_LAG) &&
+      fair.flatMap(featureTestsOf).every((test) => !test.isSignificant),
+    "Fair draws must pass every feature sequence test.",
+  );
+  assert(
+    fair.every((f) => Math.abs(f.runs.zScore) < 4 && f.runs.expectedRuns > 0),
+    "Runs counts on fair draws must sit near their expectation.",
+  );
+
+  // Draws alternate between all-odd and all-even.
+  const alternating = draws.map((draw, idx) => {
+    const numbers = sampleDistinctBalls(26, 6, rng)
+      .map((k) => (idx % 2 === 0 ? 2 * k - 1 : 2 * k))
+      .sort((a, b) => a - b);
+    return { ...draw, numbers, bonus: 0 };
+  });
+  const diag = runFullDiagnostics(alternating, { bonusPolicy: "exclude" });
+  const odd = diag.featureSequences.find((f) => f.feature === "odd")!;
+  assert(
+    odd.runs.isSignificant &&
+      odd.runs.zScore > 0 &&
+      odd.serial[0].correlation < -0.9 &&
+      odd.serial[0].isSignificant &&
+      odd.serial[1].correlation > 0.9,
+    "Alternating odd counts must fail the runs and lag tests.",
+  );
+  assert(
+    diag.biasReasons.some((reason) => /odd\/even/.test(reason)),
+    "A significant feature sequence must raise a bias reason.",
+  );
+  // With an odd number of draws the median is one of the two counts.
+  const oddLength = featureSequenceAnalysis(
+    alternating.slice(1),
+    52,
+    layoutForGame(DEFAULT_GAME, "exclude"),
+  );
+  assert(
+    oddLength[0].runs.isSignificant && oddLength[0].runs.runs === 299,
+    "Counts tied with the median must still enter the runs test.",
+  );
+}
+
+function testSetShapeDistributions() {
+  // Brute force over every 3-of-12 set.
+  const N = 12;
+  const K = 3;
+  const exact = exactShapeDistributions(N, K);
+  const tallies = {
+    sum: new Map<number, number>(),
+    range: new Map<number, number>(),
+    odd: new Map<number, number>(),
+    consecutive: new Map<number, number>(),
+  };
+  let total = 0;
+  for (let a = 1; a <= N; a++) {
+    for (let b = a + 1; b <= N; b++) {
+      for (let c = b + 1; c <= N; c++) {
+        total++;
+        const shape = setShapeOf([a, b, c]);
+        for (const feature of Object.keys(tallies) as Array<keyof typeof tallies>) {
+          tallies[feature].set(shape[feature], (tallies[feature].get(shape[feature]) ?? 0) + 1);
+        }
+      }
+    }
+  }
+  for (const feature of Object.keys(tallies) as Array<keyof typeof tallies>) {
+    const { min, probabilities } = exact[feature];
+    assert(
+      probabilities.every(
+        (p, idx) => Math.abs(p - (tallies[feature].get(idx + min) ?? 0) / total) < 1e-12,
+      ) && Math.abs(probabilities.reduce((a, b) => a + b, 0) - 1) < 1e-12,
+      `Exact ${feature} distribution must match enumeration.`,
+    );
+  }
+
+  const extreme = setShapePercentiles([1, 2, 3, 4, 5, 6], 52);
+  assert(
+    extreme.sum < 0.001 && extreme.range < 0.001 && extreme.consecutive > 99.99,
+    "A run of the lowest numbers must sit in the extreme percentiles.",
+  );
+
+  const draws = fairDraws(400, 52, 6, 20240921);
+  const fair = runFullDiagnostics(draws);
+  const shape = fair.setShape;
+  assert(
+    shape.length === 4 &&
+      shape.every(
+        (result) =>
+          result.observed.reduce((a, b) => a + b, 0) === fair.eraDrawCount &&
+          result.adjusted.holm >= 0.05 &&
+          Math.abs(result.observedMean - result.expectedMean) < result.expectedMean * 0.1 + 0.1,
+      ) &&
+      Math.abs(shape[0].expectedMean - 159) < 1e-9,
+    "Fair draws must match the exact shape distributions.",
+  );
+}
+
+function testPositionalOrderStatistics() {
+  for (let slot = 1; slot <= 6; slot++) {
+    let total = 0;
+    for (let n = 1; n <= 52; n++) total += orderStatisticProbability(n, slot, 52, 6);
+    assert(Math.abs(total - 1) < 1e-12, `Slot ${slot} probabilities must sum to 1.`);
+  }
+  assert(
+    Math.abs(orderStatisticProbability(1, 1, 52, 6) - 6 / 52) < 1e-12 &&
+      orderStatisticProbability(48, 1, 52, 6) === 0,
+    "Order-statistic probabilities must be exact.",
+  );
+
+  const draws = fairDraws(400, 52, 6, 20241010);
+  const fair = positionalFrequencyAnalysis(draws, 52, layoutForGame(DEFAULT_GAME, "include"));
+  const cells = fair.flatMap((slot) => slot.cells);
+  assert(
+    fair.length === 6 &&
+      cells.every((cell) => !cell.isSignificant) &&
+      fair.every(
+        (slot) => slot.cells.reduce((sum, cell) => sum + cell.count, 0) === draws.length,
+      ),
+    "Fair draws fill six main-number slots with no significant cells.",
+  );
+
+  // Every third draw's lowest ball is 20, far above where slot 1 usually sits.
+  const skewed = draws.map((draw, idx) =>
+    idx % 3 === 0 ? { ...draw, numbers: [20, 31, 36, 41, 45, 50] } : draw,
+  );
+  const cell = positionalFrequencyAnalysis(skewed, 52)[0].cells.find((c) => c.number === 20)!;
+  assert(
+    cell.isSignificant &&
+      cell.lift > 5 &&
+      Math.abs(cell.expected - 400 * orderStatisticProbability(20, 1, 52, 6)) < 1e-9,
+    "A slot overloaded with one number must show a large, significant lift.",
+  );
+}
+
+function testTransitionBaselines() {
+  const draws = fairDraws(300, 52, 6, 20241101);
+  const rng = createSeededRandom(20241102);
+  const fair = runFullDiagnostics(draws);
+  const smoothedLift = (to: { smoothedProbability: number; expectedProbability: number }) =>
+    to.smoothedProbability / to.expectedProbability;
+  assert(
+    fair.transitionIndependence.length === 4 &&
+      fair.transitionIndependence.every(
+        (t) => t.isIndependent && t.degreesOfFreedom === 51 * 51 && t.pValue > 0,
+      ),
+    "Fair draws must pass the lagged independence tests.",
+  );
+  assert(
+    fair.transitions.every((row) =>
+      row.toNumbers.every((to, idx) => {
+        const between =
+          (to.smoothedProbability - to.probability) *
+            (to.smoothedProbability - to.expectedProbability) <=
+          1e-15;
+        const ranked = idx === 0 || smoothedLift(row.toNumbers[idx - 1]) >= smoothedLift(to);
+        return (
+          Math.abs(to.lift - to.probability / to.expectedProbability) < 1e-12 && between && ranked
+        );
+      }),
+    ),
+    "Transitions must carry lift and a smoothed estimate between observed and base rate, ranked by smoothed lift.",
+  );
+
+  // 33 follows every draw whose main numbers hold 7.
+  const chained = draws.map((draw, idx) => {
+    const previous = draws[idx - 1];
+    if (!previous?.numbers.includes(7) || draw.numbers.includes(33)) return draw;
+    const numbers = [33, ...draw.numbers.slice(1)].sort((a, b) => a - b);
+    return { ...draw, numbers, bonus: draw.bonus === 33 ? draw.numbers[0] : draw.bonus };
+  });
+  const diag = runFullDiagnostics(chained);
+  const link = diag.transitions
+    .find((row) => row.lag === 1 && row.fromNumber === 7)!
+    .toNumbers.find((to) => to.number === 33)!;
+  assert(
+    link.probability > 0.8 && link.lift > 3 && link.isSignificant,
+    "An injected follower must carry a large, significant lift.",
+  );
+
+  // Every other draw repeats half of the one before it.
+  const repeating: DrawRecord[] = [];
+  draws.forEach((draw, idx) => {
+    const balls = sampleDistinctBalls(52, 13, rng);
+    const previous = repeating[idx - 1]?.numbers ?? [];
+    const kept = idx % 2 === 1 ? sampleDistinctBalls(6, 3, rng).map((i) => previous[i - 1]) : [];
+    const fresh = balls.filter((n) => !kept.includes(n));
+    const numbers = [...kept, ...fresh].slice(0, 6).sort((a, b) => a - b);
+    repeating.push({ ...draw, numbers, bonus: fresh[fresh.length - 1] });
+  });
+  const independence = runFullDiagnostics(repeating).transitionIndependence;
+  assert(
+    !independence[0].isIndependent &&
+      independence.every((t) => t.pValue >= independence[0].pValue),
+    "Repeated numbers must break lag-1 independence most of all.",
+  );
+}
+
+function testDateFormatInference() {
+  const iso = (value: string, order?: "dmy" | "mdy" | "ymd") => {
+    const parsed = parseDateValue(value, order);
+    return parsed ? toIsoDate(parsed) : null;
+  };
+
+  const dayFirst = inferDateFormat(["03/04/2020", "25/04/2020", "2020-05-02"]);
+  assert(
+    dayFirst.order === "dmy" && !dayFirst.ambiguous,
+    "A day above 12 must settle the column as day-first.",
+  );
+  const monthFirst = inferDateFormat(["03/04/2020", "04/25/2020"]);
+  assert(
+    monthFirst.order === "mdy" && !monthFirst.ambiguous,
+    "A second part above 12 must settle the column as month-first.",
+  );
+  const unclear = inferDateFormat(["03/04/2020", "10/04/2020"]);
+  assert(
+    unclear.ambiguous &&
+      unclear.candidates.join(",") === "dmy,mdy" &&
+      unclear.order === "dmy",
+    "Columns that fit both orders must be flagged and default to day-first.",
+  );
+  assert(
+    iso("25/04/2020", "mdy") === null && iso("25/04/2020") === "2020-04-25",
+    "Numeric dates must be read strictly in the chosen order.",
+  );
+  assert(
+    iso("45940") === "2025-10-10" && iso("45940.5") === "2025-10-10",
+    "Excel serial dates must be read in any order.",
+  );
+  assert(
+    iso("12 Oct 2024") === "2024-10-12" &&
+      iso("12 Okt 2024", "mdy") === "2024-10-12" &&
+      iso("Saturday, 7 Desember 2024") === "2024-12-07" &&
+      iso("Oct 12, 2024") === "2024-10-12",
+    "English and Afrikaans month names must be read.",
+  );
+  assert(
+    !inferDateFormat(["12 Okt 2024", "45940"]).ambiguous,
+    "Serial and textual dates never make a column ambiguous.",
+  );
+}
+
+async function runVerificationSuite() {
   testBayesianRecencyWeighting();
   testCompositeScoreOrdering();
   testPredictionDeterminism();
   testDiagnosticsCacheKeyUniqueness();
+  testGameDefinitionDiagnostics();
+  testSeparatePoolBonusDiagnostics();
+  testBonusPolicyDiagnostics();
+  testFormatEraDetection();
+  testImportMerge();
+  testDrawDatasetRoundTrip();
+  testIngestionFixtures();
+  testDateFormatInference();
+  testDrawNumberOrdering();
+  testDrawCalendarHoles();
+  testPrizeData();
+  testRowEditHistory();
+  testUniformityTests();
+  testMultipleTestingCorrection();
+  testBiasCalibration();
+  testPairMatrix();
+  testGapDistribution();
+  testFeatureSequences();
+  testSetShapeDistributions();
+  testPositionalOrderStatistics();
+  testTransitionBaselines();
+  await testUploadMatchesCli();
 }
 
-try {
-  runVerificationSuite();
-  console.log("All verification checks passed.");
-} catch (error) {
-  console.error("Verification failed:", error);
-  throw error;
-}
+runVerificationSuite().then(
+  () => console.log("All verification checks passed."),
+  (error) => {
+    console.error("Verification failed:", error);
+    process.exitCode = 1;
+  },
+);